@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from './store/useAuthStore';
 import { useQuizStore } from './store/useQuizStore';
@@ -6,6 +6,7 @@ import MainLayout from './components/layout/MainLayout';
 import HomePage from './pages/HomePage';
 import AuthPage from './pages/AuthPage';
 import QuizPage from './pages/QuizPage';
+import ResumeQuizPrompt from './components/quiz/ResumeQuizPrompt';
 import PreferencesPage from './pages/PreferencesPage';
 import ApiSettingsPage from './pages/ApiSettingsPage';
 import QuestionBankPage from './pages/QuestionBankPage';
@@ -13,6 +14,7 @@ import AnswerEvaluationPage from './pages/AnswerEvaluationPage';
 import NotesGeneratorPage from './pages/NotesGeneratorPage';
 import StudyPlannerPage from './pages/StudyPlannerPage';
 import ProgressTrackerPage from './pages/ProgressTrackerPage';
+import QuizHistoryPage from './pages/QuizHistoryPage';
 import ChatPage from './pages/ChatPage';
 import ProfilePage from './pages/ProfilePage';
 import CompetitionPage from './pages/CompetitionPage';
@@ -33,23 +35,38 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   return <>{children}</>;
 };
 
-// Quiz route wrapper to handle API key and preferences flow
+// Quiz route wrapper to handle API key and preferences flow, and to offer resuming an unfinished quiz
 const QuizRoute: React.FC = () => {
-  const { apiKey, loadApiKey, preferences, loadPreferences, questions } = useQuizStore();
+  const { loadApiKey, loadPreferences, questions, result, checkpoint, loadCheckpoint, resumeQuiz, discardCheckpoint } = useQuizStore();
   const { user, isLoggedIn } = useAuthStore();
   const location = useLocation();
+  const [isCheckingCheckpoint, setIsCheckingCheckpoint] = useState(true);
 
   useEffect(() => {
     if (user) {
       loadApiKey(user.id);
       loadPreferences(user.id);
+      loadCheckpoint(user.id).finally(() => setIsCheckingCheckpoint(false));
     }
-  }, [user]);
+  }, [user, loadApiKey, loadPreferences, loadCheckpoint]);
 
   if (!isLoggedIn) {
     return <Navigate to="/auth" state={{ from: location }} replace />;
   }
 
+  if (isCheckingCheckpoint) return null;
+
+  // A quiz already under way in this tab needs no resuming
+  if (checkpoint && user && questions.length === 0 && !result) {
+    return (
+      <ResumeQuizPrompt
+        checkpoint={checkpoint}
+        onResume={resumeQuiz}
+        onDiscard={() => discardCheckpoint(user.id)}
+      />
+    );
+  }
+
   return <QuizPage />;
 };
 
@@ -130,6 +147,22 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="history"
+            element={
+              <ProtectedRoute>
+                <QuizHistoryPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="history/:attemptId"
+            element={
+              <ProtectedRoute>
+                <QuizHistoryPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="chat"
             element={
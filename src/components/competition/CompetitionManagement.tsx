@@ -10,6 +10,7 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Competition } from '../../types/competition';
+import { getMarkingSchemeName } from '../../data/markingSchemes';
 
 interface CompetitionManagementProps {
   userId: string;
@@ -284,6 +285,10 @@ const CompetitionManagement: React.FC<CompetitionManagementProps> = ({ userId })
                               <span className="text-gray-600">Language:</span>
                               <span className="ml-2 font-medium">{competition.quiz_preferences?.language}</span>
                             </div>
+                            <div>
+                              <span className="text-gray-600">Marking:</span>
+                              <span className="ml-2 font-medium">{getMarkingSchemeName(competition.quiz_preferences?.markingScheme?.id)}</span>
+                            </div>
                           </div>
                         </div>
                       </div>
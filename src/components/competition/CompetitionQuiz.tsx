@@ -1,14 +1,144 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Competition } from '../../types/competition';
+import { Question, QuizPreferences } from '../../types';
+import { useCompetitionStore } from '../../store/useCompetitionStore';
+import { defaultPreferences } from '../../store/useQuizStore';
+import { answerPart, getPart, parsePartAnswers } from '../../services/passage';
+import QuizQuestion from '../quiz/QuizQuestion';
+import PassagePanel from '../quiz/PassagePanel';
+import { Card, CardBody } from '../ui/Card';
+
+interface CompetitionQuizProps {
+  competition: Competition;
+  onComplete: () => void;
+}
+
+// A competition's questions answered one at a time, under the competition's time limits. Every
+// answer is scored and sent as progress for the live leaderboard, and finishing records the final
+// score before completing.
+const CompetitionQuiz: React.FC<CompetitionQuizProps> = ({ competition, onComplete }) => {
+  const { submitAnswers, completeCompetition, error } = useCompetitionStore();
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [partIndex, setPartIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [startedAt] = useState(() => Date.now());
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  const questions: Question[] = competition.questions || [];
+  const preferences: Partial<QuizPreferences> = competition.quiz_preferences || {};
+  const question = questions[questionIndex];
+
+  const [totalTimeRemaining, setTotalTimeRemaining] = useState<number | null>(() =>
+    preferences.timeLimitEnabled && preferences.totalTimeLimit ? Number(preferences.totalTimeLimit) : null
+  );
+  const finishRef = useRef<() => void>(() => {});
+
+  // Running out of total time finishes the competition with the answers given so far
+  useEffect(() => {
+    if (totalTimeRemaining === null) return;
+    if (totalTimeRemaining <= 0) {
+      finishRef.current();
+      return;
+    }
+    const timer = setTimeout(() => setTotalTimeRemaining(totalTimeRemaining - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [totalTimeRemaining]);
+
+  if (!question) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-16">
+        <Card>
+          <CardBody className="p-8 text-center text-gray-600">This competition has no questions yet.</CardBody>
+        </Card>
+      </div>
+    );
+  }
+
+  const part = getPart(question, partIndex);
+  const partAnswers = question.type === 'passage' ? parsePartAnswers(answers[question.id], question.parts.length) : [];
+  const isLastPart = question.type !== 'passage' || partIndex === question.parts.length - 1;
+  const timeTaken = () => Math.round((Date.now() - startedAt) / 1000);
+
+  const handleAnswer = (answer: string) => {
+    const nextAnswers = {
+      ...answers,
+      [question.id]: question.type === 'passage' ? answerPart(question, answers[question.id], partIndex, answer) : answer
+    };
+    setAnswers(nextAnswers);
+    submitAnswers(competition.id, nextAnswers, timeTaken(), questionIndex + 1);
+  };
+
+  const next = () => {
+    if (!isLastPart) {
+      setPartIndex(partIndex + 1);
+    } else if (questionIndex < questions.length - 1) {
+      setQuestionIndex(questionIndex + 1);
+      setPartIndex(0);
+    }
+  };
+
+  const previous = () => {
+    if (partIndex > 0) {
+      setPartIndex(partIndex - 1);
+    } else if (questionIndex > 0) {
+      const previousQuestion = questions[questionIndex - 1];
+      setQuestionIndex(questionIndex - 1);
+      setPartIndex(previousQuestion.type === 'passage' ? previousQuestion.parts.length - 1 : 0);
+    }
+  };
+
+  const finish = async () => {
+    if (isFinishing) return;
+    setIsFinishing(true);
+    await submitAnswers(competition.id, answers, timeTaken(), questions.length);
+    await completeCompetition(competition.id);
+    onComplete();
+  };
+  finishRef.current = finish;
+
+  // Answers stay hidden until everyone has finished, so competitions never reveal them early
+  const quizQuestion = (
+    <QuizQuestion
+      key={`${question.id}-${partIndex}`}
+      question={part || question}
+      questionNumber={questionIndex + 1}
+      totalQuestions={questions.length}
+      userAnswer={part ? partAnswers[partIndex] : answers[question.id]}
+      onAnswer={handleAnswer}
+      onPrevious={previous}
+      onNext={next}
+      isLastQuestion={questionIndex === questions.length - 1 && isLastPart}
+      onFinish={finish}
+      language={preferences.language || defaultPreferences.language}
+      timeLimitEnabled={preferences.timeLimitEnabled || false}
+      timeLimit={preferences.timeLimit}
+      totalTimeLimit={preferences.totalTimeLimit}
+      totalTimeRemaining={totalTimeRemaining}
+      mode="exam"
+      answerMode="end"
+      part={part ? { number: partIndex + 1, count: partAnswers.length } : undefined}
+    />
+  );
 
-const CompetitionQuiz: React.FC = () => {
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Answer Evaluation</h1>
-      <Card className="p-6">
-        <p className="text-gray-600">Answer evaluation feature coming soon...</p>
-      </Card>
+    <div className={`${question.type === 'passage' ? 'max-w-7xl' : 'max-w-4xl'} mx-auto px-2 sm:px-4 py-8 space-y-4`}>
+      <h1 className="text-2xl font-bold">{competition.title}</h1>
+      {error && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">{error}</div>
+      )}
+      {question.type === 'passage' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <PassagePanel
+            question={question}
+            partIndex={partIndex}
+            partAnswers={partAnswers}
+            onSelectPart={setPartIndex}
+          />
+          {quizQuestion}
+        </div>
+      ) : quizQuestion}
     </div>
   );
 };
 
-export default CompetitionQuiz;
\ No newline at end of file
+export default CompetitionQuiz;
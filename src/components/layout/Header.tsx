@@ -5,7 +5,7 @@ import {
   ChevronDown, LogOut, User, BookOpen, 
   Home, Settings, GraduationCap, FileQuestion, 
   PenTool, NotebookText, Calendar, LineChart,
-  Brain, Menu, Key, Trophy
+  Brain, Menu, Key, Trophy, History
 } from 'lucide-react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -58,6 +58,7 @@ const Header: React.FC = () => {
     { path: '/notes', icon: NotebookText, label: 'Smart Notes' },
     { path: '/study-plan', icon: Calendar, label: 'Study Planner' },
     { path: '/progress', icon: LineChart, label: 'Progress' },
+    { path: '/history', icon: History, label: 'Quiz History' },
   ];
 
   const profileMenuItems = [
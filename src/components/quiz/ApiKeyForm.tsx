@@ -5,6 +5,7 @@ import { Input } from '../ui/Input';
 import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
 import { Key, Save, ExternalLink, Copy, CheckCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 
 interface ApiKeyFormProps {
   userId: string;
@@ -12,8 +13,8 @@ interface ApiKeyFormProps {
 }
 
 const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ userId, onSave }) => {
-  const { apiKey, saveApiKey, isLoading, error } = useQuizStore();
-  const [key, setKey] = useState(apiKey || '');
+  const { saveApiKey, isLoading, error } = useQuizStore();
+  const [key, setKey] = useState('');
   const [copied, setCopied] = useState(false);
   
   const handleSubmit = async (e: React.FormEvent) => {
@@ -62,6 +63,12 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ userId, onSave }) => {
           <p className="text-purple-800">
             To generate quizzes, you'll need a Gemini API key. Follow these steps to get started:
           </p>
+          <p className="text-sm text-purple-700 mt-2">
+            Prefer OpenAI or a local Ollama model?{' '}
+            <Link to="/api-settings" className="font-medium underline hover:text-purple-900">
+              Choose another provider in API Settings
+            </Link>
+          </p>
         </div>
         
         <div className="space-y-6">
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import hljs from 'highlight.js/lib/core';
+import python from 'highlight.js/lib/languages/python';
+import javascript from 'highlight.js/lib/languages/javascript';
+import typescript from 'highlight.js/lib/languages/typescript';
+import java from 'highlight.js/lib/languages/java';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import go from 'highlight.js/lib/languages/go';
+import rust from 'highlight.js/lib/languages/rust';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import php from 'highlight.js/lib/languages/php';
+import ruby from 'highlight.js/lib/languages/ruby';
+import sql from 'highlight.js/lib/languages/sql';
+import bash from 'highlight.js/lib/languages/bash';
+import 'highlight.js/styles/github.css';
+import { CodeLanguage } from '../../types';
+import { getCodeLanguageName } from '../../data/codeLanguages';
+
+// Only the languages questions can use are bundled
+const grammars: Record<CodeLanguage, Parameters<typeof hljs.registerLanguage>[1]> = {
+  python, javascript, typescript, java, c, cpp, csharp, go, rust, kotlin, php, ruby, sql, bash,
+};
+Object.entries(grammars).forEach(([name, grammar]) => hljs.registerLanguage(name, grammar));
+
+interface CodeBlockProps {
+  code: string;
+  language?: CodeLanguage;
+  className?: string;
+}
+
+// A code snippet with syntax highlighting and its whitespace preserved
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, className = '' }) => {
+  // highlight.js escapes the source, so its markup is safe to inject
+  const html = useMemo(
+    () => language && hljs.getLanguage(language)
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : null,
+    [code, language]
+  );
+
+  return (
+    <div className={`rounded-lg border border-gray-200 bg-gray-50 overflow-hidden ${className}`}>
+      <div className="px-4 py-1.5 border-b border-gray-200 text-xs font-medium text-gray-500">
+        {getCodeLanguageName(language)}
+      </div>
+      <pre className="p-4 overflow-x-auto text-sm leading-relaxed">
+        {html !== null
+          ? <code className="hljs font-mono !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: html }} />
+          : <code className="font-mono">{code}</code>}
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Question } from '../../types';
+import { Card, CardBody, CardHeader } from '../ui/Card';
+import { MathText } from '../ui/MathText';
+import { BookOpen } from 'lucide-react';
+
+interface PassagePanelProps {
+  question: Extract<Question, { type: 'passage' }>;
+  partIndex: number;
+  partAnswers: string[];
+  onSelectPart: (partIndex: number) => void;
+}
+
+// The passage stays pinned beside its sub-questions, with a button per part to move between them
+const PassagePanel: React.FC<PassagePanelProps> = ({ question, partIndex, partAnswers, onSelectPart }) => (
+  <Card className="lg:sticky lg:top-4">
+    <CardHeader className="space-y-3">
+      <div className="flex items-center text-sm font-medium text-purple-700">
+        <BookOpen className="w-4 h-4 mr-2" />
+        Read the passage
+      </div>
+      <h2 className="text-lg font-semibold text-gray-900"><MathText text={question.text} /></h2>
+      <div className="flex flex-wrap gap-2">
+        {question.parts.map((part, index) => (
+          <button
+            key={part.id}
+            type="button"
+            onClick={() => onSelectPart(index)}
+            aria-label={`Part ${index + 1}`}
+            className={`w-8 h-8 rounded-full text-sm font-medium border-2 transition-colors ${
+              index === partIndex
+                ? 'border-purple-600 bg-purple-600 text-white'
+                : partAnswers[index]
+                  ? 'border-purple-300 bg-purple-50 text-purple-700'
+                  : 'border-gray-200 text-gray-600 hover:border-purple-300'
+            }`}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+    </CardHeader>
+    <CardBody className="max-h-[60vh] lg:max-h-[calc(100vh-14rem)] overflow-y-auto">
+      <p className="text-gray-800 leading-relaxed whitespace-pre-line"><MathText text={question.passage} /></p>
+    </CardBody>
+  </Card>
+);
+
+export default PassagePanel;
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { useQuizStore } from '../../store/useQuizStore';
+import { providerOptions } from '../../services/providers';
+import { AIProvider, ApiKeyData, GeminiKeyStatus } from '../../types';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { Cpu, Save, CheckCircle, Sparkles, Server, Cloud, FlaskConical, XCircle, ShieldCheck } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface ProviderSettingsFormProps {
+  userId: string;
+  onSave?: () => void;
+}
+
+const providerIcons: Record<AIProvider, React.ElementType> = {
+  gemini: Sparkles,
+  openai: Cloud,
+  ollama: Server,
+  fixture: FlaskConical,
+};
+
+const emptySettings: Omit<ApiKeyData, 'userId'> = {
+  provider: 'gemini',
+  geminiKeyStatus: 'missing',
+};
+
+const keyStatusLabels: Record<GeminiKeyStatus, { label: string; className: string; icon: React.ElementType }> = {
+  missing: { label: 'No key saved', className: 'text-gray-500', icon: Cpu },
+  unverified: { label: 'Key saved, not verified yet', className: 'text-gray-600', icon: ShieldCheck },
+  valid: { label: 'Key verified', className: 'text-green-600', icon: CheckCircle },
+  invalid: { label: 'Google rejected this key', className: 'text-red-600', icon: XCircle },
+};
+
+const KeyStatus: React.FC<{ status: GeminiKeyStatus }> = ({ status }) => {
+  const { label, className, icon: Icon } = keyStatusLabels[status];
+  return (
+    <p className={`flex items-center text-xs mt-1 ${className}`}>
+      <Icon className="w-3.5 h-3.5 mr-1" />
+      {label}
+      {status !== 'missing' && ' · enter a new key to replace it'}
+    </p>
+  );
+};
+
+const ProviderSettingsForm: React.FC<ProviderSettingsFormProps> = ({ userId, onSave }) => {
+  const { apiKeyData, saveProviderSettings, isLoading, error } = useQuizStore();
+  const [settings, setSettings] = useState<Omit<ApiKeyData, 'userId'>>(apiKeyData || emptySettings);
+  // Replacement keys; the stored ones are never sent back to the browser
+  const [geminiApiKey, setGeminiApiKey] = useState('');
+  const [openaiApiKey, setOpenaiApiKey] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Pick up settings loaded after the form first rendered
+  useEffect(() => {
+    if (apiKeyData) {
+      setSettings(apiKeyData);
+    }
+  }, [apiKeyData]);
+
+  const selected = providerOptions[settings.provider];
+
+  const updateSettings = (changes: Partial<Omit<ApiKeyData, 'userId'>>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleProviderChange = (provider: AIProvider) => {
+    // Model names are provider specific, so fall back to the new provider's default
+    updateSettings({ provider, model: undefined });
+  };
+
+  const isComplete =
+    settings.provider === 'gemini' ? !!geminiApiKey || settings.geminiKeyStatus !== 'missing' :
+    settings.provider === 'openai' ? !!openaiApiKey || !!settings.openaiKeyHint :
+    true;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveProviderSettings(userId, settings, geminiApiKey || undefined, openaiApiKey || undefined);
+      setGeminiApiKey('');
+      setOpenaiApiKey('');
+      setSaved(true);
+      if (onSave) onSave();
+    } catch {
+      // The store exposes the error message
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="bg-purple-100 p-2 rounded-lg">
+            <Cpu className="w-6 h-6 text-purple-600" />
+          </div>
+          <h2 className="text-2xl font-semibold text-gray-800">AI Provider</h2>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-6">
+        <p className="text-gray-600">
+          Choose which model generates your quizzes, explanations and answer evaluations.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {(Object.keys(providerOptions) as AIProvider[]).map((provider, index) => {
+            const Icon = providerIcons[provider];
+            const isSelected = settings.provider === provider;
+            return (
+              <motion.button
+                key={provider}
+                type="button"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                onClick={() => handleProviderChange(provider)}
+                className={`text-left p-4 rounded-xl border-2 transition-all ${
+                  isSelected
+                    ? 'border-purple-500 bg-purple-50'
+                    : 'border-gray-200 hover:border-purple-300'
+                }`}
+              >
+                <Icon className={`w-6 h-6 mb-2 ${isSelected ? 'text-purple-600' : 'text-gray-500'}`} />
+                <div className="font-medium text-gray-900">{providerOptions[provider].name}</div>
+                <div className="text-xs text-gray-500 mt-1">{providerOptions[provider].description}</div>
+              </motion.button>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {settings.provider !== 'fixture' && (
+            <div>
+              <label htmlFor="model" className="block text-sm font-medium text-gray-700 mb-1">
+                Model
+              </label>
+              <Input
+                id="model"
+                placeholder={selected.defaultModel}
+                value={settings.model || ''}
+                onChange={(e) => updateSettings({ model: e.target.value || undefined })}
+                isFullWidth
+                className="font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty to use {selected.defaultModel}.</p>
+            </div>
+          )}
+
+          {settings.provider === 'fixture' && (
+            <p className="text-sm text-gray-600 py-2 px-3 bg-gray-50 rounded-md">
+              Quizzes, explanations and answer checks use built-in sample data. The same preferences
+              always produce the same quiz, so this is meant for trying the app out and for tests.
+            </p>
+          )}
+
+          {settings.provider === 'gemini' && (
+            <div>
+              <label htmlFor="geminiApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+                Gemini API Key
+              </label>
+              <Input
+                id="geminiApiKey"
+                type="password"
+                placeholder={settings.geminiKeyHint ? `••••••••${settings.geminiKeyHint}` : 'Enter your Gemini API key'}
+                value={geminiApiKey}
+                onChange={(e) => {
+                  setGeminiApiKey(e.target.value);
+                  setSaved(false);
+                }}
+                isFullWidth
+                className="font-mono"
+              />
+              <KeyStatus status={settings.geminiKeyStatus} />
+              <p className="text-xs text-gray-500 mt-1">
+                Your key is stored encrypted on our server and is only used to call Gemini for you.
+              </p>
+            </div>
+          )}
+
+          {settings.provider === 'openai' && (
+            <>
+              <div>
+                <label htmlFor="openaiBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  API Base URL
+                </label>
+                <Input
+                  id="openaiBaseUrl"
+                  placeholder={selected.defaultBaseUrl}
+                  value={settings.openaiBaseUrl || ''}
+                  onChange={(e) => updateSettings({ openaiBaseUrl: e.target.value || undefined })}
+                  isFullWidth
+                  className="font-mono"
+                />
+              </div>
+              <div>
+                <label htmlFor="openaiApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+                  API Key
+                </label>
+                <Input
+                  id="openaiApiKey"
+                  type="password"
+                  placeholder={settings.openaiKeyHint ? `••••••••${settings.openaiKeyHint}` : 'sk-...'}
+                  value={openaiApiKey}
+                  onChange={(e) => {
+                    setOpenaiApiKey(e.target.value);
+                    setSaved(false);
+                  }}
+                  isFullWidth
+                  className="font-mono"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Your key is stored encrypted on our server, which calls the endpoint for you, so the
+                  endpoint must be reachable over https.
+                  {settings.openaiKeyHint && ' Enter a new key to replace it.'}
+                </p>
+              </div>
+            </>
+          )}
+
+          {settings.provider === 'ollama' && (
+            <div>
+              <label htmlFor="ollamaBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                Ollama Server URL
+              </label>
+              <Input
+                id="ollamaBaseUrl"
+                placeholder={selected.defaultBaseUrl}
+                value={settings.ollamaBaseUrl || ''}
+                onChange={(e) => updateSettings({ ollamaBaseUrl: e.target.value || undefined })}
+                isFullWidth
+                className="font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Start Ollama with OLLAMA_ORIGINS set to this site's origin so the browser can reach it.
+                Requests go straight to your machine, so they are not counted in AI Usage.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+              {error}
+            </div>
+          )}
+        </form>
+      </CardBody>
+
+      <CardFooter className="flex items-center justify-end space-x-3 bg-gray-50">
+        {saved && (
+          <span className="flex items-center text-sm text-green-600">
+            <CheckCircle className="w-4 h-4 mr-1" />
+            Saved
+          </span>
+        )}
+        <Button
+          type="submit"
+          onClick={handleSubmit}
+          disabled={isLoading || !isComplete}
+          className="min-w-[120px]"
+        >
+          {isLoading ? 'Saving...' : 'Save Settings'}
+          <Save className="ml-2 h-4 w-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ProviderSettingsForm;
@@ -1,14 +1,765 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQuizStore } from '../../store/useQuizStore';
+import { useCompetitionStore } from '../../store/useCompetitionStore';
+import { BloomDistribution, MarkingRule, MarkingSchemeId, QuestionType, QuizLanguage, QuizPreferences, ScoringRubric, StudyMaterial } from '../../types';
+import { MAX_STUDY_MATERIAL_CHARS, readStudyMaterial, STUDY_MATERIAL_ACCEPT } from '../../services/studyMaterial';
+import { getBloomTotal } from '../../services/bloom';
+import { resolveRubric } from '../../services/scoring';
+import { bloomLevels } from '../../data/bloomLevels';
+import { markingSchemes, standardMarkingScheme } from '../../data/markingSchemes';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { BookOpen, FileText, Upload, X, Settings, Play, Trophy, Loader2, Plus } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface QuizPreferencesFormProps {
+  userId: string;
+  initialPreferences: QuizPreferences;
+  onSave?: () => void;
+  onStartCompetition?: () => void;
+}
+
+const questionTypeOptions: { value: QuestionType; label: string }[] = [
+  { value: 'multiple-choice', label: 'Multiple Choice' },
+  { value: 'true-false', label: 'True / False' },
+  { value: 'multi-select', label: 'Multi-Select' },
+  { value: 'sequence', label: 'Sequence' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'case-study', label: 'Case Study' },
+  { value: 'situation', label: 'Situation' },
+  { value: 'short-answer', label: 'Short Answer' },
+  { value: 'fill-blank', label: 'Fill in the Blank' },
+  { value: 'cloze', label: 'Cloze' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'assertion-reason', label: 'Assertion & Reason' },
+  { value: 'code-output', label: 'Code Output' },
+  { value: 'passage', label: 'Reading Passage' },
+];
+
+const languageOptions: { value: QuizLanguage; label: string }[] = [
+  { value: 'English', label: 'English' },
+  { value: 'Hindi', label: 'Hindi' },
+  { value: 'Malayalam', label: 'Malayalam' },
+  { value: 'Tamil', label: 'Tamil' },
+  { value: 'Telugu', label: 'Telugu' },
+  { value: 'Spanish', label: 'Spanish' },
+  { value: 'French', label: 'French' },
+  { value: 'German', label: 'German' },
+  { value: 'Chinese', label: 'Chinese' },
+  { value: 'Japanese', label: 'Japanese' },
+];
+
+const difficultyOptions = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+];
+
+const multiSelectRubricOptions = [
+  { value: 'proportional', label: 'Credit per correct pick' },
+  { value: 'all-or-nothing', label: 'All or nothing' },
+];
+
+const sequenceRubricOptions = [
+  { value: 'positional', label: 'Credit per step in place' },
+  { value: 'kendall-tau', label: 'Credit per pair in order' },
+  { value: 'all-or-nothing', label: 'All or nothing' },
+];
+
+const shortAnswerRubricOptions = [
+  { value: 'keywords', label: 'Credit per key term' },
+  { value: 'exact', label: 'Exact answer only' },
+];
+
+const markingSchemeOptions = markingSchemes.map(({ id, name }) => ({ value: id, label: name }));
+
+// Custom marking rules can match any type or difficulty
+const ruleTypeOptions = [{ value: '', label: 'Any type' }, ...questionTypeOptions];
+const ruleDifficultyOptions = [
+  { value: '', label: 'Any difficulty' },
+  { value: 'basic', label: 'Basic' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+// Weights used when harder questions are set to count for more
+const difficultyWeights = { basic: 1, intermediate: 2, advanced: 3 };
+
+// Starting point when a cognitive level mix is switched on
+const defaultBloomDistribution: BloomDistribution = { remember: 30, apply: 40, analyze: 30 };
+
+const QuizPreferencesForm: React.FC<QuizPreferencesFormProps> = ({
+  userId,
+  initialPreferences,
+  onSave,
+  onStartCompetition
+}) => {
+  const { savePreferences, isLoading, error } = useQuizStore();
+  const { createCompetition } = useCompetitionStore();
+  const [preferences, setPreferences] = useState<QuizPreferences>(initialPreferences);
+  const [competitionTitle, setCompetitionTitle] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
+  const [materialError, setMaterialError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Pick up preferences loaded after the form first rendered
+  useEffect(() => {
+    setPreferences(initialPreferences);
+  }, [initialPreferences]);
+
+  const isCompetition = !!onStartCompetition;
+  const studyMaterial = preferences.studyMaterial || [];
+  const materialLength = studyMaterial.reduce((sum, material) => sum + material.text.length, 0);
+  const bloomDistribution = preferences.bloomDistribution;
+  const bloomTotal = bloomDistribution ? getBloomTotal(bloomDistribution) : 0;
+
+  const updatePreferences = (changes: Partial<QuizPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }));
+    setFormError(null);
+  };
+
+  const rubric = resolveRubric(preferences.scoringRubric);
+  const updateRubric = (changes: Partial<ScoringRubric>) =>
+    updatePreferences({ scoringRubric: { ...preferences.scoringRubric, ...changes } });
+  const hasType = (type: QuestionType) => preferences.questionTypes.includes(type);
+
+  // Custom schemes edit every rule but the last, which marks all other questions
+  const markingScheme = preferences.markingScheme || standardMarkingScheme;
+  const markingSchemeInfo = markingSchemes.find(scheme => scheme.id === markingScheme.id);
+  const customRules = markingScheme.rules.slice(0, -1);
+  const fallbackRule = markingScheme.rules[markingScheme.rules.length - 1];
+  const selectMarkingScheme = (id: MarkingSchemeId) => {
+    const preset = markingSchemes.find(scheme => scheme.id === id)?.scheme || standardMarkingScheme;
+    // A custom scheme starts from the scheme it replaces, so a preset can be adjusted
+    updatePreferences({ markingScheme: id === 'custom' ? { ...markingScheme, id } : preset });
+  };
+  const updateMarkingRules = (rules: MarkingRule[]) =>
+    updatePreferences({ markingScheme: { ...markingScheme, rules } });
+  const updateMarkingRule = (index: number, changes: Partial<MarkingRule>) =>
+    updateMarkingRules(markingScheme.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+
+  const addMaterial = (materials: StudyMaterial[]) => {
+    updatePreferences({ studyMaterial: [...studyMaterial, ...materials] });
+  };
+
+  const removeMaterial = (index: number) => {
+    const remaining = studyMaterial.filter((_, i) => i !== index);
+    updatePreferences({ studyMaterial: remaining.length > 0 ? remaining : undefined });
+  };
+
+  const handleAddPastedText = () => {
+    if (!pastedText.trim()) return;
+    addMaterial([{ name: `Pasted text ${studyMaterial.length + 1}`, text: pastedText.trim() }]);
+    setPastedText('');
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReadingFiles(true);
+    setMaterialError(null);
+    const results = await Promise.allSettled(files.map(readStudyMaterial));
+    addMaterial(results
+      .filter((result): result is PromiseFulfilledResult<StudyMaterial> => result.status === 'fulfilled')
+      .map(result => result.value));
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      setMaterialError(failure.reason?.message || 'Failed to read file');
+    }
+    setIsReadingFiles(false);
+  };
+
+  const toggleQuestionType = (type: QuestionType) => {
+    const { questionTypes } = preferences;
+    updatePreferences({
+      questionTypes: questionTypes.includes(type)
+        ? questionTypes.filter(t => t !== type)
+        : [...questionTypes, type]
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!preferences.course?.trim() && studyMaterial.length === 0) {
+      setFormError('Enter a course or add study material to generate questions from');
+      return;
+    }
+    if (preferences.questionTypes.length === 0) {
+      setFormError('Select at least one question type');
+      return;
+    }
+    if (bloomDistribution && bloomTotal !== 100) {
+      setFormError('The cognitive level shares must add up to 100%');
+      return;
+    }
+    if (markingScheme.rules.some(rule => !(rule.correct > 0) || !(rule.wrong <= 0))) {
+      setFormError('Marks for a right answer must be above zero, and for a wrong answer zero or below');
+      return;
+    }
+    if (isCompetition && !competitionTitle.trim()) {
+      setFormError('Enter a title for the competition');
+      return;
+    }
+
+    try {
+      await savePreferences(userId, preferences);
+
+      if (isCompetition) {
+        await createCompetition({
+          title: competitionTitle.trim(),
+          description: preferences.course || studyMaterial.map(material => material.name).join(', '),
+          type: 'private',
+          quizPreferences: useQuizStore.getState().preferences
+        });
+        onStartCompetition?.();
+      } else if (onSave) {
+        onSave();
+      }
+    } catch {
+      // The stores expose the error message
+    }
+  };
 
-const QuizPreferencesForm: React.FC = () => {
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Answer Evaluation</h1>
-      <Card className="p-6">
-        <p className="text-gray-600">Answer evaluation feature coming soon...</p>
-      </Card>
-    </div>
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="bg-purple-100 p-2 rounded-lg">
+            <Settings className="w-6 h-6 text-purple-600" />
+          </div>
+          <h2 className="text-2xl font-semibold text-gray-800">
+            {isCompetition ? 'Create Competition' : 'Quiz Preferences'}
+          </h2>
+        </div>
+      </CardHeader>
+
+      <CardBody>
+        <form onSubmit={handleSubmit} className="space-y-8">
+          {isCompetition && (
+            <div>
+              <label htmlFor="competitionTitle" className="block text-sm font-medium text-gray-700 mb-1">
+                Competition Title
+              </label>
+              <Input
+                id="competitionTitle"
+                placeholder="e.g. Friday Physics Showdown"
+                value={competitionTitle}
+                onChange={(e) => setCompetitionTitle(e.target.value)}
+                isFullWidth
+              />
+            </div>
+          )}
+
+          {/* Subject */}
+          <section className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-800">Subject</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="course" className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+                <Input
+                  id="course"
+                  placeholder="e.g. Physics"
+                  value={preferences.course || ''}
+                  onChange={(e) => updatePreferences({ course: e.target.value })}
+                  isFullWidth
+                />
+              </div>
+              <div>
+                <label htmlFor="topic" className="block text-sm font-medium text-gray-700 mb-1">Topic</label>
+                <Input
+                  id="topic"
+                  placeholder="e.g. Optics"
+                  value={preferences.topic || ''}
+                  onChange={(e) => updatePreferences({ topic: e.target.value })}
+                  isFullWidth
+                />
+              </div>
+              <div>
+                <label htmlFor="subtopic" className="block text-sm font-medium text-gray-700 mb-1">Subtopic</label>
+                <Input
+                  id="subtopic"
+                  placeholder="Optional"
+                  value={preferences.subtopic || ''}
+                  onChange={(e) => updatePreferences({ subtopic: e.target.value })}
+                  isFullWidth
+                />
+              </div>
+            </div>
+          </section>
+
+          {/* Study material */}
+          <section className="space-y-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-800 flex items-center">
+                <BookOpen className="w-5 h-5 mr-2 text-purple-600" />
+                Study Material
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Optional. When added, questions are generated only from this material and each one cites the passage it came from.
+              </p>
+            </div>
+
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="Paste notes, a chapter or an article..."
+              rows={5}
+              className="block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 sm:text-sm text-gray-900 placeholder-gray-500"
+            />
+
+            <div className="flex flex-wrap gap-3">
+              <Button type="button" variant="outline" size="sm" onClick={handleAddPastedText} disabled={!pastedText.trim()}>
+                <FileText className="w-4 h-4 mr-2" />
+                Add Pasted Text
+              </Button>
+              <label className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 cursor-pointer transition-colors">
+                {isReadingFiles ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                {isReadingFiles ? 'Reading...' : 'Upload .txt, .md or .pdf'}
+                <input
+                  type="file"
+                  accept={STUDY_MATERIAL_ACCEPT}
+                  multiple
+                  onChange={handleFiles}
+                  disabled={isReadingFiles}
+                  className="hidden"
+                />
+              </label>
+            </div>
+
+            {materialError && (
+              <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">{materialError}</div>
+            )}
+
+            {studyMaterial.length > 0 && (
+              <ul className="space-y-2">
+                {studyMaterial.map((material, index) => (
+                  <motion.li
+                    key={`${material.name}-${index}`}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-center justify-between bg-purple-50 border border-purple-100 rounded-lg px-3 py-2"
+                  >
+                    <span className="flex items-center text-sm text-gray-800 min-w-0">
+                      <FileText className="w-4 h-4 mr-2 text-purple-600 flex-shrink-0" />
+                      <span className="truncate">{material.name}</span>
+                      <span className="ml-2 text-xs text-gray-500 flex-shrink-0">
+                        {material.text.length.toLocaleString()} characters
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeMaterial(index)}
+                      className="text-gray-400 hover:text-red-500"
+                      aria-label={`Remove ${material.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </motion.li>
+                ))}
+              </ul>
+            )}
+
+            {materialLength > MAX_STUDY_MATERIAL_CHARS && (
+              <p className="text-sm text-amber-700 bg-amber-50 rounded-md py-2 px-3">
+                Only the first {MAX_STUDY_MATERIAL_CHARS.toLocaleString()} characters of study material are used.
+              </p>
+            )}
+          </section>
+
+          {/* Quiz settings */}
+          <section className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-800">Quiz Settings</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="difficulty" className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+                <Select
+                  id="difficulty"
+                  options={difficultyOptions}
+                  value={preferences.difficulty}
+                  onChange={(e) => updatePreferences({ difficulty: e.target.value as QuizPreferences['difficulty'] })}
+                  isFullWidth
+                />
+              </div>
+              <div>
+                <label htmlFor="questionCount" className="block text-sm font-medium text-gray-700 mb-1">Questions</label>
+                <Input
+                  id="questionCount"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={preferences.questionCount}
+                  onChange={(e) => updatePreferences({ questionCount: parseInt(e.target.value) || 1 })}
+                  isFullWidth
+                />
+              </div>
+              <div>
+                <label htmlFor="language" className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                <Select
+                  id="language"
+                  options={languageOptions}
+                  value={preferences.language}
+                  onChange={(e) => updatePreferences({ language: e.target.value as QuizLanguage })}
+                  isFullWidth
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Question Types</span>
+              <div className="flex flex-wrap gap-2">
+                {questionTypeOptions.map(({ value, label }) => {
+                  const isSelected = preferences.questionTypes.includes(value);
+                  return (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => toggleQuestionType(value)}
+                      className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                        isSelected
+                          ? 'bg-purple-600 border-purple-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-purple-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!bloomDistribution}
+                  onChange={(e) => updatePreferences({ bloomDistribution: e.target.checked ? defaultBloomDistribution : undefined })}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Target a mix of cognitive levels (Bloom's taxonomy)</span>
+              </label>
+
+              {bloomDistribution && (
+                <>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {bloomLevels.map(({ id, name, description }) => (
+                      <div key={id}>
+                        <label htmlFor={`bloom-${id}`} className="block text-sm font-medium text-gray-700 mb-1" title={`Learners ${description}`}>
+                          {name} (%)
+                        </label>
+                        <Input
+                          id={`bloom-${id}`}
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={bloomDistribution[id] ?? 0}
+                          onChange={(e) => updatePreferences({
+                            bloomDistribution: { ...bloomDistribution, [id]: Math.max(0, parseInt(e.target.value) || 0) }
+                          })}
+                          isFullWidth
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className={`text-sm ${bloomTotal === 100 ? 'text-gray-500' : 'text-amber-700'}`}>
+                    Total {bloomTotal}%{bloomTotal !== 100 && ', the shares must add up to 100%'}
+                  </p>
+                </>
+              )}
+            </div>
+          </section>
+
+          {/* Mode and timing */}
+          <section className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-800">Mode</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {(['practice', 'exam', 'adaptive'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => updatePreferences({ mode, answerMode: mode === 'practice' ? 'immediate' : 'end' })}
+                  className={`text-left p-4 rounded-xl border-2 transition-all ${
+                    preferences.mode === mode ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:border-purple-300'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900 capitalize">{mode}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {mode === 'practice'
+                      ? 'See the answer after each question'
+                      : mode === 'exam'
+                        ? 'See your results at the end'
+                        : 'Questions get harder or easier as you answer, ending with an ability estimate'}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={preferences.timeLimitEnabled}
+                onChange={(e) => updatePreferences({ timeLimitEnabled: e.target.checked })}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span>Enable time limits</span>
+            </label>
+
+            {preferences.timeLimitEnabled && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="timeLimit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Seconds per question
+                  </label>
+                  <Input
+                    id="timeLimit"
+                    type="number"
+                    min={5}
+                    placeholder="No limit"
+                    value={preferences.timeLimit || ''}
+                    onChange={(e) => updatePreferences({ timeLimit: e.target.value || null })}
+                    isFullWidth
+                  />
+                </div>
+                <div>
+                  <label htmlFor="totalTimeLimit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Total seconds for the quiz
+                  </label>
+                  <Input
+                    id="totalTimeLimit"
+                    type="number"
+                    min={30}
+                    placeholder="No limit"
+                    value={preferences.totalTimeLimit || ''}
+                    onChange={(e) => updatePreferences({ totalTimeLimit: e.target.value || null })}
+                    isFullWidth
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="max-w-xs">
+                <label htmlFor="markingScheme" className="block text-sm font-medium text-gray-700 mb-1">
+                  Marking scheme
+                </label>
+                <Select
+                  id="markingScheme"
+                  options={markingSchemeOptions}
+                  value={markingScheme.id}
+                  onChange={(e) => selectMarkingScheme(e.target.value as MarkingSchemeId)}
+                  isFullWidth
+                />
+              </div>
+              {markingSchemeInfo && (
+                <p className="text-sm text-gray-500">{markingSchemeInfo.description}</p>
+              )}
+
+              {markingScheme.id === 'custom' && (
+                <div className="space-y-2">
+                  {customRules.map((rule, index) => (
+                    <div key={index} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_6rem_6rem_auto] gap-2 items-center">
+                      <Select
+                        aria-label="Question type"
+                        options={ruleTypeOptions}
+                        value={rule.type || ''}
+                        onChange={(e) => updateMarkingRule(index, { type: (e.target.value || undefined) as MarkingRule['type'] })}
+                        isFullWidth
+                      />
+                      <Select
+                        aria-label="Difficulty"
+                        options={ruleDifficultyOptions}
+                        value={rule.difficulty || ''}
+                        onChange={(e) => updateMarkingRule(index, { difficulty: (e.target.value || undefined) as MarkingRule['difficulty'] })}
+                        isFullWidth
+                      />
+                      <Input
+                        type="number"
+                        aria-label="Marks for a right answer"
+                        step={0.25}
+                        min={0}
+                        value={rule.correct}
+                        onChange={(e) => updateMarkingRule(index, { correct: parseFloat(e.target.value) })}
+                        isFullWidth
+                      />
+                      <Input
+                        type="number"
+                        aria-label="Marks for a wrong answer"
+                        step={0.25}
+                        max={0}
+                        value={rule.wrong}
+                        onChange={(e) => updateMarkingRule(index, { wrong: parseFloat(e.target.value) })}
+                        isFullWidth
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateMarkingRules(markingScheme.rules.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-500 justify-self-start"
+                        aria-label="Remove rule"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+
+                  {/* The last rule has no type or difficulty, so every question is marked */}
+                  <div className="grid grid-cols-2 sm:grid-cols-[2fr_6rem_6rem_auto] gap-2 items-center">
+                    <span className="text-sm text-gray-700">
+                      {customRules.length > 0 ? 'All other questions' : 'Every question'}
+                    </span>
+                    <Input
+                      type="number"
+                      aria-label="Marks for a right answer"
+                      step={0.25}
+                      min={0}
+                      value={fallbackRule.correct}
+                      onChange={(e) => updateMarkingRule(customRules.length, { correct: parseFloat(e.target.value) })}
+                      isFullWidth
+                    />
+                    <Input
+                      type="number"
+                      aria-label="Marks for a wrong answer"
+                      step={0.25}
+                      max={0}
+                      value={fallbackRule.wrong}
+                      onChange={(e) => updateMarkingRule(customRules.length, { wrong: parseFloat(e.target.value) })}
+                      isFullWidth
+                    />
+                    <span className="w-4" />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Marks for a right and a wrong answer. The first rule matching a question's type and difficulty applies.
+                  </p>
+
+                  <div className="flex flex-wrap items-center gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateMarkingRules([...customRules, { ...fallbackRule, type: preferences.questionTypes[0] }, fallbackRule])}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Rule
+                    </Button>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={markingScheme.allowNegativeTotal}
+                        onChange={(e) => updatePreferences({ markingScheme: { ...markingScheme, allowNegativeTotal: e.target.checked } })}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      <span>Allow a total below zero</span>
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Partial credit, shown for the selected types it applies to */}
+            {(hasType('multi-select') || hasType('sequence') || hasType('short-answer')) && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {hasType('multi-select') && (
+                  <div>
+                    <label htmlFor="multiSelectRubric" className="block text-sm font-medium text-gray-700 mb-1">Multi-select scoring</label>
+                    <Select
+                      id="multiSelectRubric"
+                      options={multiSelectRubricOptions}
+                      value={rubric.multiSelect}
+                      onChange={(e) => updateRubric({ multiSelect: e.target.value as ScoringRubric['multiSelect'] })}
+                      isFullWidth
+                    />
+                  </div>
+                )}
+                {hasType('multi-select') && rubric.multiSelect === 'proportional' && (
+                  <div>
+                    <label htmlFor="multiSelectPenalty" className="block text-sm font-medium text-gray-700 mb-1">
+                      Correct picks cancelled per wrong pick
+                    </label>
+                    <Input
+                      id="multiSelectPenalty"
+                      type="number"
+                      step={0.25}
+                      min={0}
+                      value={rubric.multiSelectPenalty}
+                      onChange={(e) => updateRubric({ multiSelectPenalty: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      isFullWidth
+                    />
+                  </div>
+                )}
+                {hasType('sequence') && (
+                  <div>
+                    <label htmlFor="sequenceRubric" className="block text-sm font-medium text-gray-700 mb-1">Sequence scoring</label>
+                    <Select
+                      id="sequenceRubric"
+                      options={sequenceRubricOptions}
+                      value={rubric.sequence}
+                      onChange={(e) => updateRubric({ sequence: e.target.value as ScoringRubric['sequence'] })}
+                      isFullWidth
+                    />
+                  </div>
+                )}
+                {hasType('short-answer') && (
+                  <div>
+                    <label htmlFor="shortAnswerRubric" className="block text-sm font-medium text-gray-700 mb-1">Short answer scoring</label>
+                    <Select
+                      id="shortAnswerRubric"
+                      options={shortAnswerRubricOptions}
+                      value={rubric.shortAnswer}
+                      onChange={(e) => updateRubric({ shortAnswer: e.target.value as ScoringRubric['shortAnswer'] })}
+                      isFullWidth
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={Object.keys(rubric.difficultyWeights).length > 0}
+                onChange={(e) => updateRubric({ difficultyWeights: e.target.checked ? difficultyWeights : {} })}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span>Harder questions count for more (basic 1, intermediate 2, advanced 3 marks)</span>
+            </label>
+          </section>
+
+          {(formError || error) && (
+            <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">
+              {formError || error}
+            </div>
+          )}
+        </form>
+      </CardBody>
+
+      <CardFooter className="flex justify-end bg-gray-50">
+        <Button
+          type="submit"
+          onClick={handleSubmit}
+          disabled={isLoading || isReadingFiles}
+          className="min-w-[160px]"
+        >
+          {isCompetition ? (
+            <>
+              <Trophy className="w-4 h-4 mr-2" />
+              {isLoading ? 'Creating...' : 'Create Competition'}
+            </>
+          ) : (
+            <>
+              <Play className="w-4 h-4 mr-2" />
+              {isLoading ? 'Saving...' : 'Start Quiz'}
+            </>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
   );
 };
 
-export default QuizPreferencesForm;
\ No newline at end of file
+export default QuizPreferencesForm;
@@ -1,14 +1,623 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Question, QuizPreferences } from '../../types';
+import { formatNumericAnswer } from '../../services/numeric';
+import { assertionReasonOptionKeys, getAssertionReasonText } from '../../data/assertionReason';
+import { stripMath } from '../../services/math';
+import { expressionToLatex, formatExpression, parseExpression } from '../../services/expression';
+import { answerBlank, gradeBlanks, parseBlankAnswers, splitCloze } from '../../services/cloze';
+import CodeBlock from './CodeBlock';
+import { MathText } from '../ui/MathText';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { ArrowLeft, ArrowRight, ArrowUp, ArrowDown, CheckCircle, Clock, Flag, Lightbulb, GripVertical, MessageSquare, Timer } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface QuizQuestionProps {
+  question: Question;
+  questionNumber: number;
+  totalQuestions: number;
+  userAnswer?: string;
+  onAnswer: (answer: string) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  isLastQuestion: boolean;
+  onFinish: () => void;
+  language: string;
+  timeLimitEnabled: boolean;
+  timeLimit?: string | null;      // Seconds per question
+  totalTimeLimit?: string | null; // Seconds for the whole quiz
+  totalTimeRemaining: number | null;
+  mode: QuizPreferences['mode'];
+  answerMode: 'immediate' | 'end';
+  part?: { number: number; count: number }; // Set when the question is part of a passage
+  readOnly?: boolean; // Replaying a past attempt: the graded answer is shown and cannot change
+  answerRevealed?: boolean; // The answer was checked in practice mode, so the solution is shown and the answer locked
+  onReveal?: () => void; // Check the answer; without it the solution cannot be revealed
+  timeSpent?: number; // Seconds the learner spent on the question, shown when replaying
+  shownAt?: number | null; // When the question, or passage part, was shown, so a resumed countdown carries on
+}
+
+const typeLabels: Record<Question['type'], string> = {
+  'multiple-choice': 'Multiple Choice',
+  'true-false': 'True / False',
+  'multi-select': 'Multi-Select',
+  'sequence': 'Sequence',
+  'matching': 'Matching',
+  'case-study': 'Case Study',
+  'situation': 'Situation',
+  'short-answer': 'Short Answer',
+  'fill-blank': 'Fill in the Blank',
+  'cloze': 'Cloze',
+  'numeric': 'Numeric',
+  'assertion-reason': 'Assertion & Reason',
+  'code-output': 'Predict the Output',
+  'passage': 'Reading Passage',
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// The answer widgets share these props; `revealed` shows the correct answer and locks input
+interface AnswerProps<T extends Question> {
+  question: T;
+  userAnswer?: string;
+  onAnswer: (answer: string) => void;
+  revealed: boolean;
+}
+
+type QuestionOf<K extends Question['type']> = Extract<Question, { type: K }>;
+
+const optionClasses = (isSelected: boolean, isCorrect: boolean, revealed: boolean) => {
+  if (revealed && isCorrect) return 'border-green-500 bg-green-50';
+  if (revealed && isSelected) return 'border-red-500 bg-red-50';
+  return isSelected ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:border-purple-300';
+};
+
+const SingleChoice: React.FC<AnswerProps<QuestionOf<'multiple-choice' | 'true-false' | 'case-study' | 'situation'>>> = ({
+  question, userAnswer, onAnswer, revealed
+}) => (
+  <div className="space-y-3">
+    {question.options.map((option, index) => (
+      <button
+        key={option}
+        type="button"
+        disabled={revealed}
+        onClick={() => onAnswer(option)}
+        className={`w-full text-left p-4 rounded-lg border-2 transition-all ${optionClasses(userAnswer === option, option === question.correctAnswer, revealed)}`}
+      >
+        <span className="font-medium text-gray-500 mr-3">{String.fromCharCode(65 + index)}.</span>
+        <span className="text-gray-900"><MathText text={option} /></span>
+      </button>
+    ))}
+  </div>
+);
+
+const MultiSelect: React.FC<AnswerProps<QuestionOf<'multi-select'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const selected = userAnswer ? userAnswer.split(',').map(Number) : [];
+
+  const toggle = (index: number) => {
+    const next = selected.includes(index)
+      ? selected.filter(item => item !== index)
+      : [...selected, index].sort((a, b) => a - b);
+    onAnswer(next.join(','));
+  };
 
-const QuizQuestion: React.FC = () => {
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Answer Evaluation</h1>
-      <Card className="p-6">
-        <p className="text-gray-600">Answer evaluation feature coming soon...</p>
-      </Card>
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">Select all that apply.</p>
+      {question.options.map((option, index) => (
+        <button
+          key={index}
+          type="button"
+          disabled={revealed}
+          onClick={() => toggle(index)}
+          className={`w-full flex items-center text-left p-4 rounded-lg border-2 transition-all ${optionClasses(selected.includes(index), question.correctOptions.includes(option), revealed)}`}
+        >
+          <input type="checkbox" readOnly checked={selected.includes(index)} className="mr-3 h-4 w-4 text-purple-600" />
+          <span className="text-gray-900"><MathText text={option} /></span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const Sequence: React.FC<AnswerProps<QuestionOf<'sequence'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const order = userAnswer ? userAnswer.split(',').map(Number) : question.sequence.map((_, index) => index);
+
+  const move = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onAnswer(next.join(','));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-500">Use the arrows to put the steps in order.</p>
+      {order.map((stepIndex, position) => (
+        <div
+          key={stepIndex}
+          className={`flex items-center p-3 rounded-lg border-2 ${
+            revealed
+              ? question.sequence[stepIndex] === question.correctSequence[position] ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50'
+              : 'border-gray-200'
+          }`}
+        >
+          <span className="w-6 font-medium text-gray-500">{position + 1}.</span>
+          <span className="flex-grow text-gray-900"><MathText text={question.sequence[stepIndex]} /></span>
+          <div className="flex space-x-1">
+            <Button variant="ghost" size="sm" disabled={revealed || position === 0} onClick={() => move(position, -1)}>
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" disabled={revealed || position === order.length - 1} onClick={() => move(position, 1)}>
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      {!userAnswer && !revealed && (
+        <Button variant="outline" size="sm" onClick={() => onAnswer(order.join(','))}>
+          Keep this order
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Right items can be dragged onto a left item or picked from its dropdown
+const Matching: React.FC<AnswerProps<QuestionOf<'matching'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const picks = question.leftItems.map((_, index) => userAnswer?.split(',')[index] ?? '');
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  // Each right item can only be used once, so taking it moves it from its previous left item
+  const assign = (leftIndex: number, rightIndex: string) => {
+    if (rightIndex !== '' && question.rightItems[Number(rightIndex)] === undefined) return;
+    const next = picks.map((pick, index) =>
+      index === leftIndex ? rightIndex : pick === rightIndex ? '' : pick
+    );
+    onAnswer(next.some(Boolean) ? next.join(',') : '');
+  };
+
+  const unused = question.rightItems
+    .map((item, index) => ({ item, index: String(index) }))
+    .filter(({ index }) => !picks.includes(index));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">Drag each answer onto its match, or choose it from the list.</p>
+
+      {!revealed && unused.length > 0 && (
+        <div className="flex flex-wrap gap-2 p-3 bg-gray-50 rounded-lg">
+          {unused.map(({ item, index }) => (
+            <div
+              key={index}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData('text/plain', index)}
+              className="flex items-center px-3 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-800 cursor-grab shadow-sm"
+            >
+              <GripVertical className="w-4 h-4 mr-1 text-gray-400" />
+              <MathText text={item} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {question.leftItems.map((left, leftIndex) => {
+        const pick = picks[leftIndex];
+        const isRight = question.rightItems[Number(pick)] === question.correctMatches[leftIndex];
+        return (
+          <div
+            key={left}
+            onDragOver={(e) => {
+              if (revealed) return;
+              e.preventDefault();
+              setDropTarget(leftIndex);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropTarget(null);
+              if (!revealed) assign(leftIndex, e.dataTransfer.getData('text/plain'));
+            }}
+            className={`grid grid-cols-1 sm:grid-cols-2 gap-3 items-center p-3 rounded-lg border-2 transition-colors ${
+              revealed
+                ? pick && isRight ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50'
+                : dropTarget === leftIndex ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+            }`}
+          >
+            <div className="font-medium text-gray-900"><MathText text={left} /></div>
+            <div>
+              <Select
+                value={pick}
+                disabled={revealed}
+                onChange={(e) => assign(leftIndex, e.target.value)}
+                options={[
+                  { value: '', label: 'Choose a match...' },
+                  ...question.rightItems.map((item, index) => ({ value: String(index), label: stripMath(item) }))
+                ]}
+                isFullWidth
+              />
+              {revealed && !(pick && isRight) && (
+                <p className="text-xs text-green-700 mt-1">Correct: <MathText text={question.correctMatches[leftIndex]} /></p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Expression answers show how they were read as they are typed, so a missing bracket is caught before grading
+const ExpressionPreview: React.FC<{ input: string }> = ({ input }) => {
+  const expression = parseExpression(input);
+  return expression ? (
+    <p className="text-sm text-gray-600">Reads as: <MathText text={`\\(${expressionToLatex(expression)}\\)`} /></p>
+  ) : (
+    <p className="text-sm text-amber-700">This is not a complete expression yet.</p>
+  );
+};
+
+const TextAnswer: React.FC<AnswerProps<QuestionOf<'short-answer' | 'fill-blank'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const isExpression = question.answerMode === 'math-expression';
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={userAnswer || ''}
+        onChange={(e) => onAnswer(e.target.value)}
+        placeholder={isExpression
+          ? 'Type an expression, e.g. 2x^2 + 3x - 1'
+          : question.type === 'fill-blank' ? 'Fill in the blank' : 'Type your answer'}
+        disabled={revealed}
+        isFullWidth
+        className={isExpression ? 'font-mono' : ''}
+      />
+      {isExpression && userAnswer && <ExpressionPreview input={userAnswer} />}
+      {revealed && (
+        <p className="text-sm text-green-700">
+          Expected answer: <MathText text={isExpression ? formatExpression(question.correctAnswer) : question.correctAnswer} />
+        </p>
+      )}
+    </div>
+  );
+};
+
+const blankClasses = 'mx-1 my-0.5 py-1 px-2 bg-white border rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500';
+
+// The cloze text with a text box or dropdown in place of each blank
+const ClozeAnswer: React.FC<AnswerProps<QuestionOf<'cloze'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const answers = parseBlankAnswers(userAnswer, question.blanks.length);
+  const results = gradeBlanks(question, userAnswer);
+  const border = (index: number) => revealed ? (results[index] ? 'border-green-500' : 'border-red-500') : 'border-gray-300';
+
+  return (
+    <div className="space-y-3">
+      <div className="p-4 bg-gray-50 rounded-lg text-gray-800 leading-loose whitespace-pre-line">
+        {splitCloze(question.cloze).map((segment, position) => {
+          if ('text' in segment) return <MathText key={position} text={segment.text} />;
+
+          const index = segment.blank;
+          const blank = question.blanks[index];
+          const change = (value: string) => onAnswer(answerBlank(question, userAnswer, index, value));
+          return (
+            <span key={position} className="inline-flex items-center">
+              <sup className="text-xs font-medium text-purple-700">{index + 1}</sup>
+              {blank.options ? (
+                <select
+                  value={answers[index]}
+                  onChange={(e) => change(e.target.value)}
+                  disabled={revealed}
+                  aria-label={`Blank ${index + 1}`}
+                  className={`${blankClasses} ${border(index)}`}
+                >
+                  <option value="">Choose…</option>
+                  {blank.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  value={answers[index]}
+                  onChange={(e) => change(e.target.value)}
+                  disabled={revealed}
+                  aria-label={`Blank ${index + 1}`}
+                  className={`${blankClasses} w-36 ${border(index)}`}
+                />
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {revealed && results.some(result => !result) && (
+        <ul className="text-sm text-green-700 space-y-1">
+          {question.blanks.map((blank, index) => !results[index] && (
+            <li key={index}>Blank {index + 1}: {blank.answers.join(' / ')}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
-export default QuizQuestion;
\ No newline at end of file
+// Output can span several lines, so it is typed into a monospace text area
+const OutputAnswer: React.FC<AnswerProps<QuestionOf<'code-output'>>> = ({ question, userAnswer, onAnswer, revealed }) => (
+  <div className="space-y-2">
+    <textarea
+      value={userAnswer || ''}
+      onChange={(e) => onAnswer(e.target.value)}
+      placeholder="Type exactly what the code prints"
+      rows={Math.max(3, question.correctAnswer.split('\n').length + 1)}
+      disabled={revealed}
+      spellCheck={false}
+      className="block w-full bg-white border border-gray-300 rounded-md shadow-sm py-2 px-3 font-mono text-sm text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:bg-gray-100"
+    />
+    {revealed && (
+      <div className="text-sm text-green-700">
+        Expected output:
+        <pre className="mt-1 p-3 rounded-lg bg-green-50 font-mono overflow-x-auto">{question.correctAnswer}</pre>
+      </div>
+    )}
+  </div>
+);
+
+const NumericAnswer: React.FC<AnswerProps<QuestionOf<'numeric'>>> = ({ question, userAnswer, onAnswer, revealed }) => {
+  const formats = [
+    question.acceptFractions && 'fractions like 1/2',
+    question.acceptPercent && 'percentages like 50%',
+  ].filter(Boolean);
+  const units = [question.unit, ...(question.acceptedUnits || [])].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Input
+          value={userAnswer || ''}
+          onChange={(e) => onAnswer(e.target.value)}
+          placeholder="Enter a number"
+          inputMode="decimal"
+          disabled={revealed}
+          className="font-mono"
+          isFullWidth
+        />
+        {question.unit && <span className="text-gray-700 font-medium whitespace-nowrap">{question.unit}</span>}
+      </div>
+      <p className="text-xs text-gray-500">
+        {units.length > 1 ? `You may answer in ${units.join(', ')}.` : question.unit ? `Answer in ${question.unit}.` : 'Enter a number.'}
+        {formats.length > 0 && ` ${formats.join(' and ')} are accepted too.`}
+      </p>
+      {revealed && (
+        <p className="text-sm text-green-700">Expected answer: {formatNumericAnswer(question)}</p>
+      )}
+    </div>
+  );
+};
+
+// A and R are labelled in the question's language, followed by the four standard options
+const AssertionReason: React.FC<AnswerProps<QuestionOf<'assertion-reason'>> & { language: string }> = ({
+  question, userAnswer, onAnswer, revealed, language
+}) => {
+  const text = getAssertionReasonText(question.language || language);
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="p-4 rounded-lg bg-blue-50 border-l-4 border-blue-400">
+          <div className="text-xs font-semibold uppercase tracking-wide text-blue-700 mb-1">{text.assertion}</div>
+          <p className="text-gray-900"><MathText text={question.assertion} /></p>
+        </div>
+        <div className="p-4 rounded-lg bg-amber-50 border-l-4 border-amber-400">
+          <div className="text-xs font-semibold uppercase tracking-wide text-amber-700 mb-1">{text.reason}</div>
+          <p className="text-gray-900"><MathText text={question.reason} /></p>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {assertionReasonOptionKeys.map(key => (
+          <button
+            key={key}
+            type="button"
+            disabled={revealed}
+            onClick={() => onAnswer(key)}
+            className={`w-full text-left p-4 rounded-lg border-2 transition-all ${optionClasses(userAnswer === key, key === question.correctOption, revealed)}`}
+          >
+            <span className="font-medium text-gray-500 mr-3">({key})</span>
+            <span className="text-gray-900">{text.options[key]}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const renderAnswer = (question: Question, props: Omit<AnswerProps<Question>, 'question'>, language: string) => {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'case-study':
+    case 'situation':
+      return <SingleChoice question={question} {...props} />;
+    case 'multi-select':
+      return <MultiSelect question={question} {...props} />;
+    case 'sequence':
+      return <Sequence question={question} {...props} />;
+    case 'matching':
+      return <Matching question={question} {...props} />;
+    case 'short-answer':
+    case 'fill-blank':
+      return <TextAnswer question={question} {...props} />;
+    case 'cloze':
+      return <ClozeAnswer question={question} {...props} />;
+    case 'numeric':
+      return <NumericAnswer question={question} {...props} />;
+    case 'assertion-reason':
+      return <AssertionReason question={question} language={language} {...props} />;
+    case 'code-output':
+      return <OutputAnswer question={question} {...props} />;
+  }
+};
+
+const QuizQuestion: React.FC<QuizQuestionProps> = ({
+  question,
+  questionNumber,
+  totalQuestions,
+  userAnswer,
+  onAnswer,
+  onPrevious,
+  onNext,
+  isLastQuestion,
+  onFinish,
+  language,
+  timeLimitEnabled,
+  timeLimit,
+  totalTimeRemaining,
+  mode,
+  answerMode,
+  part,
+  readOnly = false,
+  answerRevealed = false,
+  onReveal,
+  timeSpent,
+  shownAt = null,
+}) => {
+  const perQuestionLimit = timeLimitEnabled && timeLimit && !readOnly ? Number(timeLimit) : null;
+  const [timeLeft, setTimeLeft] = useState<number | null>(perQuestionLimit);
+  const revealed = readOnly || answerRevealed;
+  const shownAtRef = useRef(shownAt);
+  shownAtRef.current = shownAt;
+
+  // Every question, and every part of a passage, starts with a fresh timer, less any time it was
+  // already shown for before the quiz was resumed
+  useEffect(() => {
+    const elapsed = shownAtRef.current === null ? 0 : Math.floor((Date.now() - shownAtRef.current) / 1000);
+    setTimeLeft(perQuestionLimit === null ? null : Math.max(0, perQuestionLimit - elapsed));
+  }, [question.id, part?.number, perQuestionLimit]);
+
+  useEffect(() => {
+    if (timeLeft === null) return;
+    if (timeLeft <= 0) {
+      if (isLastQuestion) {
+        onFinish();
+      } else {
+        onNext();
+      }
+      return;
+    }
+    const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [timeLeft, isLastQuestion, onFinish, onNext]);
+
+  const prompt = 'question' in question && question.question ? question.question : question.text;
+  const scenario = question.type === 'case-study' ? question.caseStudy : question.type === 'situation' ? question.situation : null;
+  const canReveal = answerMode === 'immediate' && !!userAnswer && !revealed && !!onReveal;
+
+  return (
+    <motion.div
+      key={question.id}
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-medium text-gray-700">
+              Question {questionNumber} of {totalQuestions}
+              {part && <span className="text-gray-500"> · Part {part.number} of {part.count}</span>}
+            </span>
+            <div className="flex items-center gap-3">
+              <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-xs font-medium">
+                {typeLabels[question.type]}
+              </span>
+              {timeLeft !== null && (
+                <span className={`flex items-center ${timeLeft <= 10 ? 'text-red-600' : 'text-gray-600'}`}>
+                  <Clock className="w-4 h-4 mr-1" />
+                  {formatTime(timeLeft)}
+                </span>
+              )}
+              {timeSpent !== undefined && (
+                <span className="flex items-center text-gray-600" title="Time spent">
+                  <Timer className="w-4 h-4 mr-1" />
+                  {formatTime(timeSpent)}
+                </span>
+              )}
+              {totalTimeRemaining !== null && (
+                <span className={`flex items-center ${totalTimeRemaining <= 60 ? 'text-red-600' : 'text-gray-600'}`}>
+                  <Flag className="w-4 h-4 mr-1" />
+                  {formatTime(totalTimeRemaining)} left
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5">
+            <div
+              className="bg-purple-600 h-1.5 rounded-full transition-all"
+              style={{ width: `${(questionNumber / Math.max(totalQuestions, 1)) * 100}%` }}
+            />
+          </div>
+        </CardHeader>
+
+        <CardBody className="space-y-6">
+          {scenario && (
+            <div className="p-4 bg-gray-50 rounded-lg text-gray-700 whitespace-pre-line"><MathText text={scenario} /></div>
+          )}
+          {prompt !== question.text && <p className="text-gray-600"><MathText text={question.text} /></p>}
+          <h2 className="text-xl font-semibold text-gray-900"><MathText text={prompt} /></h2>
+          {question.code && <CodeBlock code={question.code} language={question.codeLanguage} />}
+
+          {renderAnswer(question, { userAnswer, onAnswer, revealed }, language)}
+
+          {revealed && question.explanation && (
+            <div className="rounded-lg p-4 bg-blue-50 text-sm">
+              <div className="flex items-center text-xs font-medium text-blue-700 mb-1">
+                <Lightbulb className="w-4 h-4 mr-1" />
+                Explanation
+              </div>
+              <p className="text-gray-800 whitespace-pre-line"><MathText text={question.explanation} /></p>
+            </div>
+          )}
+
+          {revealed && question.feedback && (
+            <div className="rounded-lg p-4 bg-purple-50 text-sm">
+              <div className="flex items-center text-xs font-medium text-purple-700 mb-1">
+                <MessageSquare className="w-4 h-4 mr-1" />
+                Grader feedback
+              </div>
+              <p className="text-gray-800 whitespace-pre-line">{question.feedback}</p>
+            </div>
+          )}
+        </CardBody>
+
+        <CardFooter className="flex items-center justify-between bg-gray-50">
+          {/* Adaptive quizzes only go back within a passage, as later questions were chosen from earlier answers */}
+          <Button
+            variant="outline"
+            onClick={onPrevious}
+            disabled={(questionNumber === 1 || (mode === 'adaptive' && !readOnly)) && (!part || part.number === 1)}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Previous
+          </Button>
+          <div className="flex gap-3">
+            {canReveal && (
+              <Button variant="secondary" onClick={onReveal}>
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Check Answer
+              </Button>
+            )}
+            {isLastQuestion && !readOnly ? (
+              <Button onClick={onFinish}>
+                Finish Quiz
+                <Flag className="w-4 h-4 ml-2" />
+              </Button>
+            ) : (
+              <Button onClick={onNext} disabled={readOnly && isLastQuestion}>
+                Next
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        </CardFooter>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default QuizQuestion;
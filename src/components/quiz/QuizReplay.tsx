@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Question, QuizPreferences } from '../../types';
+import { defaultPreferences } from '../../store/useQuizStore';
+import { getPart } from '../../services/passage';
+import QuizQuestion from './QuizQuestion';
+import PassagePanel from './PassagePanel';
+
+interface QuizReplayProps {
+  questions: Question[]; // Graded, with the answers recorded on them
+  questionTimes: Record<number, number>;
+  preferences: QuizPreferences;
+}
+
+// A past attempt stepped through question by question as it was taken, with each answer
+// graded and locked
+const QuizReplay: React.FC<QuizReplayProps> = ({ questions, questionTimes, preferences }) => {
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [partIndex, setPartIndex] = useState(0);
+
+  const question = questions[questionIndex];
+  if (!question) return null;
+  const part = getPart(question, partIndex);
+  const isLastPart = question.type !== 'passage' || partIndex === question.parts.length - 1;
+
+  const next = () => {
+    if (!isLastPart) {
+      setPartIndex(partIndex + 1);
+    } else if (questionIndex < questions.length - 1) {
+      setQuestionIndex(questionIndex + 1);
+      setPartIndex(0);
+    }
+  };
+
+  const previous = () => {
+    if (partIndex > 0) {
+      setPartIndex(partIndex - 1);
+    } else if (questionIndex > 0) {
+      const previousQuestion = questions[questionIndex - 1];
+      setQuestionIndex(questionIndex - 1);
+      setPartIndex(previousQuestion.type === 'passage' ? previousQuestion.parts.length - 1 : 0);
+    }
+  };
+
+  const quizQuestion = (
+    <QuizQuestion
+      key={`${question.id}-${partIndex}`}
+      question={part || question}
+      questionNumber={questionIndex + 1}
+      totalQuestions={questions.length}
+      userAnswer={(part || question).userAnswer}
+      onAnswer={() => {}}
+      onPrevious={previous}
+      onNext={next}
+      isLastQuestion={questionIndex === questions.length - 1 && isLastPart}
+      onFinish={() => {}}
+      language={preferences.language || defaultPreferences.language}
+      timeLimitEnabled={false}
+      totalTimeRemaining={null}
+      mode={preferences.mode}
+      answerMode="end"
+      part={question.type === 'passage' ? { number: partIndex + 1, count: question.parts.length } : undefined}
+      readOnly
+      timeSpent={questionTimes[question.id]}
+    />
+  );
+
+  if (question.type !== 'passage') return quizQuestion;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+      <PassagePanel
+        question={question}
+        partIndex={partIndex}
+        partAnswers={question.parts.map(questionPart => questionPart.userAnswer || '')}
+        onSelectPart={setPartIndex}
+      />
+      {quizQuestion}
+    </div>
+  );
+};
+
+export default QuizReplay;
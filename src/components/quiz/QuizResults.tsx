@@ -1,14 +1,317 @@
 import React from 'react';
+import { AbilityEstimate, Question, QuizResult } from '../../types';
+import { formatExpression } from '../../services/expression';
+import { formatCorrectAnswer } from '../../services/scoring';
+import { gradeBlanks, parseBlankAnswers, splitCloze } from '../../services/cloze';
+import { getAssertionReasonText } from '../../data/assertionReason';
+import { getBloomLevelName } from '../../data/bloomLevels';
+import { describeAbility, getConfidenceInterval } from '../../services/adaptive';
+import { getMarkingSchemeName } from '../../data/markingSchemes';
+import CodeBlock from './CodeBlock';
+import { Button } from '../ui/Button';
+import { MathText } from '../ui/MathText';
+import { Card, CardBody, CardFooter, CardHeader } from '../ui/Card';
+import { Trophy, CheckCircle, XCircle, RotateCcw, Settings, Quote, Lightbulb, BookOpen, MessageSquare } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface QuizResultsProps {
+  result: QuizResult;
+  onNewQuiz: () => void;
+  onChangePreferences: () => void;
+}
+
+type StandaloneQuestion = Exclude<Question, { type: 'passage' }>;
+
+// The user's answer, formatted the same way as the correct answer
+const formatUserAnswer = (question: StandaloneQuestion) => {
+  if (!question.userAnswer) return 'Not answered';
+  if (question.type === 'matching') {
+    const picks = question.userAnswer.split(',');
+    return question.leftItems
+      .map((left, index) => `${left} → ${question.rightItems[Number(picks[index])] ?? '—'}`)
+      .join('\n');
+  }
+  if (question.type === 'numeric' || question.type === 'code-output') return question.userAnswer;
+  if (question.type === 'cloze') {
+    const answers = parseBlankAnswers(question.userAnswer, question.blanks.length);
+    const results = gradeBlanks(question, question.userAnswer);
+    return answers.map((answer, index) => `${index + 1}. ${answer || '—'} ${results[index] ? '✓' : '✗'}`).join('\n');
+  }
+  if (question.type === 'short-answer' || question.type === 'fill-blank') {
+    return question.answerMode === 'math-expression' ? formatExpression(question.userAnswer) : question.userAnswer;
+  }
+  if (question.type === 'assertion-reason') {
+    const options = getAssertionReasonText(question.language).options as Record<string, string>;
+    return `(${question.userAnswer}) ${options[question.userAnswer] ?? ''}`;
+  }
+  // Choices are stored by index, so show the option text they point at
+  const indexes = question.userAnswer.split(',').map(Number);
+  if (question.type === 'sequence') return indexes.map(index => question.sequence[index]).join(' → ');
+  if (question.type === 'multi-select') return indexes.map(index => question.options[index]).join(', ');
+  return question.userAnswer;
+};
+
+// The cloze text with each blank numbered and coloured by whether it was filled correctly
+const ClozeReview: React.FC<{ question: Extract<Question, { type: 'cloze' }> }> = ({ question }) => {
+  const results = gradeBlanks(question, question.userAnswer);
+  return (
+    <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-line">
+      {splitCloze(question.cloze).map((segment, position) => 'text' in segment ? (
+        <MathText key={position} text={segment.text} />
+      ) : (
+        <span key={position} className={`font-medium ${results[segment.blank] ? 'text-green-700' : 'text-red-700'}`}>
+          _____({segment.blank + 1})
+        </span>
+      ))}
+    </p>
+  );
+};
+
+// The user's answer beside the correct one
+const AnswerComparison: React.FC<{ question: StandaloneQuestion }> = ({ question }) => {
+  // Program output is compared line by line, so it keeps its spacing
+  const isOutput = question.type === 'code-output';
+  const answerClasses = isOutput ? 'font-mono whitespace-pre overflow-x-auto' : 'whitespace-pre-line';
+  const renderAnswer = (text: string) => isOutput ? text : <MathText text={text} />;
+
+  return (
+    <>
+      {question.code && <CodeBlock code={question.code} language={question.codeLanguage} />}
+      {question.type === 'cloze' && <ClozeReview question={question} />}
+      {question.type === 'assertion-reason' && (
+        <div className="space-y-2 text-sm">
+          <p><span className="font-medium">{getAssertionReasonText(question.language).assertion}:</span> <MathText text={question.assertion} /></p>
+          <p><span className="font-medium">{getAssertionReasonText(question.language).reason}:</span> <MathText text={question.reason} /></p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className={`rounded-lg p-3 ${question.isCorrect ? 'bg-green-50' : 'bg-red-50'}`}>
+          <div className="flex justify-between text-xs font-medium text-gray-500 mb-1">
+            Your answer
+            {question.score !== undefined && !question.isCorrect && question.score > 0 && (
+              <span className="text-yellow-700">{Math.round(question.score * 100)}% credit</span>
+            )}
+          </div>
+          <div className={`text-gray-900 ${answerClasses}`}>{renderAnswer(formatUserAnswer(question))}</div>
+        </div>
+        <div className="rounded-lg p-3 bg-green-50">
+          <div className="text-xs font-medium text-gray-500 mb-1">Correct answer</div>
+          <div className={`text-gray-900 ${answerClasses}`}>{renderAnswer(formatCorrectAnswer(question))}</div>
+        </div>
+      </div>
+      {question.feedback && (
+        <div className="rounded-lg p-3 bg-purple-50 text-sm">
+          <div className="flex items-center text-xs font-medium text-purple-700 mb-1">
+            <MessageSquare className="w-4 h-4 mr-1" />
+            Grader feedback
+          </div>
+          <p className="text-gray-800 whitespace-pre-line">{question.feedback}</p>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Explanation and, for grounded quizzes, the excerpt of the study material it came from
+const ExplanationAndSource: React.FC<{ question: Question }> = ({ question }) => (
+  <>
+    {(question.explanation || question.source) && (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        {question.explanation && (
+          <div className={`rounded-lg p-3 bg-blue-50 ${question.source ? '' : 'md:col-span-2'}`}>
+            <div className="flex items-center text-xs font-medium text-blue-700 mb-1">
+              <Lightbulb className="w-4 h-4 mr-1" />
+              Explanation
+            </div>
+            <p className="text-gray-800 whitespace-pre-line"><MathText text={question.explanation} /></p>
+          </div>
+        )}
+        {question.source && (
+          <blockquote className={`rounded-lg p-3 bg-amber-50 border-l-4 border-amber-300 ${question.explanation ? '' : 'md:col-span-2'}`}>
+            <div className="flex items-center text-xs font-medium text-amber-700 mb-1">
+              <Quote className="w-4 h-4 mr-1" />
+              From your study material
+            </div>
+            <p className="text-gray-800 italic">{question.source}</p>
+          </blockquote>
+        )}
+      </div>
+    )}
+  </>
+);
+
+// A passage is reviewed as one question, with each part's answer below the passage
+const PassageReview: React.FC<{ question: Extract<Question, { type: 'passage' }> }> = ({ question }) => (
+  <>
+    <details className="rounded-lg bg-gray-50 p-3 text-sm">
+      <summary className="flex items-center cursor-pointer font-medium text-gray-700">
+        <BookOpen className="w-4 h-4 mr-2" />
+        Show passage
+      </summary>
+      <p className="mt-3 text-gray-800 leading-relaxed whitespace-pre-line"><MathText text={question.passage} /></p>
+    </details>
+    {question.parts.map((part, index) => (
+      <div key={part.id} className="space-y-3 border-t border-gray-100 pt-4">
+        <div className="flex items-start space-x-2">
+          {part.isCorrect ? (
+            <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
+          ) : (
+            <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+          )}
+          <p className="text-sm font-medium text-gray-900">
+            <span className="text-gray-500">Part {index + 1}:</span> <MathText text={part.text} />
+          </p>
+        </div>
+        <AnswerComparison question={part} />
+        <ExplanationAndSource question={part} />
+      </div>
+    ))}
+    {question.source && <ExplanationAndSource question={{ ...question, explanation: undefined }} />}
+  </>
+);
+
+// Range of the ability scale drawn on the results screen
+const SCALE_MIN = -3;
+const SCALE_MAX = 3;
+
+const formatAbility = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+// Ability estimate of an adaptive quiz, with its 95% confidence interval drawn on the ability scale
+const AbilitySummary: React.FC<{ estimate: AbilityEstimate }> = ({ estimate }) => {
+  const [low, high] = getConfidenceInterval(estimate);
+  const position = (value: number) =>
+    `${((Math.min(Math.max(value, SCALE_MIN), SCALE_MAX) - SCALE_MIN) / (SCALE_MAX - SCALE_MIN)) * 100}%`;
+
+  return (
+    <div className="max-w-md mx-auto mt-4">
+      <div className="text-sm text-gray-500">Estimated ability</div>
+      <div className="text-5xl font-bold text-purple-700">{formatAbility(estimate.ability)}</div>
+      <p className="text-gray-600 mt-2">
+        95% confidence interval {formatAbility(low)} to {formatAbility(high)}
+      </p>
+      <div className="relative h-3 bg-gray-200 rounded-full mt-4">
+        <div
+          className="absolute h-3 bg-purple-200 rounded-full"
+          style={{ left: position(low), width: `calc(${position(high)} - ${position(low)})` }}
+        />
+        <div
+          className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 bg-purple-600 rounded-full"
+          style={{ left: position(estimate.ability) }}
+        />
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>Basic</span>
+        <span>Intermediate</span>
+        <span>Advanced</span>
+      </div>
+      <p className="text-sm text-gray-600 mt-3">
+        You are most likely to answer {describeAbility(estimate.ability)} questions correctly about half the time.
+        {estimate.standardError > 0.5 && ' Answer more questions next time for a narrower interval.'}
+      </p>
+    </div>
+  );
+};
+
+const QuizResults: React.FC<QuizResultsProps> = ({ result, onNewQuiz, onChangePreferences }) => {
+  const { totalQuestions, correctAnswers, points, maxPoints, percentage, questions, ability, markingScheme } = result;
+  const marks = Math.round(points * 100) / 100;
+  const isExamMarking = !!markingScheme && markingScheme !== 'standard';
+
+  const scoreColor =
+    percentage >= 80 ? 'text-green-600' :
+    percentage >= 50 ? 'text-yellow-600' :
+    'text-red-600';
 
-const QuizResults: React.FC = () => {
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Answer Evaluation</h1>
-      <Card className="p-6">
-        <p className="text-gray-600">Answer evaluation feature coming soon...</p>
+    <div className="space-y-6 py-6">
+      <Card>
+        <CardBody className="text-center py-10">
+          <motion.div
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-purple-100 mb-4"
+          >
+            <Trophy className="w-10 h-10 text-purple-600" />
+          </motion.div>
+          <h2 className="text-2xl font-semibold text-gray-800">Quiz Complete</h2>
+          {ability ? (
+            <AbilitySummary estimate={ability} />
+          ) : (
+            <div className={`text-5xl font-bold mt-4 ${scoreColor}`}>{percentage}%</div>
+          )}
+          <p className="text-gray-600 mt-2">
+            {correctAnswers} of {totalQuestions} questions answered correctly
+          </p>
+          {/* Exam schemes report raw marks as the exam would; otherwise partial credit and
+              weights make the marks differ from the count */}
+          {isExamMarking ? (
+            <p className="text-lg font-semibold text-gray-800 mt-2">
+              {marks} / {Math.round(maxPoints * 100) / 100} marks
+              <span className="block text-sm font-normal text-gray-500">{getMarkingSchemeName(markingScheme)} marking</span>
+            </p>
+          ) : (points !== correctAnswers || maxPoints !== totalQuestions) && (
+            <p className="text-sm text-gray-500 mt-1">
+              {marks} of {maxPoints} marks
+            </p>
+          )}
+        </CardBody>
+        <CardFooter className="flex flex-col sm:flex-row justify-center gap-3 bg-gray-50">
+          <Button onClick={onNewQuiz}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            New Quiz
+          </Button>
+          <Button variant="outline" onClick={onChangePreferences}>
+            <Settings className="w-4 h-4 mr-2" />
+            Change Preferences
+          </Button>
+        </CardFooter>
       </Card>
+
+      <h3 className="text-lg font-semibold text-gray-800">Review Answers</h3>
+
+      {questions.map((question, index) => (
+        <motion.div
+          key={question.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: Math.min(index, 10) * 0.05 }}
+        >
+          <Card className={`border-l-4 ${question.isCorrect ? 'border-l-green-500' : 'border-l-red-500'}`}>
+            <CardHeader className="flex items-start space-x-3">
+              {question.isCorrect ? (
+                <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              )}
+              <div>
+                <div className="text-xs text-gray-500 mb-1">
+                  Question {index + 1}
+                  {ability && ` · ${question.difficulty}`}
+                  {question.bloomLevel && ` · ${getBloomLevelName(question.bloomLevel)}`}
+                  {question.type === 'passage' &&
+                    ` · Reading passage, ${question.parts.filter(part => part.isCorrect).length} of ${question.parts.length} parts correct`}
+                </div>
+                <p className="font-medium text-gray-900">
+                  <MathText text={'question' in question && question.question ? question.question : question.text} />
+                </p>
+              </div>
+            </CardHeader>
+
+            <CardBody className="space-y-4">
+              {question.type === 'passage' ? (
+                <PassageReview question={question} />
+              ) : (
+                <>
+                  <AnswerComparison question={question} />
+                  <ExplanationAndSource question={question} />
+                </>
+              )}
+            </CardBody>
+          </Card>
+        </motion.div>
+      ))}
     </div>
   );
 };
 
-export default QuizResults;
\ No newline at end of file
+export default QuizResults;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { QuizCheckpoint } from '../../types';
+import { getCheckpointTimeRemaining } from '../../services/checkpoint';
+import { Button } from '../ui/Button';
+import { Card, CardBody, CardFooter } from '../ui/Card';
+import { Clock, PlayCircle, RotateCcw } from 'lucide-react';
+
+interface ResumeQuizPromptProps {
+  checkpoint: QuizCheckpoint;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Offered when an unfinished quiz was saved, here or on another device
+const ResumeQuizPrompt: React.FC<ResumeQuizPromptProps> = ({ checkpoint, onResume, onDiscard }) => {
+  const { preferences, questions, answers, currentQuestionIndex, savedAt } = checkpoint;
+  const topic = [preferences.course, preferences.topic].filter(Boolean).join(' - ') ||
+    preferences.studyMaterial?.map(material => material.name).join(', ') || 'Study material';
+  const answered = questions.filter(question => answers[question.id]).length;
+  const totalQuestions = Math.max(questions.length, preferences.mode === 'adaptive' ? preferences.questionCount : 0);
+  const timeLeft = getCheckpointTimeRemaining(checkpoint);
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-16">
+      <Card>
+        <CardBody className="p-8 space-y-3 text-center">
+          <PlayCircle className="w-10 h-10 text-purple-600 mx-auto" />
+          <h2 className="text-xl font-semibold text-gray-800">You have an unfinished quiz</h2>
+          <p className="text-gray-700 font-medium">{topic}</p>
+          <p className="text-sm text-gray-500">
+            On question {currentQuestionIndex + 1} of {totalQuestions} · {answered} answered · saved {new Date(savedAt).toLocaleString()}
+          </p>
+          {timeLeft !== null && (
+            <p className={`flex items-center justify-center text-sm ${timeLeft <= 60 ? 'text-red-600' : 'text-gray-600'}`}>
+              <Clock className="w-4 h-4 mr-1" />
+              {timeLeft > 0 ? `${formatTime(timeLeft)} left` : 'Time is up; resuming submits your answers'}
+            </p>
+          )}
+        </CardBody>
+        <CardFooter className="flex flex-col sm:flex-row justify-center gap-3 bg-gray-50">
+          <Button onClick={onResume}>
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Resume your quiz
+          </Button>
+          <Button variant="outline" onClick={onDiscard}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Start Over
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ResumeQuizPrompt;
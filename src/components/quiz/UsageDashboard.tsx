@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo } from 'react';
+import { useQuizStore } from '../../store/useQuizStore';
+import { AIFeature, AIQuota } from '../../types';
+import { Card, CardBody, CardHeader } from '../ui/Card';
+import { Gauge } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface UsageDashboardProps {
+  userId: string;
+}
+
+const featureLabels: Record<AIFeature, string> = {
+  quiz: 'Quiz generation',
+  explanation: 'Explanations',
+  evaluation: 'Answer checks',
+  notes: 'Notes',
+};
+
+// Usage buckets and quota resets both follow UTC days
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatLimit = (used: number, limit: number | null) =>
+  limit === null ? used.toLocaleString() : `${used.toLocaleString()} / ${limit.toLocaleString()}`;
+
+const UsageBar: React.FC<{ used: number; limit: number | null }> = ({ used, limit }) => {
+  if (!limit) return null;
+  const percentage = Math.min(100, Math.round((used / limit) * 100));
+  return (
+    <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+      <div
+        className={`h-1.5 rounded-full ${percentage >= 90 ? 'bg-red-500' : 'bg-purple-500'}`}
+        style={{ width: `${percentage}%` }}
+      />
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ userId }) => {
+  const { aiUsage, aiQuotas, loadUsage } = useQuizStore();
+
+  useEffect(() => {
+    loadUsage(userId);
+  }, [userId, loadUsage]);
+
+  const today = utcDay(new Date());
+  const todayUsage = aiUsage.filter(usage => utcDay(usage.createdAt) === today);
+
+  const totals = (feature: AIFeature | null) => {
+    const records = feature ? todayUsage.filter(usage => usage.feature === feature) : todayUsage;
+    return {
+      requests: records.length,
+      tokens: records.reduce((sum, usage) => sum + usage.totalTokens, 0),
+    };
+  };
+
+  const quotaFor = (feature: AIFeature | null): AIQuota | undefined =>
+    aiQuotas.find(quota => quota.feature === feature);
+
+  const dailyTokens = useMemo(() => {
+    const days = new Map<string, number>();
+    aiUsage.forEach(usage => {
+      const day = utcDay(usage.createdAt);
+      days.set(day, (days.get(day) || 0) + usage.totalTokens);
+    });
+    return [...days.entries()].map(([day, tokens]) => ({ day: day.slice(5), tokens }));
+  }, [aiUsage]);
+
+  const overall = totals(null);
+  const overallQuota = quotaFor(null);
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="bg-purple-100 p-2 rounded-lg">
+            <Gauge className="w-6 h-6 text-purple-600" />
+          </div>
+          <h2 className="text-2xl font-semibold text-gray-800">AI Usage</h2>
+        </div>
+      </CardHeader>
+
+      <CardBody className="space-y-6">
+        <p className="text-gray-600">
+          Requests made through the Gemini and OpenAI proxies today. Daily limits reset at midnight UTC.
+          Ollama runs on your own machine, so its requests are not counted.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="p-4 rounded-xl bg-gray-50">
+            <div className="text-sm text-gray-500">Requests today</div>
+            <div className="text-xl font-semibold text-gray-900">
+              {formatLimit(overall.requests, overallQuota?.dailyRequests ?? null)}
+            </div>
+            <UsageBar used={overall.requests} limit={overallQuota?.dailyRequests ?? null} />
+          </div>
+          <div className="p-4 rounded-xl bg-gray-50">
+            <div className="text-sm text-gray-500">Tokens today</div>
+            <div className="text-xl font-semibold text-gray-900">
+              {formatLimit(overall.tokens, overallQuota?.dailyTokens ?? null)}
+            </div>
+            <UsageBar used={overall.tokens} limit={overallQuota?.dailyTokens ?? null} />
+          </div>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {(Object.keys(featureLabels) as AIFeature[]).map(feature => {
+            const used = totals(feature);
+            const quota = quotaFor(feature);
+            return (
+              <div key={feature} className="py-3 grid grid-cols-3 gap-4 text-sm">
+                <div className="font-medium text-gray-700">{featureLabels[feature]}</div>
+                <div>
+                  <span className="text-gray-900">{formatLimit(used.requests, quota?.dailyRequests ?? null)}</span>
+                  <span className="text-gray-500"> requests</span>
+                  <UsageBar used={used.requests} limit={quota?.dailyRequests ?? null} />
+                </div>
+                <div>
+                  <span className="text-gray-900">{formatLimit(used.tokens, quota?.dailyTokens ?? null)}</span>
+                  <span className="text-gray-500"> tokens</span>
+                  <UsageBar used={used.tokens} limit={quota?.dailyTokens ?? null} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {dailyTokens.length > 0 ? (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Tokens per day</h3>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={dailyTokens}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="tokens" fill="#8B5CF6" name="Tokens" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No AI requests in the last two weeks.</p>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
+
+export default UsageDashboard;
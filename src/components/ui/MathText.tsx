@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { splitMath } from '../../services/math';
+
+interface MathTextProps {
+  text: string;
+}
+
+// Text with its delimited LaTeX typeset. Renders inline, so it takes the styling of its parent.
+export const MathText: React.FC<MathTextProps> = ({ text }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+
+  return (
+    <>
+      {segments.map((segment, index) => segment.display ? (
+        <span
+          key={index}
+          // KaTeX escapes the source, and throwOnError: false shows bad LaTeX as text instead of failing
+          dangerouslySetInnerHTML={{
+            __html: katex.renderToString(segment.text, { displayMode: segment.display === 'block', throwOnError: false })
+          }}
+        />
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,117 @@
+import { AssertionReasonOption, QuizLanguage } from '../types';
+
+export interface AssertionReasonText {
+  assertion: string;
+  reason: string;
+  options: Record<AssertionReasonOption, string>;
+}
+
+export const assertionReasonOptionKeys: AssertionReasonOption[] = ['a', 'b', 'c', 'd'];
+
+// The standard CBSE/NEET/JEE wording, kept fixed here so the options never depend on the model
+export const assertionReasonText: Record<QuizLanguage, AssertionReasonText> = {
+  English: {
+    assertion: 'Assertion (A)',
+    reason: 'Reason (R)',
+    options: {
+      a: 'Both A and R are true, and R is the correct explanation of A.',
+      b: 'Both A and R are true, but R is not the correct explanation of A.',
+      c: 'A is true, but R is false.',
+      d: 'A is false, but R is true.',
+    },
+  },
+  Hindi: {
+    assertion: 'अभिकथन (A)',
+    reason: 'कारण (R)',
+    options: {
+      a: 'A और R दोनों सत्य हैं, और R, A की सही व्याख्या है।',
+      b: 'A और R दोनों सत्य हैं, परंतु R, A की सही व्याख्या नहीं है।',
+      c: 'A सत्य है, परंतु R असत्य है।',
+      d: 'A असत्य है, परंतु R सत्य है।',
+    },
+  },
+  Malayalam: {
+    assertion: 'പ്രസ്താവന (A)',
+    reason: 'കാരണം (R)',
+    options: {
+      a: 'A യും R ഉം ശരിയാണ്, R എന്നത് A യുടെ ശരിയായ വിശദീകരണമാണ്.',
+      b: 'A യും R ഉം ശരിയാണ്, എന്നാൽ R എന്നത് A യുടെ ശരിയായ വിശദീകരണമല്ല.',
+      c: 'A ശരിയാണ്, എന്നാൽ R തെറ്റാണ്.',
+      d: 'A തെറ്റാണ്, എന്നാൽ R ശരിയാണ്.',
+    },
+  },
+  Tamil: {
+    assertion: 'கூற்று (A)',
+    reason: 'காரணம் (R)',
+    options: {
+      a: 'A மற்றும் R இரண்டும் சரி, மேலும் R என்பது A-க்கான சரியான விளக்கம்.',
+      b: 'A மற்றும் R இரண்டும் சரி, ஆனால் R என்பது A-க்கான சரியான விளக்கம் அல்ல.',
+      c: 'A சரி, ஆனால் R தவறு.',
+      d: 'A தவறு, ஆனால் R சரி.',
+    },
+  },
+  Telugu: {
+    assertion: 'ప్రతిపాదన (A)',
+    reason: 'కారణం (R)',
+    options: {
+      a: 'A మరియు R రెండూ సరైనవి, మరియు R అనేది A కు సరైన వివరణ.',
+      b: 'A మరియు R రెండూ సరైనవి, కానీ R అనేది A కు సరైన వివరణ కాదు.',
+      c: 'A సరైనది, కానీ R తప్పు.',
+      d: 'A తప్పు, కానీ R సరైనది.',
+    },
+  },
+  Spanish: {
+    assertion: 'Afirmación (A)',
+    reason: 'Razón (R)',
+    options: {
+      a: 'A y R son verdaderas, y R es la explicación correcta de A.',
+      b: 'A y R son verdaderas, pero R no es la explicación correcta de A.',
+      c: 'A es verdadera, pero R es falsa.',
+      d: 'A es falsa, pero R es verdadera.',
+    },
+  },
+  French: {
+    assertion: 'Assertion (A)',
+    reason: 'Raison (R)',
+    options: {
+      a: "A et R sont vraies, et R est l'explication correcte de A.",
+      b: "A et R sont vraies, mais R n'est pas l'explication correcte de A.",
+      c: 'A est vraie, mais R est fausse.',
+      d: 'A est fausse, mais R est vraie.',
+    },
+  },
+  German: {
+    assertion: 'Behauptung (A)',
+    reason: 'Begründung (R)',
+    options: {
+      a: 'A und R sind beide wahr, und R ist die richtige Erklärung für A.',
+      b: 'A und R sind beide wahr, aber R ist nicht die richtige Erklärung für A.',
+      c: 'A ist wahr, aber R ist falsch.',
+      d: 'A ist falsch, aber R ist wahr.',
+    },
+  },
+  Chinese: {
+    assertion: '断言 (A)',
+    reason: '理由 (R)',
+    options: {
+      a: 'A 和 R 都正确，且 R 是 A 的正确解释。',
+      b: 'A 和 R 都正确，但 R 不是 A 的正确解释。',
+      c: 'A 正确，但 R 错误。',
+      d: 'A 错误，但 R 正确。',
+    },
+  },
+  Japanese: {
+    assertion: '主張 (A)',
+    reason: '理由 (R)',
+    options: {
+      a: 'A と R はともに正しく、R は A の正しい説明である。',
+      b: 'A と R はともに正しいが、R は A の正しい説明ではない。',
+      c: 'A は正しいが、R は誤りである。',
+      d: 'A は誤りだが、R は正しい。',
+    },
+  },
+};
+
+// Wording for a question's language, falling back to English for unknown languages
+export const getAssertionReasonText = (language?: string): AssertionReasonText =>
+  assertionReasonText[language as QuizLanguage] || assertionReasonText.English;
@@ -0,0 +1,20 @@
+import { BloomLevel } from '../types';
+
+export interface BloomLevelInfo {
+  id: BloomLevel;
+  name: string;
+  description: string; // What a question at this level asks the learner to do
+}
+
+// In taxonomy order, from lower to higher-order thinking
+export const bloomLevels: BloomLevelInfo[] = [
+  { id: 'remember', name: 'Remember', description: 'recall facts, terms and definitions' },
+  { id: 'understand', name: 'Understand', description: 'explain or interpret an idea in their own words' },
+  { id: 'apply', name: 'Apply', description: 'use a concept or method in a new, concrete situation' },
+  { id: 'analyze', name: 'Analyze', description: 'break information into parts and work out how they relate' },
+  { id: 'evaluate', name: 'Evaluate', description: 'judge options against criteria and justify a decision' },
+  { id: 'create', name: 'Create', description: 'combine ideas into a new plan, design or solution' },
+];
+
+export const getBloomLevelName = (id?: string) =>
+  bloomLevels.find(level => level.id === id)?.name || 'Untagged';
@@ -0,0 +1,26 @@
+import { CodeLanguage } from '../types';
+
+export interface CodeLanguageInfo {
+  id: CodeLanguage;
+  name: string;
+}
+
+export const codeLanguages: CodeLanguageInfo[] = [
+  { id: 'python', name: 'Python' },
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'typescript', name: 'TypeScript' },
+  { id: 'java', name: 'Java' },
+  { id: 'c', name: 'C' },
+  { id: 'cpp', name: 'C++' },
+  { id: 'csharp', name: 'C#' },
+  { id: 'go', name: 'Go' },
+  { id: 'rust', name: 'Rust' },
+  { id: 'kotlin', name: 'Kotlin' },
+  { id: 'php', name: 'PHP' },
+  { id: 'ruby', name: 'Ruby' },
+  { id: 'sql', name: 'SQL' },
+  { id: 'bash', name: 'Bash' },
+];
+
+export const getCodeLanguageName = (id?: string) =>
+  codeLanguages.find(language => language.id === id)?.name || id || 'Code';
@@ -0,0 +1,51 @@
+import { MarkingScheme, MarkingSchemeId } from '../types';
+
+export type MarkingSchemeInfo = {
+  id: MarkingSchemeId;
+  name: string;
+  description: string;
+  scheme: MarkingScheme;
+};
+
+// Preset schemes, with custom last. A custom scheme starts from the preset it replaces.
+export const markingSchemes: MarkingSchemeInfo[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: '1 mark per question, nothing lost for a wrong answer',
+    scheme: { id: 'standard', rules: [{ correct: 1, wrong: 0 }], allowNegativeTotal: false },
+  },
+  {
+    id: 'jee-main',
+    name: 'JEE Main',
+    description: '+4 for a right answer and −1 for a wrong one; no negative marks for numeric answers',
+    scheme: {
+      id: 'jee-main',
+      rules: [{ type: 'numeric', correct: 4, wrong: 0 }, { correct: 4, wrong: -1 }],
+      allowNegativeTotal: true,
+    },
+  },
+  {
+    id: 'neet',
+    name: 'NEET',
+    description: '+4 for a right answer and −1 for a wrong one',
+    scheme: { id: 'neet', rules: [{ correct: 4, wrong: -1 }], allowNegativeTotal: true },
+  },
+  {
+    id: 'upsc-prelims',
+    name: 'UPSC Prelims',
+    description: '+2 for a right answer; a third of that (−0.67) lost for a wrong one',
+    scheme: { id: 'upsc-prelims', rules: [{ correct: 2, wrong: -2 / 3 }], allowNegativeTotal: true },
+  },
+  {
+    id: 'custom',
+    name: 'Custom',
+    description: 'Your own marks and penalties by question type and difficulty',
+    scheme: { id: 'custom', rules: [{ correct: 1, wrong: 0 }], allowNegativeTotal: false },
+  },
+];
+
+export const standardMarkingScheme = markingSchemes[0].scheme;
+
+export const getMarkingSchemeName = (id: MarkingSchemeId = 'standard') =>
+  markingSchemes.find(scheme => scheme.id === id)?.name || 'Standard';
@@ -1,17 +1,27 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAuthStore } from '../store/useAuthStore';
-import ApiKeyForm from '../components/quiz/ApiKeyForm';
+import { useQuizStore } from '../store/useQuizStore';
+import ProviderSettingsForm from '../components/quiz/ProviderSettingsForm';
+import UsageDashboard from '../components/quiz/UsageDashboard';
 
 const ApiSettingsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { loadApiKey } = useQuizStore();
+
+  useEffect(() => {
+    if (user) {
+      loadApiKey(user.id);
+    }
+  }, [user, loadApiKey]);
 
   if (!user) return null;
 
   return (
-    <div className="max-w-2xl mx-auto">
-      <ApiKeyForm userId={user.id} />
+    <div className="max-w-2xl mx-auto py-8 px-4 space-y-8">
+      <ProviderSettingsForm userId={user.id} />
+      <UsageDashboard userId={user.id} />
     </div>
   );
 };
 
-export default ApiSettingsPage;
\ No newline at end of file
+export default ApiSettingsPage;
@@ -33,9 +33,10 @@ const PreferencesPage: React.FC = () => {
     setSelectedMode(null);
   };
 
-  const handleSoloSave = async () => {
+  const handleSoloSave = () => {
     if (!user) return;
-    await generateQuiz(user.id);
+    // Questions stream into the store while the quiz page is already showing
+    generateQuiz(user.id);
     navigate('/quiz');
   };
 
@@ -1,15 +1,116 @@
-import React from 'react';
-import { Card } from '../components/ui/Card';
+import React, { useEffect, useMemo } from 'react';
+import { useAuthStore } from '../store/useAuthStore';
+import { useQuizStore } from '../store/useQuizStore';
+import { mergeBloomStats } from '../services/bloom';
+import { bloomLevels } from '../data/bloomLevels';
+import { Card, CardBody, CardHeader } from '../components/ui/Card';
+import { Brain, TrendingUp } from 'lucide-react';
+
+// Levels with fewer answered questions than this are shown, but not called out as strong or weak
+const MIN_QUESTIONS_FOR_VERDICT = 5;
+
+const accuracy = (correct: number, total: number) => total > 0 ? Math.round((correct / total) * 100) : 0;
 
 const ProgressTrackerPage: React.FC = () => {
+  const { user } = useAuthStore();
+  const { quizResults, loadQuizResults, isLoading, error } = useQuizStore();
+
+  useEffect(() => {
+    if (user) {
+      loadQuizResults(user.id);
+    }
+  }, [user, loadQuizResults]);
+
+  const levelStats = useMemo(() => mergeBloomStats(quizResults.map(result => result.bloomLevels)), [quizResults]);
+  const answered = quizResults.reduce((sum, result) => sum + result.totalQuestions, 0);
+  const correct = quizResults.reduce((sum, result) => sum + result.score, 0);
+
+  // The level with the lowest accuracy among those with enough answers to judge, so learners
+  // can see whether they can apply and analyse or only recall
+  const measured = bloomLevels
+    .filter(({ id }) => (levelStats[id]?.total || 0) >= MIN_QUESTIONS_FOR_VERDICT)
+    .map(level => ({ ...level, percentage: accuracy(levelStats[level.id]!.correct, levelStats[level.id]!.total) }));
+  const weakest = measured.length > 1
+    ? measured.reduce((lowest, level) => level.percentage < lowest.percentage ? level : lowest)
+    : null;
+
+  if (!user) return null;
+
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Progress Tracker</h1>
-      <Card className="p-6">
-        <p className="text-gray-600">Progress tracker feature coming soon...</p>
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <h1 className="text-3xl font-bold">Progress Tracker</h1>
+
+      {error && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card className="p-6">
+          <div className="text-sm text-gray-500">Quizzes taken</div>
+          <div className="text-2xl font-semibold text-gray-900">{quizResults.length}</div>
+        </Card>
+        <Card className="p-6">
+          <div className="text-sm text-gray-500">Questions answered</div>
+          <div className="text-2xl font-semibold text-gray-900">{answered.toLocaleString()}</div>
+        </Card>
+        <Card className="p-6">
+          <div className="text-sm text-gray-500">Overall accuracy</div>
+          <div className="text-2xl font-semibold text-gray-900">{accuracy(correct, answered)}%</div>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <div className="bg-purple-100 p-2 rounded-lg">
+              <Brain className="w-6 h-6 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800">Accuracy by cognitive level</h2>
+              <p className="text-sm text-gray-500">Bloom's taxonomy, from recalling facts to creating something new</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardBody className="space-y-4">
+          {isLoading && quizResults.length === 0 ? (
+            <p className="text-gray-500">Loading your results...</p>
+          ) : Object.keys(levelStats).length === 0 ? (
+            <p className="text-gray-600">Finish a quiz to see how you do at each level.</p>
+          ) : (
+            <>
+              {bloomLevels.map(({ id, name, description }) => {
+                const stats = levelStats[id];
+                const percentage = stats ? accuracy(stats.correct, stats.total) : 0;
+                return (
+                  <div key={id}>
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-800" title={`Learners ${description}`}>{name}</span>
+                      <span className="text-gray-600">
+                        {stats ? `${percentage}% · ${stats.correct} of ${stats.total}` : 'No questions yet'}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                      <div
+                        className={`h-2 rounded-full ${percentage >= 70 ? 'bg-green-500' : percentage >= 40 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              {weakest && (
+                <p className="flex items-start text-sm text-gray-700 bg-purple-50 rounded-lg p-3">
+                  <TrendingUp className="w-4 h-4 mr-2 mt-0.5 text-purple-600 flex-shrink-0" />
+                  {weakest.name} is your weakest level so far: practise questions that ask you to {weakest.description}.
+                </p>
+              )}
+            </>
+          )}
+        </CardBody>
       </Card>
     </div>
   );
 };
 
-export default ProgressTrackerPage;
\ No newline at end of file
+export default ProgressTrackerPage;
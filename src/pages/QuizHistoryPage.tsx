@@ -0,0 +1,165 @@
+import React, { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuthStore } from '../store/useAuthStore';
+import { useQuizStore } from '../store/useQuizStore';
+import { getMarkingSchemeName } from '../data/markingSchemes';
+import QuizReplay from '../components/quiz/QuizReplay';
+import { Card, CardBody } from '../components/ui/Card';
+import { ArrowLeft, Calendar, Clock, History, PlayCircle } from 'lucide-react';
+
+const modeLabels = { practice: 'Practice', exam: 'Exam', adaptive: 'Adaptive' };
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+
+// One past attempt, replayed read-only below a summary of how it went
+const AttemptReplay: React.FC<{ userId: string; attemptId: string }> = ({ userId, attemptId }) => {
+  const { quizAttempt, loadQuizAttempt, isLoading, error } = useQuizStore();
+
+  useEffect(() => {
+    loadQuizAttempt(userId, attemptId);
+  }, [userId, attemptId, loadQuizAttempt]);
+
+  const attempt = quizAttempt?.id === attemptId ? quizAttempt : null;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <Link to="/history" className="inline-flex items-center text-gray-600 hover:text-gray-800">
+        <ArrowLeft className="w-5 h-5 mr-2" />
+        Back to Quiz History
+      </Link>
+
+      {error && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">{error}</div>
+      )}
+
+      {isLoading && !attempt ? (
+        <p className="text-gray-500">Loading your quiz...</p>
+      ) : attempt && (
+        <>
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold">{attempt.topic}</h1>
+            <p className="text-sm text-gray-500">
+              {attempt.quizDate.toLocaleString()}
+              {' · '}{attempt.score} of {attempt.totalQuestions} correct
+              {attempt.points !== undefined && attempt.maxPoints !== undefined && ` · ${Math.round(attempt.points * 100) / 100} of ${attempt.maxPoints} marks`}
+              {attempt.timeTaken !== undefined && ` · ${formatDuration(attempt.timeTaken)}`}
+            </p>
+          </div>
+          {attempt.questions && attempt.preferences ? (
+            <QuizReplay
+              questions={attempt.questions}
+              questionTimes={attempt.questionTimes || {}}
+              preferences={attempt.preferences}
+            />
+          ) : (
+            <p className="text-gray-600">This quiz was taken before answers were kept, so it cannot be replayed.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Every solo quiz taken, newest first, each opening a replay of the attempt
+const QuizHistoryPage: React.FC = () => {
+  const { user } = useAuthStore();
+  const { attemptId } = useParams();
+  const { quizResults, loadQuizResults, isLoading, error } = useQuizStore();
+
+  useEffect(() => {
+    if (user && !attemptId) {
+      loadQuizResults(user.id);
+    }
+  }, [user, attemptId, loadQuizResults]);
+
+  if (!user) return null;
+  if (attemptId) return <AttemptReplay userId={user.id} attemptId={attemptId} />;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center space-x-3">
+        <History className="w-8 h-8 text-purple-600" />
+        <h1 className="text-3xl font-bold">Quiz History</h1>
+      </div>
+
+      {error && (
+        <div className="text-red-500 text-sm font-medium py-2 px-3 bg-red-50 rounded-md">{error}</div>
+      )}
+
+      {isLoading && quizResults.length === 0 ? (
+        <p className="text-gray-500">Loading your quizzes...</p>
+      ) : quizResults.length === 0 ? (
+        <Card>
+          <CardBody>
+            <p className="text-gray-600">
+              No quizzes yet. <Link to="/quiz" className="text-purple-600 hover:underline">Take a quiz</Link> to start your history.
+            </p>
+          </CardBody>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {quizResults.map(attempt => {
+            // Only attempts saved with their questions can be replayed
+            const canReplay = !!attempt.preferences;
+            const percentage = attempt.totalQuestions > 0 ? Math.round((attempt.score / attempt.totalQuestions) * 100) : 0;
+            return (
+              <Card key={attempt.id}>
+                <CardBody className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <h2 className="font-semibold text-gray-900">{attempt.topic}</h2>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+                      <span className="flex items-center">
+                        <Calendar className="w-4 h-4 mr-1" />
+                        {attempt.quizDate.toLocaleString()}
+                      </span>
+                      {attempt.timeTaken !== undefined && (
+                        <span className="flex items-center">
+                          <Clock className="w-4 h-4 mr-1" />
+                          {formatDuration(attempt.timeTaken)}
+                        </span>
+                      )}
+                      {attempt.preferences && (
+                        <span className="capitalize">
+                          {modeLabels[attempt.preferences.mode]} · {attempt.preferences.difficulty}
+                        </span>
+                      )}
+                      {attempt.markingScheme && attempt.markingScheme !== 'standard' && (
+                        <span>{getMarkingSchemeName(attempt.markingScheme)} marking</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-right">
+                      <div className="text-lg font-semibold text-gray-900">
+                        {attempt.score} / {attempt.totalQuestions}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {attempt.points !== undefined && attempt.maxPoints !== undefined && attempt.markingScheme && attempt.markingScheme !== 'standard'
+                          ? `${Math.round(attempt.points * 100) / 100} of ${attempt.maxPoints} marks`
+                          : `${percentage}% correct`}
+                      </div>
+                    </div>
+                    {canReplay ? (
+                      <Link
+                        to={`/history/${attempt.id}`}
+                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+                      >
+                        <PlayCircle className="w-4 h-4 mr-2" />
+                        Replay
+                      </Link>
+                    ) : (
+                      <span className="text-xs text-gray-400 w-20 text-center">No replay for older quizzes</span>
+                    )}
+                  </div>
+                </CardBody>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizHistoryPage;
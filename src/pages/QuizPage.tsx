@@ -11,25 +11,28 @@ import JoinCompetitionForm from '../components/quiz/JoinCompetitionForm';
 import RandomMatchmaking from '../components/competition/RandomMatchmaking';
 import QuizQuestion from '../components/quiz/QuizQuestion';
 import QuizResults from '../components/quiz/QuizResults';
+import PassagePanel from '../components/quiz/PassagePanel';
 import CompetitionLobby from '../components/competition/CompetitionLobby';
 import CompetitionQuiz from '../components/competition/CompetitionQuiz';
 import CompetitionResults from '../components/competition/CompetitionResults';
 import CompetitionManagement from '../components/competition/CompetitionManagement';
 import { Button } from '../components/ui/Button';
 import { Card, CardBody } from '../components/ui/Card';
-import { ArrowLeft, Trophy, Users, Clock } from 'lucide-react';
-import { Question } from '../types';
+import { ArrowLeft, Trophy, Users, Clock, Loader2 } from 'lucide-react';
+import { Question, QuizPreferences } from '../types';
+import { answerPart, getPart, parsePartAnswers } from '../services/passage';
 import { motion } from 'framer-motion';
 
 const QuizPage: React.FC = () => {
   const { user, isLoggedIn } = useAuthStore();
   const { 
-    apiKey, loadApiKey, 
+    providerSettings, loadApiKey, 
     preferences, loadPreferences, 
-    questions, generateQuiz, 
-    currentQuestionIndex, answers, answerQuestion, 
-    nextQuestion, prevQuestion, 
-    finishQuiz, resetQuiz, result 
+    questions, generateQuiz, isGenerating, isGrading, generationProgress, error,
+    currentQuestionIndex, currentPartIndex, answers, answerQuestion, revealedAnswers, revealAnswer,
+    nextQuestion, prevQuestion, selectPart,
+    finishQuiz, resetQuiz, result,
+    saveCheckpoint, discardCheckpoint, resumedTimeRemaining, questionShownAt
   } = useQuizStore();
   
   const {
@@ -153,15 +156,17 @@ const QuizPage: React.FC = () => {
       
         // Determine initial step based on current state
         let newStep: string;
-        if (!apiKey) {
+        if (!providerSettings) {
           newStep = 'api-key';
         } else if (result) {
           newStep = 'results';
-        } else if (questions.length > 0) {
+        } else if (questions.length > 0 || isGenerating) {
           newStep = 'quiz';
-          // Initialize total time if set
+          // Initialize total time if set, keeping the running countdown as more questions stream in.
+          // A resumed quiz carries on with the time it had left.
           if (preferences?.timeLimitEnabled && preferences?.totalTimeLimit) {
-            setTotalTimeRemaining(parseInt(preferences.totalTimeLimit));
+            const totalTimeLimit = parseInt(preferences.totalTimeLimit);
+            setTotalTimeRemaining(prev => prev ?? resumedTimeRemaining ?? totalTimeLimit);
           }
         } else {
           newStep = 'mode-selector';
@@ -181,7 +186,25 @@ const QuizPage: React.FC = () => {
     // Use a timeout to prevent rapid state changes
     const timeoutId = setTimeout(determineStep, 100);
     return () => clearTimeout(timeoutId);
-  }, [apiKey, preferences, questions, result, location.state, currentCompetition, navigate, user, isInitializedRef.current]);
+  }, [providerSettings, preferences, questions, isGenerating, result, resumedTimeRemaining, location.state, currentCompetition, navigate, user, isInitializedRef.current]);
+
+  // Checkpoint the quiz as it is answered and navigated, and when the page is left, so it can be
+  // resumed after a refresh or on another device. The countdown is read from a ref so the quiz
+  // is not saved every second.
+  const totalTimeRemainingRef = useRef(totalTimeRemaining);
+  totalTimeRemainingRef.current = totalTimeRemaining;
+
+  useEffect(() => {
+    if (!user || step !== 'quiz') return;
+    saveCheckpoint(user.id, totalTimeRemainingRef.current);
+  }, [user, step, questions, answers, revealedAnswers, currentQuestionIndex, currentPartIndex, saveCheckpoint]);
+
+  useEffect(() => {
+    if (!user || step !== 'quiz') return;
+    const handlePageHide = () => saveCheckpoint(user.id, totalTimeRemainingRef.current);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [user, step, saveCheckpoint]);
 
   // Total quiz timer effect
   useEffect(() => {
@@ -221,6 +244,10 @@ const QuizPage: React.FC = () => {
   }, []);
 
   const handleBackToModeSelector = useCallback(() => {
+    // Leaving a solo quiz part way through abandons it
+    if (user && questions.length > 0 && !result) {
+      discardCheckpoint(user.id);
+    }
     resetQuiz();
     clearCurrentCompetition();
     setSelectedMode(null);
@@ -228,7 +255,7 @@ const QuizPage: React.FC = () => {
     setCompetitionQuestions([]);
     setStep('mode-selector');
     currentStepRef.current = 'mode-selector';
-  }, [resetQuiz, clearCurrentCompetition]);
+  }, [resetQuiz, clearCurrentCompetition, discardCheckpoint, user, questions.length, result]);
 
   const handleShowCompetitionManagement = useCallback(() => {
     setStep('competition-management');
@@ -237,17 +264,18 @@ const QuizPage: React.FC = () => {
   
   const handleStartSoloQuiz = useCallback(async () => {
     if (!user) return;
-    await generateQuiz(user.id);
+    // Show the quiz right away; questions appear as they are generated
     setStep('quiz');
     currentStepRef.current = 'quiz';
+    await generateQuiz(user.id);
   }, [user, generateQuiz]);
   
   const handleFinishQuiz = useCallback(() => {
-    finishQuiz();
+    finishQuiz(user?.id);
     setStep('results');
     currentStepRef.current = 'results';
     setTotalTimeRemaining(null);
-  }, [finishQuiz]);
+  }, [finishQuiz, user]);
   
   const handleNewQuiz = useCallback(() => {
     resetQuiz();
@@ -284,7 +312,7 @@ const QuizPage: React.FC = () => {
   }, []);
 
   const handleStartCompetitionQuiz = useCallback(async () => {
-    if (!currentCompetition || !user || !apiKey) return;
+    if (!currentCompetition || !user || !providerSettings) return;
   
     try {
       setStep('competition-quiz');
@@ -292,7 +320,7 @@ const QuizPage: React.FC = () => {
     } catch (error) {
       console.error('Failed to start competition quiz:', error);
     }
-  }, [currentCompetition, user, apiKey]);
+  }, [currentCompetition, user, providerSettings]);
 
   const handleCompetitionComplete = useCallback(() => {
     setStep('competition-results');
@@ -324,6 +352,89 @@ const QuizPage: React.FC = () => {
     currentStepRef.current = newStep;
   }, [loadCompetition]);
   
+  // The quiz step, where a passage is answered one part at a time beside the passage itself
+  const renderQuiz = (currentQuestion: Question, preferences: QuizPreferences) => {
+    const currentPart = getPart(currentQuestion, currentPartIndex);
+    const partAnswers = currentQuestion.type === 'passage'
+      ? parsePartAnswers(answers[currentQuestion.id], currentQuestion.parts.length)
+      : [];
+    const isLastPart = currentQuestion.type !== 'passage' || currentPartIndex === currentQuestion.parts.length - 1;
+    // Adaptive quizzes load each question after the previous one is answered
+    const isAdaptive = preferences.mode === 'adaptive';
+    const isComplete = !isAdaptive || questions.length >= preferences.questionCount;
+    
+    const quizQuestion = (
+      <QuizQuestion
+        key={`${currentQuestion.id}-${currentPartIndex}`}
+        question={currentPart || currentQuestion}
+        questionNumber={currentQuestionIndex + 1}
+        totalQuestions={isGenerating || isAdaptive ? Math.max(questions.length, preferences.questionCount) : questions.length}
+        userAnswer={currentPart ? partAnswers[currentPartIndex] : answers[currentQuestion.id]}
+        onAnswer={(answer) => answerQuestion(
+          currentQuestion.id,
+          currentQuestion.type === 'passage'
+            ? answerPart(currentQuestion, answers[currentQuestion.id], currentPartIndex, answer)
+            : answer
+        )}
+        onPrevious={handlePrevious}
+        onNext={handleNext}
+        isLastQuestion={!isGenerating && isComplete && currentQuestionIndex === questions.length - 1 && isLastPart}
+        onFinish={handleFinishQuiz}
+        language={preferences.language || 'en'}
+        timeLimitEnabled={preferences.timeLimitEnabled || false}
+        timeLimit={preferences.timeLimit}
+        totalTimeLimit={preferences.totalTimeLimit}
+        totalTimeRemaining={totalTimeRemaining}
+        shownAt={questionShownAt}
+        mode={preferences.mode || 'practice'}
+        answerMode={preferences.mode === 'practice' ? 'immediate' : 'end'}
+        part={currentPart ? { number: currentPartIndex + 1, count: partAnswers.length } : undefined}
+        answerRevealed={!!revealedAnswers[currentQuestion.id]?.includes(currentPartIndex)}
+        onReveal={() => revealAnswer(currentQuestion.id, currentPartIndex)}
+      />
+    );
+    
+    return (
+      <div className={`${currentQuestion.type === 'passage' ? 'max-w-7xl' : 'max-w-4xl'} mx-auto px-2 sm:px-4`}>
+        <div className="flex justify-between items-center mb-4">
+          <Button
+            variant="ghost"
+            onClick={handleBackToModeSelector}
+            className="text-gray-600 hover:text-gray-800"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back to Quiz Modes
+          </Button>
+          {isGenerating ? (
+            <span className="flex items-center text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {isAdaptive ? 'Choosing your next question...' : (
+                <>
+                  Loaded {questions.length} of {preferences.questionCount} questions
+                  {generationProgress && generationProgress.totalChunks > 1 &&
+                    ` (${generationProgress.completedChunks}/${generationProgress.totalChunks} batches)`}
+                </>
+              )}
+            </span>
+          ) : isAdaptive && error && (
+            <span className="text-sm text-red-600">{error} Press Next to try again.</span>
+          )}
+        </div>
+        {currentQuestion.type === 'passage' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+            <PassagePanel
+              question={currentQuestion}
+              partIndex={currentPartIndex}
+              partAnswers={partAnswers}
+              onSelectPart={selectPart}
+            />
+            {quizQuestion}
+          </div>
+        ) : quizQuestion}
+      </div>
+    );
+  };
+  
   const renderContent = () => {
     if (!user) return null;
     
@@ -532,6 +643,45 @@ const QuizPage: React.FC = () => {
         );
       
       case 'quiz':
+        if (questions.length === 0 && (isGenerating || error)) {
+          return (
+            <div className="max-w-2xl mx-auto px-4 py-16">
+              <Card>
+                <CardBody className="p-8 text-center">
+                  {isGenerating ? (
+                    <>
+                      <Loader2 className="w-10 h-10 text-purple-600 animate-spin mx-auto mb-4" />
+                      <h2 className="text-xl font-semibold text-gray-800">Generating your quiz...</h2>
+                      <p className="text-gray-600 mt-2">The first question will appear as soon as it is ready.</p>
+                      {generationProgress && generationProgress.totalChunks > 1 && (
+                        <div className="mt-6">
+                          <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                            <div
+                              className="bg-purple-600 h-2 rounded-full transition-all duration-500"
+                              style={{ width: `${(generationProgress.completedChunks / generationProgress.totalChunks) * 100}%` }}
+                            />
+                          </div>
+                          <p className="text-sm text-gray-500 mt-2">
+                            {generationProgress.completedChunks} of {generationProgress.totalChunks} batches complete
+                          </p>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-red-600 font-medium mb-6">{error}</p>
+                      <Button variant="outline" onClick={handleChangePreferences}>
+                        <ArrowLeft className="w-5 h-5 mr-2" />
+                        Back to Preferences
+                      </Button>
+                    </>
+                  )}
+                </CardBody>
+              </Card>
+            </div>
+          );
+        }
+
         if (currentQuestionIndex < 0 || currentQuestionIndex >= questions.length) {
           return null;
         }
@@ -541,40 +691,22 @@ const QuizPage: React.FC = () => {
           return null;
         }
         
-        return (
-          <div className="max-w-4xl mx-auto px-2 sm:px-4">
-            <div className="flex justify-between items-center mb-4">
-              <Button
-                variant="ghost"
-                onClick={handleBackToModeSelector}
-                className="text-gray-600 hover:text-gray-800"
-              >
-                <ArrowLeft className="w-5 h-5 mr-2" />
-                Back to Quiz Modes
-              </Button>
-            </div>
-            <QuizQuestion
-              question={currentQuestion}
-              questionNumber={currentQuestionIndex + 1}
-              totalQuestions={questions.length}
-              userAnswer={answers[currentQuestion.id]}
-              onAnswer={(answer) => answerQuestion(currentQuestion.id, answer)}
-              onPrevious={handlePrevious}
-              onNext={handleNext}
-              isLastQuestion={currentQuestionIndex === questions.length - 1}
-              onFinish={handleFinishQuiz}
-              language={preferences.language || 'en'}
-              timeLimitEnabled={preferences.timeLimitEnabled || false}
-              timeLimit={preferences.timeLimit}
-              totalTimeLimit={preferences.totalTimeLimit}
-              totalTimeRemaining={totalTimeRemaining}
-              mode={preferences.mode || 'practice'}
-              answerMode={preferences.mode === 'practice' ? 'immediate' : 'end'}
-            />
-          </div>
-        );
+        return renderQuiz(currentQuestion, preferences);
       
       case 'results':
+        if (isGrading) {
+          return (
+            <div className="max-w-2xl mx-auto px-4 py-16">
+              <Card>
+                <CardBody className="p-8 text-center">
+                  <Loader2 className="w-10 h-10 text-purple-600 animate-spin mx-auto mb-4" />
+                  <h2 className="text-xl font-semibold text-gray-800">Grading your answers...</h2>
+                  <p className="text-gray-600 mt-2">Typed answers that are not an exact match are being checked.</p>
+                </CardBody>
+              </Card>
+            </div>
+          );
+        }
         if (!result) return null;
         
         return (
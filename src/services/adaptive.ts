@@ -0,0 +1,87 @@
+import { AbilityEstimate, Question, QuizPreferences } from '../types';
+import { planBloomLevels } from './bloom';
+
+// Adaptive quizzes estimate the learner's ability with a one-parameter (Rasch) IRT model:
+// the chance of answering an item of difficulty b correctly at ability θ is 1 / (1 + e^-(θ - b)).
+// Both live on the same logit scale, where 0 is an intermediate question.
+
+// Item difficulty of each question tag on the ability scale
+export const itemDifficulty: Record<Question['difficulty'], number> = {
+  basic: -1,
+  intermediate: 0,
+  advanced: 1,
+};
+
+// Quiz difficulty to request for questions of each tag
+const requestedDifficulty: Record<Question['difficulty'], QuizPreferences['difficulty']> = {
+  basic: 'easy',
+  intermediate: 'medium',
+  advanced: 'hard',
+};
+
+// One answered question: its difficulty tag and the share of the credit earned (0-1)
+export type AbilityResponse = {
+  difficulty: Question['difficulty'];
+  score: number;
+};
+
+// Ability grid the posterior is evaluated on, with a standard normal prior so that
+// all-correct or all-wrong answers still give a finite estimate
+const GRID_MIN = -4;
+const GRID_MAX = 4;
+const GRID_STEP = 0.05;
+const grid = Array.from({ length: Math.round((GRID_MAX - GRID_MIN) / GRID_STEP) + 1 }, (_, index) => GRID_MIN + index * GRID_STEP);
+
+const probabilityCorrect = (ability: number, difficulty: number) => 1 / (1 + Math.exp(difficulty - ability));
+
+// Expected a posteriori estimate; the standard error is the posterior standard deviation.
+// Partial credit counts as that share of a correct answer.
+export const estimateAbility = (responses: AbilityResponse[]): AbilityEstimate => {
+  const logPosterior = grid.map(ability => responses.reduce((sum, { difficulty, score }) => {
+    const p = probabilityCorrect(ability, itemDifficulty[difficulty]);
+    return sum + score * Math.log(p) + (1 - score) * Math.log(1 - p);
+  }, -(ability * ability) / 2));
+
+  // Shift by the maximum before exponentiating so long quizzes do not underflow
+  const peak = Math.max(...logPosterior);
+  const weights = logPosterior.map(value => Math.exp(value - peak));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const ability = grid.reduce((sum, value, index) => sum + value * weights[index], 0) / total;
+  const variance = grid.reduce((sum, value, index) => sum + (value - ability) ** 2 * weights[index], 0) / total;
+
+  return { ability, standardError: Math.sqrt(variance), questionCount: responses.length };
+};
+
+// 95% confidence interval around the estimate
+export const getConfidenceInterval = ({ ability, standardError }: AbilityEstimate): [number, number] =>
+  [ability - 1.96 * standardError, ability + 1.96 * standardError];
+
+// A Rasch item is most informative when its difficulty equals the learner's ability,
+// so the next question uses the tag closest to the current estimate
+export const chooseNextDifficulty = (estimate: AbilityEstimate): Question['difficulty'] =>
+  (Object.keys(itemDifficulty) as Question['difficulty'][]).reduce((best, tag) =>
+    Math.abs(itemDifficulty[tag] - estimate.ability) < Math.abs(itemDifficulty[best] - estimate.ability) ? tag : best
+  );
+
+// Tag whose difficulty is closest to an ability, to describe it in words
+export const describeAbility = (ability: number) => chooseNextDifficulty({ ability, standardError: 0, questionCount: 0 });
+
+// Preferences for generating the question at the given position of an adaptive quiz: one question
+// at the chosen difficulty, its type and cognitive level taking their turn in the quiz's mix.
+// Types are rotated rather than narrowed so passages keep the quiz's part types.
+export const getAdaptiveQuestionPreferences = (
+  preferences: QuizPreferences,
+  index: number,
+  difficulty: Question['difficulty']
+): QuizPreferences => {
+  const { questionTypes, bloomDistribution, questionCount } = preferences;
+  const turn = index % questionTypes.length;
+  const level = planBloomLevels(bloomDistribution, questionCount)[index];
+  return {
+    ...preferences,
+    difficulty: requestedDifficulty[difficulty],
+    questionCount: 1,
+    questionTypes: [...questionTypes.slice(turn), ...questionTypes.slice(0, turn)],
+    bloomDistribution: level ? { [level]: 100 } : undefined,
+  };
+};
@@ -0,0 +1,58 @@
+import { BloomDistribution, BloomLevel, BloomLevelStats, Question } from '../types';
+import { bloomLevels } from '../data/bloomLevels';
+
+export const getBloomTotal = (distribution: BloomDistribution) =>
+  bloomLevels.reduce((sum, { id }) => sum + (distribution[id] || 0), 0);
+
+// Split a question count across levels in proportion to the distribution, using largest
+// remainders so the counts always add up. Levels are interleaved in taxonomy order, so any
+// slice of the result keeps roughly the same mix.
+export const planBloomLevels = (distribution: BloomDistribution | undefined, count: number): BloomLevel[] => {
+  const total = distribution ? getBloomTotal(distribution) : 0;
+  if (!distribution || total <= 0) return [];
+
+  const shares = bloomLevels.map(({ id }) => ({ id, exact: ((distribution[id] || 0) / total) * count }));
+  const counts = new Map(shares.map(({ id, exact }) => [id, Math.floor(exact)]));
+  let remaining = count - [...counts.values()].reduce((sum, value) => sum + value, 0);
+  [...shares]
+    .sort((a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact)))
+    .forEach(({ id }) => {
+      if (remaining > 0) {
+        counts.set(id, counts.get(id)! + 1);
+        remaining--;
+      }
+    });
+
+  const slots: BloomLevel[] = [];
+  while (slots.length < count) {
+    bloomLevels.forEach(({ id }) => {
+      if (counts.get(id)! > 0) {
+        slots.push(id);
+        counts.set(id, counts.get(id)! - 1);
+      }
+    });
+  }
+  return slots;
+};
+
+// Count answered questions per level; a passage's parts are tagged and counted one by one
+export const tallyBloomLevels = (questions: Question[]): BloomLevelStats => {
+  const stats: BloomLevelStats = {};
+  const add = (question: Question) => {
+    if (!question.bloomLevel) return;
+    const entry = stats[question.bloomLevel] || { correct: 0, total: 0 };
+    stats[question.bloomLevel] = { correct: entry.correct + (question.isCorrect ? 1 : 0), total: entry.total + 1 };
+  };
+  questions.forEach(question => question.type === 'passage' ? question.parts.forEach(add) : add(question));
+  return stats;
+};
+
+// Combine the per-level counts of several quizzes
+export const mergeBloomStats = (statsList: (BloomLevelStats | undefined)[]): BloomLevelStats => {
+  const merged: BloomLevelStats = {};
+  statsList.forEach(stats => Object.entries(stats || {}).forEach(([level, entry]) => {
+    const current = merged[level as BloomLevel] || { correct: 0, total: 0 };
+    merged[level as BloomLevel] = { correct: current.correct + entry.correct, total: current.total + entry.total };
+  }));
+  return merged;
+};
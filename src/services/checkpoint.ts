@@ -0,0 +1,84 @@
+import { QuizCheckpoint } from '../types';
+import { supabase } from './supabase';
+
+// In-progress quizzes are kept in local storage, which survives a refresh right away, and in
+// Supabase, so they can be resumed on another device. Remote saves wait for answering to pause.
+const REMOTE_SAVE_DELAY_MS = 2000;
+
+const storageKey = (userId: string) => `quiz-checkpoint:${userId}`;
+
+let pendingRemoteSave: ReturnType<typeof setTimeout> | null = null;
+// The remote save being written, which a clear waits for so it cannot land afterwards
+let remoteSaveInFlight: Promise<void> = Promise.resolve();
+
+const cancelRemoteSave = () => {
+  if (pendingRemoteSave) clearTimeout(pendingRemoteSave);
+  pendingRemoteSave = null;
+};
+
+const readLocalCheckpoint = (userId: string): QuizCheckpoint | null => {
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveQuizCheckpoint = (userId: string, checkpoint: QuizCheckpoint) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(checkpoint));
+  } catch (error) {
+    // Storage can be full or disabled; the remote copy still lets the quiz be resumed
+    console.warn('Could not save the quiz checkpoint locally:', error);
+  }
+
+  cancelRemoteSave();
+  pendingRemoteSave = setTimeout(() => {
+    pendingRemoteSave = null;
+    remoteSaveInFlight = (async () => {
+      const { error } = await supabase
+        .from('quiz_checkpoints')
+        .upsert({ user_id: userId, checkpoint, updated_at: new Date(checkpoint.savedAt).toISOString() });
+      if (error) console.warn('Failed to save quiz checkpoint:', error.message);
+    })();
+  }, REMOTE_SAVE_DELAY_MS);
+};
+
+// The most recently saved checkpoint, local or remote
+export const getQuizCheckpoint = async (userId: string): Promise<QuizCheckpoint | null> => {
+  const local = readLocalCheckpoint(userId);
+  const { data, error } = await supabase
+    .from('quiz_checkpoints')
+    .select('checkpoint')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load quiz checkpoint:', error.message);
+    return local;
+  }
+
+  const remote: QuizCheckpoint | null = data?.checkpoint || null;
+  if (!local || !remote) return local || remote;
+  return remote.savedAt > local.savedAt ? remote : local;
+};
+
+// Seconds left on a checkpoint's total timer. An exam's clock keeps running while the quiz is
+// away, as in a real exam, so the time since it was saved is taken off; other modes pause.
+export const getCheckpointTimeRemaining = ({ timeRemaining, savedAt, preferences }: QuizCheckpoint, now = Date.now()) => {
+  if (timeRemaining === null) return null;
+  return preferences.mode === 'exam' ? Math.max(0, timeRemaining - Math.floor((now - savedAt) / 1000)) : timeRemaining;
+};
+
+export const clearQuizCheckpoint = async (userId: string) => {
+  cancelRemoteSave();
+  try {
+    localStorage.removeItem(storageKey(userId));
+  } catch {
+    // Nothing was saved where storage is disabled
+  }
+  await remoteSaveInFlight;
+  const { error } = await supabase.from('quiz_checkpoints').delete().eq('user_id', userId);
+  if (error) console.warn('Failed to clear quiz checkpoint:', error.message);
+};
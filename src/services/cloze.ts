@@ -0,0 +1,46 @@
+import { ClozeBlank, Question } from '../types';
+import { encodePartAnswers, parsePartAnswers } from './passage';
+
+type ClozeQuestion = Extract<Question, { type: 'cloze' }>;
+
+// A run of the cloze text, or the position of a blank (0 for [[1]])
+export type ClozeSegment = { text: string } | { blank: number };
+
+const BLANK_PATTERN = /\[\[(\d+)\]\]/g;
+
+// Split the cloze text around its blank markers
+export const splitCloze = (text: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(BLANK_PATTERN)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ blank: Number(match[1]) - 1 });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Blank answers are stored the same way as a passage's part answers
+export const parseBlankAnswers = (answer: string | undefined, blankCount: number) =>
+  parsePartAnswers(answer, blankCount);
+
+export const answerBlank = (question: ClozeQuestion, answer: string | undefined, blankIndex: number, blankAnswer: string) => {
+  const answers = parseBlankAnswers(answer, question.blanks.length);
+  answers[blankIndex] = blankAnswer;
+  return encodePartAnswers(answers);
+};
+
+const normalizeBlank = (answer: string) => answer.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Dropdown picks must be an accepted choice exactly; typed answers ignore case and spacing
+export const isBlankCorrect = (blank: ClozeBlank, answer: string) =>
+  !!answer && (blank.options
+    ? blank.answers.includes(answer)
+    : blank.answers.some(accepted => normalizeBlank(accepted) === normalizeBlank(answer)));
+
+// Whether each blank was filled correctly, in blank order
+export const gradeBlanks = (question: ClozeQuestion, answer: string | undefined) => {
+  const answers = parseBlankAnswers(answer, question.blanks.length);
+  return question.blanks.map((blank, index) => isBlankCorrect(blank, answers[index]));
+};
@@ -0,0 +1,281 @@
+// Parsing and equivalence checking for algebraic answers such as "2x(x+1)" or "sqrt(x)/2".
+// Answers are compared by evaluating both expressions at random points rather than by
+// simplifying them, so any equivalent form is accepted.
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'constant'; name: 'pi' | 'e' }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode; implicit?: boolean }
+  | { kind: 'call'; name: FunctionName; argument: ExpressionNode };
+
+const functions = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs,
+};
+
+type FunctionName = keyof typeof functions;
+
+// Longest names first, so "sqrt" is not read as "s", "q", "r", "t"
+const functionNames = (Object.keys(functions) as FunctionName[]).sort((a, b) => b.length - a.length);
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'symbol'; symbol: string };
+
+// Rewrite the symbols people type or paste into the ASCII forms the tokenizer reads
+const normalizeInput = (input: string) => input
+  .replace(/[−–]/g, '-')
+  .replace(/[×·⋅]/g, '*')
+  .replace(/÷/g, '/')
+  .replace(/\*\*/g, '^')
+  .replace(/²/g, '^2')
+  .replace(/³/g, '^3')
+  .replace(/√/g, 'sqrt')
+  .replace(/π/g, 'pi')
+  .replace(/[[{]/g, '(')
+  .replace(/[\]}]/g, ')');
+
+// Split a run of letters into function names, constants and single-letter variables,
+// so "2xy" is 2·x·y and "sinx" is sin(x)
+const splitName = (word: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = word;
+  while (rest) {
+    const name = functionNames.find(fn => rest.startsWith(fn)) || (rest.startsWith('pi') ? 'pi' : rest[0]);
+    tokens.push({ kind: 'name', name });
+    rest = rest.slice(name.length);
+  }
+  return tokens;
+};
+
+const tokenize = (input: string): Token[] | null => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|([a-zA-Z]+)|([-+*/^()]))/y;
+  const text = normalizeInput(input).trim();
+
+  while (pattern.lastIndex < text.length) {
+    const match = pattern.exec(text);
+    if (!match) return null;
+    if (match[1]) tokens.push({ kind: 'number', value: Number(match[1]) });
+    else if (match[2]) tokens.push(...splitName(match[2]));
+    else tokens.push({ kind: 'symbol', symbol: match[3] });
+  }
+  return tokens;
+};
+
+// Recursive descent parser. Implicit multiplication binds like "*", so "1/2x" is (1/2)·x,
+// and unary minus binds looser than "^", so "-x^2" is -(x^2).
+const parseTokens = (tokens: Token[]): ExpressionNode | null => {
+  let position = 0;
+  const peek = () => tokens[position];
+  const isSymbol = (symbol: string) => peek()?.kind === 'symbol' && (peek() as { symbol: string }).symbol === symbol;
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[position++] as { symbol: '+' | '-' }).symbol;
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    for (;;) {
+      if (isSymbol('*') || isSymbol('/')) {
+        const operator = (tokens[position++] as { symbol: '*' | '/' }).symbol;
+        node = { kind: 'binary', operator, left: node, right: parseUnary() };
+      } else if (peek()?.kind === 'name' || isSymbol('(')) {
+        node = { kind: 'binary', operator: '*', left: node, right: parsePower(), implicit: true };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      position++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (isSymbol('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (!isSymbol('^')) return base;
+    position++;
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.kind === 'number') return { kind: 'number', value: token.value };
+    if (token.kind === 'symbol') {
+      if (token.symbol !== '(') throw new Error(`Unexpected "${token.symbol}"`);
+      const inner = parseSum();
+      if (!isSymbol(')')) throw new Error('Missing ")"');
+      position++;
+      return inner;
+    }
+    if (token.name in functions) {
+      // "sin(x)^2" squares the sine, while "sin x" applies to the next factor only, as in "sin x cos x"
+      return { kind: 'call', name: token.name as FunctionName, argument: isSymbol('(') ? parsePrimary() : parsePower() };
+    }
+    if (token.name === 'pi' || token.name === 'e') return { kind: 'constant', name: token.name };
+    return { kind: 'variable', name: token.name };
+  };
+
+  try {
+    const node = parseSum();
+    return position === tokens.length ? node : null;
+  } catch {
+    return null;
+  }
+};
+
+// Parse an answer, or return null when it is not a well-formed expression
+export const parseExpression = (input: string): ExpressionNode | null => {
+  const tokens = tokenize(input);
+  return tokens && tokens.length > 0 ? parseTokens(tokens) : null;
+};
+
+const evaluate = (node: ExpressionNode, scope: Record<string, number>): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return scope[node.name];
+    case 'constant':
+      return node.name === 'pi' ? Math.PI : Math.E;
+    case 'negate':
+      return -evaluate(node.operand, scope);
+    case 'call':
+      return functions[node.name](evaluate(node.argument, scope));
+    case 'binary': {
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return left ** right;
+      }
+    }
+  }
+};
+
+const collectVariables = (node: ExpressionNode, names: Set<string>): Set<string> => {
+  if (node.kind === 'variable') names.add(node.name);
+  if (node.kind === 'negate') collectVariables(node.operand, names);
+  if (node.kind === 'call') collectVariables(node.argument, names);
+  if (node.kind === 'binary') {
+    collectVariables(node.left, names);
+    collectVariables(node.right, names);
+  }
+  return names;
+};
+
+// Seeded so a given answer is always graded the same way
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const SAMPLE_POINTS = 24;
+const MAX_ATTEMPTS = 200;
+const RELATIVE_TOLERANCE = 1e-8;
+
+// Whether two expressions are equal for every value of their variables, tested at random points.
+// Points where either side is undefined (such as sqrt of a negative) are skipped, so answers that
+// agree wherever both are defined, like "2ln(x)" and "ln(x^2)", are accepted.
+export const areExpressionsEquivalent = (answer: string, expected: string): boolean => {
+  const first = parseExpression(answer);
+  const second = parseExpression(expected);
+  if (!first || !second) return false;
+
+  const variables = [...collectVariables(second, collectVariables(first, new Set()))];
+  const random = createRandom(0x5eed);
+  let matched = 0;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && matched < SAMPLE_POINTS; attempt++) {
+    const scope = Object.fromEntries(variables.map(name => [name, random() * 6 - 3]));
+    const a = evaluate(first, scope);
+    const b = evaluate(second, scope);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+    if (Math.abs(a - b) > RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b))) return false;
+    matched++;
+  }
+
+  return matched === SAMPLE_POINTS;
+};
+
+const precedence = (node: ExpressionNode) => {
+  if (node.kind === 'binary') return { '+': 1, '-': 1, '*': 2, '/': 3, '^': 4 }[node.operator];
+  return node.kind === 'negate' ? 1 : 5;
+};
+
+const wrap = (latex: string, needed: boolean) => needed ? `\\left(${latex}\\right)` : latex;
+
+// LaTeX for a parsed expression, used to preview how an answer was read
+export const expressionToLatex = (node: ExpressionNode): string => {
+  switch (node.kind) {
+    case 'number':
+      return String(node.value);
+    case 'variable':
+      return node.name;
+    case 'constant':
+      return node.name === 'pi' ? '\\pi' : 'e';
+    case 'negate':
+      return `-${wrap(expressionToLatex(node.operand), precedence(node.operand) <= 1)}`;
+    case 'call': {
+      const argument = expressionToLatex(node.argument);
+      if (node.name === 'sqrt') return `\\sqrt{${argument}}`;
+      if (node.name === 'abs') return `\\left|${argument}\\right|`;
+      return `\\${node.name}\\left(${argument}\\right)`;
+    }
+    case 'binary': {
+      const left = expressionToLatex(node.left);
+      const right = expressionToLatex(node.right);
+      switch (node.operator) {
+        case '+':
+          return `${left} + ${wrap(right, node.right.kind === 'negate')}`;
+        case '-':
+          return `${left} - ${wrap(right, precedence(node.right) <= 1)}`;
+        case '*': {
+          const product = [wrap(left, precedence(node.left) <= 1), wrap(right, precedence(node.right) <= 1)];
+          // Juxtapose only where it cannot be misread, keeping "2 \cdot 3" apart
+          return node.implicit && !/^[\d-]/.test(product[1]) ? product.join('') : product.join(' \\cdot ');
+        }
+        case '/':
+          return `\\frac{${left}}{${right}}`;
+        case '^':
+          return `${wrap(left, precedence(node.left) < 5 || node.left.kind === 'call')}^{${right}}`;
+      }
+    }
+  }
+};
+
+// An expression answer as inline math, or the text unchanged when it does not parse
+export const formatExpression = (input: string) => {
+  const node = parseExpression(input);
+  return node ? `\\(${expressionToLatex(node)}\\)` : input;
+};
@@ -0,0 +1,211 @@
+import { Question, QuestionType, QuizLanguage, QuizPreferences } from '../types';
+import { getPassagePartTypes, validateQuestion } from './questionSchemas';
+import { formatStudyMaterial, MAX_SOURCE_EXCERPT_CHARS } from './studyMaterial';
+import { planBloomLevels } from './bloom';
+import { bloomLevels } from '../data/bloomLevels';
+
+// Deterministic offline stand-ins for every AI call, used by the fixture provider
+// so quizzes and competitions can run in development and tests without a network.
+
+// Words used to build fixture text in each supported language
+const phrases: Record<QuizLanguage, {
+  question: string;
+  option: string;
+  step: string;
+  explanation: string;
+  scenario: string;
+  term: string;
+  definition: string;
+}> = {
+  English: { question: 'Question', option: 'Option', step: 'Step', explanation: 'Explanation', scenario: 'Scenario', term: 'Term', definition: 'Definition' },
+  Hindi: { question: 'प्रश्न', option: 'विकल्प', step: 'चरण', explanation: 'व्याख्या', scenario: 'परिदृश्य', term: 'पद', definition: 'परिभाषा' },
+  Malayalam: { question: 'ചോദ്യം', option: 'ഓപ്ഷൻ', step: 'ഘട്ടം', explanation: 'വിശദീകരണം', scenario: 'സാഹചര്യം', term: 'പദം', definition: 'നിർവചനം' },
+  Tamil: { question: 'கேள்வி', option: 'விருப்பம்', step: 'படி', explanation: 'விளக்கம்', scenario: 'சூழ்நிலை', term: 'சொல்', definition: 'வரையறை' },
+  Telugu: { question: 'ప్రశ్న', option: 'ఎంపిక', step: 'దశ', explanation: 'వివరణ', scenario: 'సందర్భం', term: 'పదం', definition: 'నిర్వచనం' },
+  Spanish: { question: 'Pregunta', option: 'Opción', step: 'Paso', explanation: 'Explicación', scenario: 'Escenario', term: 'Término', definition: 'Definición' },
+  French: { question: 'Question', option: 'Option', step: 'Étape', explanation: 'Explication', scenario: 'Scénario', term: 'Terme', definition: 'Définition' },
+  German: { question: 'Frage', option: 'Option', step: 'Schritt', explanation: 'Erklärung', scenario: 'Szenario', term: 'Begriff', definition: 'Definition' },
+  Chinese: { question: '问题', option: '选项', step: '步骤', explanation: '解释', scenario: '情景', term: '术语', definition: '定义' },
+  Japanese: { question: '問題', option: '選択肢', step: 'ステップ', explanation: '解説', scenario: 'シナリオ', term: '用語', definition: '定義' },
+};
+
+// Question tag for each quiz difficulty, so adaptive steps get the difficulty they asked for
+const difficultyTags: Record<QuizPreferences['difficulty'], Question['difficulty']> = {
+  easy: 'basic',
+  medium: 'intermediate',
+  hard: 'advanced',
+};
+
+// String hash used to seed the generator from the quiz preferences
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32) so the same preferences always give the same quiz
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Build one raw question of the given type, shaped exactly like a model response
+const buildFixtureQuestion = (
+  type: QuestionType,
+  number: number,
+  subject: string,
+  language: QuizLanguage,
+  random: () => number,
+  questionTypes: QuestionType[],
+  difficulty: Question['difficulty']
+): Record<string, unknown> => {
+  const words = phrases[language] || phrases.English;
+  const stem = `${words.question} ${number} · ${subject}`;
+  const options = (count: number) =>
+    Array.from({ length: count }, (_, index) => `${words.option} ${number}.${String.fromCharCode(65 + index)}`);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const scenario = `${words.scenario} ${number}: ${subject}. `.repeat(8).trim();
+
+  switch (type) {
+    case 'multiple-choice': {
+      const choices = options(4);
+      return { type, text: `${stem}?`, options: choices, correctAnswer: pick(choices), explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'true-false':
+      return { type, text: stem, options: ['True', 'False'], correctAnswer: pick(['True', 'False']), explanation: `${words.explanation} ${number}`, difficulty };
+    case 'multi-select': {
+      const choices = options(6);
+      const correctOptions = shuffle(choices, random).slice(0, 2 + Math.floor(random() * 2));
+      return { type, text: `${stem}?`, options: choices, correctOptions, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'sequence': {
+      const correctSequence = Array.from({ length: 4 }, (_, index) => `${words.step} ${number}.${index + 1}`);
+      return { type, text: stem, sequence: shuffle(correctSequence, random), correctSequence, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'matching': {
+      const leftItems = Array.from({ length: 4 }, (_, index) => `${words.term} ${number}.${index + 1}`);
+      const correctMatches = Array.from({ length: 4 }, (_, index) => `${words.definition} ${number}.${index + 1}`);
+      return { type, text: stem, leftItems, rightItems: shuffle(correctMatches, random), correctMatches, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'numeric': {
+      // A whole number of metres so "1/2"-style answers never apply, with km accepted as well
+      const correctValue = 100 + Math.floor(random() * 900);
+      return { type, text: `${stem}?`, correctValue, unit: 'm', acceptedUnits: ['km'], relativeTolerance: 0.01, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'code-output': {
+      const a = 2 + Math.floor(random() * 8);
+      const b = 2 + Math.floor(random() * 8);
+      const code = `def combine(a, b):\n    return a * b + ${number}\n\nprint(combine(${a}, ${b}))\nprint("done")`;
+      return { type, text: `${stem}?`, code, codeLanguage: 'python', correctAnswer: `${a * b + number}\ndone`, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'assertion-reason':
+      return { type, text: stem, assertion: `${stem} (A)`, reason: `${stem} (R)`, correctOption: pick(['a', 'b', 'c', 'd']), explanation: `${words.explanation} ${number}`, difficulty };
+    case 'passage': {
+      // Three parts cycling through the types the quiz allows in passages
+      const partTypes = getPassagePartTypes(questionTypes);
+      const parts = Array.from({ length: 3 }, (_, index) => ({
+        ...buildFixtureQuestion(partTypes[index % partTypes.length], number, subject, language, random, questionTypes, difficulty),
+        bloomLevel: pick(bloomLevels).id,
+      }));
+      const sentence = `${words.scenario} ${number}: ${subject}. `;
+      const passage = sentence.repeat(Math.ceil(640 / sentence.length)).trim();
+      return { type, text: stem, passage, parts, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'cloze': {
+      // Two typed blanks and one dropdown
+      const blanks: { answers: string[]; options?: string[] }[] = Array.from({ length: 3 }, (_, index) => ({
+        answers: [`${words.term} ${number}.${index + 1}`],
+      }));
+      blanks[2].options = shuffle([...blanks[2].answers, ...options(3)], random);
+      const cloze = `${words.scenario} ${number}: [[1]] · ${subject} · [[2]] · [[3]].`;
+      return { type, text: stem, cloze, blanks, explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'case-study': {
+      const choices = options(4);
+      return { type, text: stem, caseStudy: scenario, question: `${stem}?`, options: choices, correctAnswer: pick(choices), explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'situation': {
+      const choices = options(4);
+      return { type, text: stem, situation: scenario, question: `${stem}?`, options: choices, correctAnswer: pick(choices), explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'short-answer': {
+      const answer = `${subject} ${number}`;
+      return { type, text: `${stem}?`, correctAnswer: answer, keywords: [answer], explanation: `${words.explanation} ${number}`, difficulty };
+    }
+    case 'fill-blank': {
+      const answer = `${subject} ${number}`;
+      return { type, text: `${stem}: _____`, correctAnswer: answer, keywords: [answer], explanation: `${words.explanation} ${number}`, difficulty };
+    }
+  }
+};
+
+// Generate a seeded, schema-valid quiz for the given preferences.
+// Questions are numbered after the askedCount the quiz already has, and seeded by it,
+// so each step of an adaptive quiz gets a new question.
+export const generateFixtureQuestions = (preferences: QuizPreferences, askedCount = 0): Record<string, unknown>[] => {
+  const { course, topic, subtopic, difficulty, language, questionCount, questionTypes } = preferences;
+  const subject = [course, topic, subtopic].filter(Boolean).join(' - ') || 'General Knowledge';
+  const random = createRandom(hashString([subject, difficulty, language, questionTypes.join(','), askedCount].join('|')));
+  // Levels follow the requested mix, or vary at random when the quiz sets none
+  const levels = planBloomLevels(preferences.bloomDistribution, questionCount);
+
+  // Grounded quizzes quote a sentence of the material, as a real model is asked to
+  const sentences = preferences.studyMaterial?.length
+    ? formatStudyMaterial(preferences.studyMaterial)
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim().slice(0, MAX_SOURCE_EXCERPT_CHARS))
+      .filter(sentence => sentence && !sentence.startsWith('--- '))
+    : [];
+
+  return Array.from({ length: questionCount }, (_, index) => {
+    const question = buildFixtureQuestion(questionTypes[index % questionTypes.length], askedCount + index + 1, subject, language, random, questionTypes, difficultyTags[difficulty]);
+    question.bloomLevel = levels[index] || bloomLevels[Math.floor(random() * bloomLevels.length)].id;
+    if (sentences.length > 0) {
+      question.source = sentences[index % sentences.length];
+    }
+
+    // Fixtures must keep up with the schemas, or tests built on them would pass for the wrong reasons
+    const errors = validateQuestion(question);
+    if (errors.length > 0) {
+      throw new Error(`Fixture for ${question.type} no longer matches its schema: ${errors.join('; ')}`);
+    }
+    return question;
+  });
+};
+
+// Canned explanation in the quiz language
+export const fixtureExplanation = (question: string, correctAnswer: string, language: string) => {
+  const words = phrases[language as QuizLanguage] || phrases.English;
+  return `${words.explanation}: "${correctAnswer}" — ${question}`;
+};
+
+// Deterministic keyword verdict standing in for the AI grader
+export const fixtureEvaluation = (userAnswer: string, correctAnswer: string, keywords: string[]) => {
+  const userLower = userAnswer.toLowerCase().trim();
+  const isExact = userLower === correctAnswer.toLowerCase().trim();
+  const hasKeywords = keywords.some(keyword => userLower.includes(keyword.toLowerCase()));
+
+  return {
+    isCorrect: isExact || hasKeywords,
+    score: isExact ? 100 : hasKeywords ? 75 : 0,
+    feedback: isExact
+      ? 'Fixture verdict: exact match.'
+      : hasKeywords
+        ? 'Fixture verdict: contains an accepted keyword.'
+        : `Fixture verdict: expected "${correctAnswer}".`
+  };
+};
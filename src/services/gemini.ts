@@ -1,14 +1,219 @@
-import { QuizPreferences, Question } from '../types';
+import { QuizPreferences, Question, QuizLanguage, QuestionType, ProviderSettings, GenerationProgress, PassagePartType, BloomDistribution, BloomLevel } from '../types';
+import { getProvider, QuotaExceededError } from './providers';
+import { fixtureEvaluation, fixtureExplanation, generateFixtureQuestions } from './fixtures';
+import { buildResponseSchema, getPassagePartTypes, questionSchemas, SchemaNode, validateQuestion } from './questionSchemas';
+import { TextEvaluation } from './scoring';
+import { createSourceChecker, formatStudyMaterial, MAX_SOURCE_EXCERPT_CHARS } from './studyMaterial';
+import { planBloomLevels } from './bloom';
+import { bloomLevels } from '../data/bloomLevels';
+
+// How many follow-up calls may be spent regenerating questions that failed validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// A generated question that failed validation, with the problems to fix
+type InvalidQuestion = {
+  question: Record<string, unknown>;
+  errors: string[];
+};
 
-// Function to generate quiz questions using Gemini API
-export const generateQuiz = async (
-  apiKey: string,
-  preferences: QuizPreferences
-): Promise<Question[]> => {
-  const { course, topic, subtopic, questionCount, questionTypes, language: quizLanguage, difficulty } = preferences;
+// Map a validated raw question onto the app's Question shape, keeping only the fields its schema defines.
+// A passage's parts are mapped the same way and numbered from 1 within the passage.
+const toQuestion = (q: Record<string, unknown>, id: number, language: QuizLanguage): Question => {
+  const { properties = {} } = questionSchemas[q.type as QuestionType].schema;
+  const fields = Object.keys(properties)
+    .filter(key => q[key] !== undefined && q[key] !== null)
+    .map(key => key === 'parts'
+      ? [key, (q[key] as Record<string, unknown>[]).map((part, index) => toQuestion(part, index + 1, language))]
+      : [key, q[key]]);
+
+  return { ...Object.fromEntries(fields), id, language } as Question;
+};
+
+// Rule blocks for the given types, plus those for the types a passage's parts may use
+const describeTypes = (types: QuestionType[], partTypes: PassagePartType[]) =>
+  (types.includes('passage') ? [...new Set<QuestionType>([...types, ...partTypes])] : types)
+    .map(type => questionSchemas[type].instructions)
+    .join('\n\n');
+
+// Incrementally extracts complete top-level JSON objects from a streamed JSON array.
+// Braces inside string literals are ignored, so partial chunks can be fed in any size.
+const createJsonObjectExtractor = () => {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let current = '';
+
+  return (chunk: string): string[] => {
+    const objects: string[] = [];
+
+    for (const char of chunk) {
+      if (depth === 0) {
+        if (char === '{') {
+          depth = 1;
+          current = char;
+        }
+        continue;
+      }
+
+      current += char;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          objects.push(current);
+          current = '';
+        }
+      }
+    }
+
+    return objects;
+  };
+};
+
+// Parse the JSON array of questions out of a complete model response
+const parseQuestionArray = (text: string): unknown[] => {
+  const jsonMatch = text.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('No valid JSON found in the model response. Please check your API settings and try again.');
+  }
+
+  let questions: unknown;
+  try {
+    questions = JSON.parse(jsonMatch[0]);
+  } catch (error: any) {
+    throw new Error(`Failed to parse generated questions: ${error.message}`);
+  }
+
+  if (!Array.isArray(questions)) {
+    throw new Error('Invalid questions format - expected array of questions');
+  }
+  return questions;
+};
+
+// Prompt block restricting generation to the user's study material
+const buildGroundingBlock = (materialText: string) => `STUDY MATERIAL (the ONLY permitted source of facts):
+"""
+${materialText}
+"""
+
+GROUNDING RULES:
+- Every question, correct answer and explanation MUST be supported by the study material above - do NOT use outside knowledge
+- Wrong options must be plausible but clearly contradicted by, or absent from, the study material
+- Every question MUST include a "source" field: an excerpt of one to three consecutive sentences (at most ${MAX_SOURCE_EXCERPT_CHARS} characters) copied word for word from the study material that supports the correct answer`;
+
+// Build a follow-up prompt asking the model to fix specific questions that failed validation
+const buildRepairPrompt = (invalid: InvalidQuestion[], preferences: QuizPreferences) => {
+  const { course, topic, subtopic, language, studyMaterial, questionTypes } = preferences;
+  const types = [...new Set(invalid.map(({ question }) => question.type as QuestionType))];
+
+  return `The following ${invalid.length} quiz question(s) about "${course}${topic ? ` - ${topic}` : ''}${subtopic ? ` (${subtopic})` : ''}" failed validation.
+Regenerate each one so that it fixes every listed problem, keeping the same question type, subject and language (${language}).
+
+${invalid.map(({ question, errors }, index) => `Question ${index + 1}:
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+Original JSON:
+${JSON.stringify(question)}`).join('\n\n')}
+
+RULES FOR THESE QUESTION TYPES:
+
+${describeTypes(types, getPassagePartTypes(questionTypes))}
+${studyMaterial?.length ? `\n${buildGroundingBlock(formatStudyMaterial(studyMaterial))}\n` : ''}
+Return ONLY a valid JSON array with exactly ${invalid.length} corrected question(s), in the same order, with no text outside the array.`;
+};
+
+// Largest number of questions requested in a single model call, which keeps each
+// response well under the provider's output token limit
+const MAX_QUESTIONS_PER_REQUEST = 10;
+
+// Share of overlapping words above which two questions count as duplicates
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Number of questions of each type that one request should produce
+type QuestionMix = Partial<Record<QuestionType, number>>;
+
+// Number of questions at each Bloom level that one request should target; empty when the quiz sets no mix
+type BloomMix = Partial<Record<BloomLevel, number>>;
+
+// Split a quiz into requests of at most MAX_QUESTIONS_PER_REQUEST questions.
+// Types and levels are interleaved before slicing, so every chunk gets a balanced share of each.
+const planChunks = (
+  questionCount: number,
+  questionTypes: QuestionType[],
+  bloomDistribution?: BloomDistribution
+): { mix: QuestionMix; levels: BloomMix }[] => {
+  const slots = Array.from({ length: questionCount }, (_, index) => questionTypes[index % questionTypes.length]);
+  const levelSlots = planBloomLevels(bloomDistribution, questionCount);
+  const chunkCount = Math.ceil(questionCount / MAX_QUESTIONS_PER_REQUEST);
+  const baseSize = Math.floor(questionCount / chunkCount);
+
+  const chunks: { mix: QuestionMix; levels: BloomMix }[] = [];
+  let start = 0;
+  for (let index = 0; index < chunkCount; index++) {
+    const size = baseSize + (index < questionCount % chunkCount ? 1 : 0);
+    const mix: QuestionMix = {};
+    slots.slice(start, start + size).forEach(type => {
+      mix[type] = (mix[type] || 0) + 1;
+    });
+    const levels: BloomMix = {};
+    levelSlots.slice(start, start + size).forEach(level => {
+      levels[level] = (levels[level] || 0) + 1;
+    });
+    chunks.push({ mix, levels });
+    start += size;
+  }
+  return chunks;
+};
+
+// Normalized set of words in a question's prompt, used to spot near-identical questions
+const questionWords = (q: Record<string, unknown>) => new Set(
+  [q.text, q.question, q.caseStudy, q.situation, q.passage, q.cloze, q.code, q.assertion, q.reason, ...(Array.isArray(q.leftItems) ? q.leftItems : [])]
+    .filter((value): value is string => typeof value === 'string')
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+);
+
+const isNearDuplicate = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter(word => b.has(word)).length;
+  const total = new Set([...a, ...b]).size;
+  return total > 0 && shared / total >= NEAR_DUPLICATE_THRESHOLD;
+};
+
+// Longest excerpt of an already asked question quoted in the prompt
+const MAX_ASKED_QUESTION_CHARS = 160;
+
+// Build the prompt for one request producing the given mix of question types and cognitive levels
+const buildQuizPrompt = (
+  preferences: QuizPreferences,
+  mix: QuestionMix,
+  levels: BloomMix,
+  part: number,
+  totalParts: number,
+  askedQuestions: Question[]
+) => {
+  const { course, topic, subtopic, language: quizLanguage, difficulty, studyMaterial } = preferences;
+  const questionTypes = Object.keys(mix) as QuestionType[];
+  const partTypes = getPassagePartTypes(preferences.questionTypes);
+  const questionCount = questionTypes.reduce((sum, type) => sum + (mix[type] || 0), 0);
+  const isGrounded = !!studyMaterial?.length;
 
   // The prompt template for generating quiz questions
-  const prompt = `Generate a premium-quality quiz about "${course}${topic ? ` - ${topic}` : ''}${subtopic ? ` (${subtopic})` : ''}" with exactly ${questionCount} questions.
+  return `Generate a premium-quality quiz about "${course || (isGrounded ? 'the study material below' : '')}${topic ? ` - ${topic}` : ''}${subtopic ? ` (${subtopic})` : ''}" with exactly ${questionCount} questions.${isGrounded ? ' Base every question ONLY on the study material provided below.' : ''}${totalParts > 1 ? ` This is part ${part} of ${totalParts} of a larger quiz generated in parallel, so focus on aspects of the subject that the other parts are unlikely to cover.` : ''}
 
 STRICT COMMERCIAL REQUIREMENTS:
 1. CORE PARAMETERS:
@@ -18,169 +223,22 @@ ${subtopic ? `- Subtopic: ${subtopic}` : ''}
 - Language: ${quizLanguage} (flawless grammar)
 - Difficulty: ${difficulty} (with natural variation)
 - Question Types: ONLY ${questionTypes.join(', ')} - DO NOT include any other question types
-- Each question must be unique and not repetitive
-- Include practical applications and real-world scenarios
+- Question Mix: exactly ${questionTypes.map(type => `${mix[type]} ${type}`).join(', ')}
+${Object.keys(levels).length > 0 ? `- Cognitive Level Mix (Bloom's taxonomy): exactly ${bloomLevels.filter(({ id }) => levels[id]).map(({ id }) => `${levels[id]} ${id}`).join(', ')}, spread across the question types\n` : ''}- Each question must be unique and not repetitive
+${askedQuestions.length > 0 ? `- These questions were already asked in this quiz - DO NOT repeat or rephrase them:\n${askedQuestions.map(question => `  - ${question.text.slice(0, MAX_ASKED_QUESTION_CHARS)}`).join('\n')}\n` : ''}- Include practical applications and real-world scenarios
 - Ensure progressive complexity within the chosen difficulty level
 
 2. STRICT QUESTION TYPE REQUIREMENTS:
 
-For multiple-choice:
-- MUST have "text": clear, complete question
-- MUST have "options": array of EXACTLY 4 distinct, complete answers
-- MUST have "correctAnswer": exact match of the correct option
-- MUST have "explanation": detailed explanation of why the answer is correct
-Example:
-{
-  "type": "multiple-choice",
-  "text": "What is the primary function of a CPU in a computer system?",
-  "options": [
-    "Execute instructions and perform calculations",
-    "Store long-term data permanently",
-    "Display graphics on the monitor",
-    "Connect to the internet"
-  ],
-  "correctAnswer": "Execute instructions and perform calculations",
-  "explanation": "The CPU (Central Processing Unit) is the brain of the computer..."
-}
-
-For true-false:
-- MUST have "text": clear, complete statement to evaluate
-- MUST have "options": ["True", "False"]
-- MUST have "correctAnswer": either "True" or "False"
-- MUST have "explanation": detailed explanation of why true or false
-Example:
-{
-  "type": "true-false",
-  "text": "The binary number system uses only 0s and 1s.",
-  "options": ["True", "False"],
-  "correctAnswer": "True",
-  "explanation": "The binary number system is a base-2 system..."
-}
-
-For multi-select:
-- MUST have "text": clear question specifying "Select all that apply"
-- MUST have "options": array of EXACTLY 6 complete, distinct options
-- MUST have "correctOptions": array of EXACTLY 2 OR 3 correct options (no more, no less)
-- MUST have "explanation": explain why each correct option is right AND why others are wrong
-Example:
-{
-  "type": "multi-select",
-  "text": "Which of the following are object-oriented programming languages? (Select all that apply)",
-  "options": [
-    "Java",
-    "C",
-    "Python",
-    "Assembly",
-    "Ruby",
-    "COBOL"
-  ],
-  "correctOptions": ["Java", "Python", "Ruby"],
-  "explanation": "Java, Python, and Ruby are object-oriented languages because they support encapsulation, inheritance, and polymorphism. C is procedural, Assembly is low-level, and COBOL is primarily procedural."
-}
-
-For sequence:
-- MUST have "text": clear instruction about what to sequence
-- MUST have "sequence": array of 4-6 complete steps in RANDOM order
-- MUST have "correctSequence": same steps in CORRECT order
-- MUST have "explanation": explain the logic behind EACH step in the sequence
-Example:
-{
-  "type": "sequence",
-  "text": "Arrange the following steps of the TCP three-way handshake in the correct order:",
-  "sequence": [
-    "Client sends ACK",
-    "Server sends SYN-ACK",
-    "Client sends SYN",
-    "Connection established"
-  ],
-  "correctSequence": [
-    "Client sends SYN",
-    "Server sends SYN-ACK",
-    "Client sends ACK",
-    "Connection established"
-  ],
-  "explanation": "1. Client initiates with SYN to request connection\\n2. Server acknowledges and sends its own SYN\\n3. Client acknowledges server's SYN\\n4. Connection is now established and ready for data transfer"
-}
-
-For case-study:
-- MUST have "text": brief introduction
-- MUST have "caseStudy": detailed scenario description (minimum 100 words)
-- MUST have "question": specific question about the case
-- MUST have "options": array of EXACTLY 4 possible solutions
-- MUST have "correctAnswer": the best solution (exact match)
-- MUST have "explanation": detailed analysis of ALL options
-Example:
-{
-  "type": "case-study",
-  "text": "Analyze this e-commerce system scaling scenario:",
-  "caseStudy": "An e-commerce platform experiences sudden traffic spikes during flash sales, causing system slowdowns and occasional crashes. The current architecture uses a monolithic application deployed on a single server with a PostgreSQL database. During peak times, the server CPU reaches 100% utilization, database connections are exhausted, and the application becomes unresponsive. The company wants to handle 10x more concurrent users while maintaining response times under 500ms.",
-  "question": "What is the most effective immediate solution to handle the traffic spikes?",
-  "options": [
-    "Implement horizontal scaling with load balancing",
-    "Upgrade to a more powerful server",
-    "Switch to a NoSQL database",
-    "Add application caching"
-  ],
-  "correctAnswer": "Implement horizontal scaling with load balancing",
-  "explanation": "Analysis of each option:\\n1. Horizontal scaling with load balancing: Best immediate solution as it provides linear scalability, high availability, and can handle traffic spikes effectively.\\n2. Upgrading server: Temporary solution that doesn't solve the fundamental scalability issue and has physical limitations.\\n3. Switching to NoSQL: Major architectural change that doesn't address the immediate CPU bottleneck and requires significant development effort.\\n4. Adding caching: Helpful but insufficient alone for handling concurrent user load and CPU bottleneck."
-}
-
-For situation:
-- MUST have "text": brief introduction
-- MUST have "situation": detailed scenario description (minimum 100 words)
-- MUST have "question": specific question about the situation
-- MUST have "options": array of EXACTLY 4 possible actions
-- MUST have "correctAnswer": most appropriate action (exact match)
-- MUST have "explanation": detailed analysis of ALL options and their consequences
-Example:
-{
-  "type": "situation",
-  "text": "Handle a critical production incident:",
-  "situation": "You're the lead developer on call when a critical alert triggers at 2 AM. The company's main API is returning 500 errors for 30% of requests, affecting multiple major clients. Initial logs show increased database connection timeouts and memory usage spikes. The last deployment was 6 hours ago, which included both database schema changes and new API endpoints. The backup from 12 hours ago is available, but restoring it would lose 12 hours of customer data. Client impact is estimated at $50,000 per hour of downtime.",
-  "question": "What should be your first action?",
-  "options": [
-    "Immediately roll back the last deployment",
-    "Scale up database resources",
-    "Analyze logs and metrics for root cause",
-    "Restore from the latest backup"
-  ],
-  "correctAnswer": "Analyze logs and metrics for root cause",
-  "explanation": "Analysis of each action and its consequences:\\n1. Rolling back immediately: Risky without understanding the issue, could cause data inconsistencies and might not solve the problem if it's unrelated to the deployment.\\n2. Scaling database resources: Premature solution without understanding if database is the real bottleneck, wastes time and resources if the issue lies elsewhere.\\n3. Analyzing logs and metrics: Best first action as it quickly identifies the root cause, minimizes risk, and ensures the correct solution is implemented. Allows for informed decision-making.\\n4. Restoring backup: Most disruptive option with guaranteed data loss, should only be used as a last resort after other options are exhausted."
-}
-
-For short-answer:
-- MUST have "text": clear, specific question
-- MUST have "correctAnswer": concise, accurate answer (1-3 words typically)
-- MUST have "explanation": detailed explanation of the answer
-- MUST have "keywords": array of key terms that should be present in a correct answer
-Example:
-{
-  "type": "short-answer",
-  "text": "What is the time complexity of binary search algorithm?",
-  "correctAnswer": "O(log n)",
-  "explanation": "Binary search has O(log n) time complexity because it eliminates half of the remaining elements in each iteration, resulting in a logarithmic number of comparisons.",
-  "keywords": ["O(log n)", "logarithmic", "log n"]
-}
-
-For fill-blank:
-- MUST have "text": sentence with ONE blank marked as _____ 
-- MUST have "correctAnswer": the word/phrase that fills the blank
-- MUST have "explanation": detailed explanation
-- MUST have "keywords": array of acceptable variations of the answer
-Example:
-{
-  "type": "fill-blank",
-  "text": "The _____ design pattern ensures that a class has only one instance and provides global access to it.",
-  "correctAnswer": "Singleton",
-  "explanation": "The Singleton pattern restricts instantiation of a class to one object and provides a global point of access to that instance.",
-  "keywords": ["Singleton", "singleton"]
-}
-
+${describeTypes(questionTypes, partTypes)}
+${studyMaterial?.length ? `\n${buildGroundingBlock(formatStudyMaterial(studyMaterial))}\n` : ''}
 CRITICAL REQUIREMENTS:
 1. Every question MUST include:
    - Complete "text" field with clear question
    - Appropriate fields for its type (see examples)
    - Detailed "explanation" field
+   - "difficulty" field: "basic", "intermediate" or "advanced"
+   - "bloomLevel" field: the Bloom's taxonomy level the question really tests, judged by what the learner must do - ${bloomLevels.map(({ id, description }) => `"${id}" (${description})`).join(', ')}
    - All text in ${quizLanguage}
 
 2. Format as valid JSON array with no trailing commas
@@ -193,208 +251,182 @@ CRITICAL REQUIREMENTS:
 9. For case-study and situation questions, ALWAYS include detailed scenario (100+ words)
 10. ALWAYS analyze ALL options in explanations for case-study and situation questions
 11. For short-answer and fill-blank questions, ALWAYS include keywords array for flexible matching
-12. CRITICAL: Generate ONLY questions of the specified types: ${questionTypes.join(', ')}`;
+12. For matching questions, "correctMatches" MUST pair every left item with a different right item
+13. For numeric questions, "correctValue" MUST be a plain JSON number, with the unit in "unit" and a tolerance that fits the precision asked for
+14. For assertion-reason questions, write "assertion" and "reason" in ${quizLanguage} and give only the option key in "correctOption"
+15. For code-output questions, "code" MUST run as-is and "correctAnswer" MUST be exactly what it prints; work the output out by tracing the code line by line before writing it
+16. Whenever a question refers to a code snippet, put the snippet in "code" with its "codeLanguage" instead of in "text", keeping its line breaks and indentation
+17. Write ALL mathematical notation - variables, formulas, exponents, fractions, roots, Greek letters - as LaTeX in "text", "options", answers and "explanation": \\( ... \\) inline and \\[ ... \\] for an equation on its own line. NEVER use $ as a delimiter, and remember that every backslash is doubled inside JSON strings, e.g. "\\\\(\\\\frac{1}{2}\\\\)"
+18. Keep answers the student types - short-answer, fill-blank and their "keywords", cloze "answers" and "options", numeric values and units - as plain text without LaTeX, and set "answerMode": "math-expression" on short-answer and fill-blank questions whose answer is an algebraic expression
+19. For cloze questions, "blanks" MUST have exactly one entry per [[n]] marker in "cloze", in marker order
+20. For passage questions, every entry of "parts" counts toward the passage, not the question count, and may ONLY be of these types: ${partTypes.join(', ')}
+21. CRITICAL: Generate ONLY questions of the specified types: ${questionTypes.join(', ')}`;
+};
 
-  try {
-    // First try the edge function
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.0 // Lower temperature for more consistent output
-      })
-    });
+// Function to generate quiz questions using the configured AI provider.
+// Large quizzes are generated as parallel chunks whose questions are merged,
+// de-duplicated and numbered in the order they arrive.
+// Questions the quiz already has, such as earlier questions of an adaptive quiz, are not repeated.
+export const generateQuiz = async (
+  settings: ProviderSettings,
+  preferences: QuizPreferences,
+  callbacks: {
+    onQuestion?: (question: Question) => void;
+    onProgress?: (progress: GenerationProgress) => void;
+  } = {},
+  { askedQuestions = [] }: { askedQuestions?: Question[] } = {}
+): Promise<Question[]> => {
+  const { questionCount, questionTypes, language: quizLanguage } = preferences;
+  const { onQuestion, onProgress } = callbacks;
 
-    if (!response.ok) {
-      // Try to get detailed error message from response
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        if (errorData.error) {
-          errorMessage = `Gemini API error: ${errorData.error}`;
-        } else if (errorData.message) {
-          errorMessage = `API error: ${errorData.message}`;
-        }
-      } catch (parseError) {
-        // If we can't parse the error response, try to get text
-        try {
-          const errorText = await response.text();
-          if (errorText) {
-            errorMessage = `API error: ${errorText}`;
-          }
-        } catch (textError) {
-          // Keep the original HTTP error message
-        }
-      }
-      throw new Error(`Failed to generate quiz: ${errorMessage}`);
+  try {
+    if (settings.provider === 'fixture') {
+      // Offline fixtures skip the model but are numbered and reported like generated questions
+      const questions = generateFixtureQuestions(preferences, askedQuestions.length).map((q, index) => toQuestion(q, index + 1, quizLanguage));
+      questions.forEach(question => onQuestion?.(question));
+      onProgress?.({ completedChunks: 1, totalChunks: 1, questionsGenerated: questions.length, questionCount });
+      return questions;
     }
 
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API - no content generated');
-    }
+    const provider = getProvider(settings);
+    const chunks = planChunks(questionCount, questionTypes, preferences.bloomDistribution);
+    const partTypes = getPassagePartTypes(questionTypes);
+    const { studyMaterial } = preferences;
+    const isGrounded = !!studyMaterial?.length;
+    const checkSource = studyMaterial?.length ? createSourceChecker(formatStudyMaterial(studyMaterial)) : null;
+    const questions: Question[] = [];
+    const acceptedWords: Set<string>[] = askedQuestions.map(question => questionWords({ ...question }));
+    let completedChunks = 0;
+
+    const reportProgress = () => onProgress?.({
+      completedChunks,
+      totalChunks: chunks.length,
+      questionsGenerated: questions.length,
+      questionCount
+    });
 
-    const generatedText = data.candidates[0].content.parts[0].text;
-    
-    // Extract JSON from the response text
-    const jsonMatch = generatedText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error('No valid JSON found in Gemini response. Please check your API key and try again.');
-    }
+    // Accept a valid question unless the quiz is full or it repeats one we already have
+    const acceptQuestion = (q: Record<string, unknown>) => {
+      if (questions.length >= questionCount) return;
 
-    try {
-      const questions = JSON.parse(jsonMatch[0]);
-      
-      if (!Array.isArray(questions) || questions.length === 0) {
-        throw new Error('Invalid questions format - expected array of questions');
+      const words = questionWords(q);
+      if (acceptedWords.some(existing => isNearDuplicate(existing, words))) {
+        console.warn('Skipping near-duplicate question:', q.text);
+        return;
       }
 
-      // Filter questions to ensure only requested types are included
-      const filteredQuestions = questions.filter((q: any) => 
-        questionTypes.includes(q.type)
-      );
-
-      if (filteredQuestions.length === 0) {
-        throw new Error('No questions of the requested types were generated');
-      }
+      const question = toQuestion(q, questions.length + 1, quizLanguage);
+      acceptedWords.push(words);
+      questions.push(question);
+      onQuestion?.(question);
+      reportProgress();
+    };
 
-      // Validate each question has the required fields for its type
-      filteredQuestions.forEach((q: any, index: number) => {
-        if (!q.text || !q.type || !q.explanation) {
-          throw new Error(`Question ${index + 1} missing required base fields (text, type, or explanation)`);
+    const generateChunk = async ({ mix, levels }: { mix: QuestionMix; levels: BloomMix }, index: number) => {
+      const chunkTypes = Object.keys(mix) as QuestionType[];
+      let invalid: InvalidQuestion[] = [];
+
+      // Hold back invalid questions for repair
+      const handleQuestion = (raw: unknown) => {
+        if (!raw || typeof raw !== 'object') return;
+
+        const q = raw as Record<string, unknown>;
+        // Filter questions to ensure only requested types are included
+        if (!questionTypes.includes(q.type as QuestionType)) return;
+
+        const errors = validateQuestion(q);
+        // Grounded questions must quote the material they were drawn from
+        const sourceError = checkSource?.(q.source);
+        if (sourceError) errors.push(sourceError);
+        if (errors.length > 0) {
+          invalid.push({ question: q, errors });
+          return;
         }
+        acceptQuestion(q);
+      };
 
-        switch (q.type) {
-          case 'multiple-choice':
-            if (!Array.isArray(q.options) || q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (multiple-choice) must have exactly 4 options and a correctAnswer`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
+      // Lower temperature for more consistent output
+      const request = {
+        prompt: buildQuizPrompt(preferences, mix, levels, index + 1, chunks.length, askedQuestions),
+        temperature: 0.0,
+        responseSchema: buildResponseSchema(chunkTypes, isGrounded, partTypes),
+        feature: 'quiz' as const
+      };
 
-          case 'true-false':
-            if (!Array.isArray(q.options) || q.options.length !== 2 || 
-                q.options[0] !== 'True' || q.options[1] !== 'False') {
-              throw new Error(`Question ${index + 1} (true-false) must have options ["True", "False"]`);
-            }
-            if (q.correctAnswer !== 'True' && q.correctAnswer !== 'False') {
-              throw new Error(`Question ${index + 1} correctAnswer must be "True" or "False"`);
+      if (onQuestion) {
+        const extractObjects = createJsonObjectExtractor();
+        await provider.stream(request, (text) => {
+          extractObjects(text).forEach(json => {
+            try {
+              handleQuestion(JSON.parse(json));
+            } catch {
+              console.warn('Skipping malformed question in stream');
             }
-            break;
+          });
+        });
+      } else {
+        parseQuestionArray(await provider.complete(request)).forEach(handleQuestion);
+      }
 
-          case 'multi-select':
-            if (!Array.isArray(q.options) || q.options.length !== 6) {
-              throw new Error(`Question ${index + 1} (multi-select) must have exactly 6 options`);
-            }
-            if (!Array.isArray(q.correctOptions)) {
-              throw new Error(`Question ${index + 1} must have correctOptions array`);
-            }
-            if (q.correctOptions.length < 2 || q.correctOptions.length > 3) {
-              throw new Error(`Question ${index + 1} must have exactly 2 or 3 correct options (found ${q.correctOptions.length})`);
-            }
-            if (!q.correctOptions.every((opt: string) => q.options.includes(opt))) {
-              throw new Error(`Question ${index + 1} correctOptions must match options exactly`);
-            }
-            break;
+      // Regenerate invalid questions in targeted follow-up calls instead of failing the whole quiz
+      for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && invalid.length > 0; attempt++) {
+        const pending = invalid;
+        invalid = [];
+        console.warn(`Repairing ${pending.length} invalid question(s), attempt ${attempt}:`, pending.map(({ errors }) => errors));
 
-          case 'sequence':
-            if (!Array.isArray(q.sequence) || !Array.isArray(q.correctSequence)) {
-              throw new Error(`Question ${index + 1} must have sequence and correctSequence arrays`);
-            }
-            if (q.sequence.length < 4 || q.sequence.length > 6 || 
-                q.sequence.length !== q.correctSequence.length) {
-              throw new Error(`Question ${index + 1} must have 4-6 matching steps in sequence and correctSequence`);
-            }
-            // Verify all steps exist in both arrays
-            const sequenceSet = new Set([...q.sequence, ...q.correctSequence]);
-            if (sequenceSet.size !== q.sequence.length) {
-              throw new Error(`Question ${index + 1} sequence and correctSequence must contain the same steps`);
-            }
-            break;
+        try {
+          const repairedText = await provider.complete({
+            prompt: buildRepairPrompt(pending, preferences),
+            temperature: 0.0,
+            responseSchema: buildResponseSchema([...new Set(pending.map(({ question }) => question.type as QuestionType))], isGrounded, partTypes),
+            feature: 'quiz'
+          });
+          parseQuestionArray(repairedText).slice(0, pending.length).forEach(handleQuestion);
+        } catch (error: any) {
+          console.warn('Question repair failed:', error.message);
+          break;
+        }
+      }
 
-          case 'case-study':
-            if (!q.caseStudy || !q.question || !Array.isArray(q.options) || 
-                q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (case-study) must have caseStudy, question, exactly 4 options, and correctAnswer`);
-            }
-            if (q.caseStudy.length < 100) {
-              throw new Error(`Question ${index + 1} case study description must be at least 100 characters`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
+      if (invalid.length > 0) {
+        console.warn(`Dropped ${invalid.length} question(s) that could not be repaired`);
+      }
 
-          case 'situation':
-            if (!q.situation || !q.question || !Array.isArray(q.options) || 
-                q.options.length !== 4 || !q.correctAnswer) {
-              throw new Error(`Question ${index + 1} (situation) must have situation, question, exactly 4 options, and correctAnswer`);
-            }
-            if (q.situation.length < 100) {
-              throw new Error(`Question ${index + 1} situation description must be at least 100 characters`);
-            }
-            if (!q.options.includes(q.correctAnswer)) {
-              throw new Error(`Question ${index + 1} correctAnswer must match one of the options exactly`);
-            }
-            break;
+      completedChunks++;
+      reportProgress();
+    };
 
-          case 'short-answer':
-            if (!q.correctAnswer || !Array.isArray(q.keywords)) {
-              throw new Error(`Question ${index + 1} (short-answer) must have correctAnswer and keywords array`);
-            }
-            break;
+    reportProgress();
+    const results = await Promise.allSettled(chunks.map(generateChunk));
 
-          case 'fill-blank':
-            if (!q.correctAnswer || !Array.isArray(q.keywords)) {
-              throw new Error(`Question ${index + 1} (fill-blank) must have correctAnswer and keywords array`);
-            }
-            if (!q.text.includes('_____')) {
-              throw new Error(`Question ${index + 1} (fill-blank) must contain _____ in the text`);
-            }
-            break;
-        }
-      });
-
-      return filteredQuestions.map((q: any, index: number) => ({
-        id: index + 1,
-        text: q.text,
-        type: q.type,
-        options: q.options,
-        correctAnswer: q.correctAnswer,
-        explanation: q.explanation,
-        difficulty: q.difficulty,
-        caseStudy: q.caseStudy,
-        situation: q.situation,
-        question: q.question,
-        sequence: q.sequence,
-        correctSequence: q.correctSequence,
-        correctOptions: q.correctOptions,
-        keywords: q.keywords,
-        language: quizLanguage
-      }));
-    } catch (error: any) {
-      console.error('Parse error:', error);
-      throw new Error(`Failed to parse generated questions: ${error.message}. Please check your API key and try again.`);
+    if (questions.length === 0) {
+      // Surface the provider error, if any, rather than a generic message
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      throw failure ? failure.reason : new Error('No valid questions of the requested types were generated');
     }
+
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.warn('A quiz chunk failed to generate:', result.reason);
+      }
+    });
+
+    return questions;
   } catch (error: any) {
     console.error('Quiz generation error:', error);
+    // Quota messages already tell the user what happened and when it resets
+    if (error instanceof QuotaExceededError) {
+      throw error;
+    }
     // Provide more specific error messages based on common issues
     if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-      throw new Error('Invalid API key. Please check your Gemini API key in settings.');
+      throw new Error('Invalid API key. Please check your API key in API Settings.');
     } else if (error.message.includes('403') || error.message.includes('Forbidden')) {
-      throw new Error('API key does not have permission to access Gemini API. Please check your API key settings.');
+      throw new Error('API key does not have permission to access this model. Please check your API key settings.');
     } else if (error.message.includes('429') || error.message.includes('Too Many Requests')) {
       throw new Error('API rate limit exceeded. Please wait a moment and try again.');
     } else if (error.message.includes('500') || error.message.includes('Internal Server Error')) {
-      throw new Error('Gemini API is temporarily unavailable. Please try again later.');
+      throw new Error('The AI provider is temporarily unavailable. Please try again later.');
     } else if (error.message.includes('network') || error.message.includes('fetch')) {
       throw new Error('Network error. Please check your internet connection and try again.');
     }
@@ -404,7 +436,7 @@ CRITICAL REQUIREMENTS:
 
 // Function to get explanation for an answer
 export const getAnswerExplanation = async (
-  apiKey: string,
+  settings: ProviderSettings,
   question: string,
   correctAnswer: string,
   topic: string,
@@ -419,66 +451,85 @@ Requirements:
 - Explain step-by-step if applicable
 - Add examples if helpful`;
 
-  try {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.0
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get explanation: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
-    }
+  if (settings.provider === 'fixture') {
+    return fixtureExplanation(question, correctAnswer, language);
+  }
 
-    return data.candidates[0].content.parts[0].text;
+  try {
+    return await getProvider(settings).complete({ prompt, temperature: 0.0, feature: 'explanation' });
   } catch (error: any) {
     console.error('Explanation error:', error);
     throw new Error(`Failed to get explanation: ${error.message}`);
   }
 };
 
-// Function to evaluate short answer or fill-blank questions
+// A typed answer for the AI grader, with what it should be judged against
+export type TextAnswerToEvaluate = {
+  question: string;
+  userAnswer: string;
+  correctAnswer: string;
+  keywords: string[];
+};
+
+const evaluationSchema: SchemaNode = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      index: { type: 'INTEGER' },
+      isCorrect: { type: 'BOOLEAN' },
+      score: { type: 'NUMBER' },
+      feedback: { type: 'STRING' }
+    },
+    required: ['index', 'isCorrect', 'score', 'feedback']
+  }
+};
+
+// Verdict from a 0-100 score; answers judged correct earn full credit
+const toEvaluation = ({ isCorrect, score, feedback }: { isCorrect: boolean; score: number; feedback: string }): TextEvaluation => ({
+  isCorrect,
+  score: isCorrect ? 1 : Math.min(1, Math.max(0, score / 100)),
+  feedback
+});
+
+// Evaluate short-answer and fill-blank answers that local matching could not settle, all in one call.
+// Returns a verdict per answer in the same order, or null for any the model left out.
 export const evaluateTextAnswer = async (
-  apiKey: string,
-  question: string,
-  userAnswer: string,
-  correctAnswer: string,
-  keywords: string[],
+  settings: ProviderSettings,
+  answers: TextAnswerToEvaluate[],
   language: string
-): Promise<{ isCorrect: boolean; feedback: string; score: number }> => {
-  const prompt = `Evaluate this student answer for the question:
+): Promise<(TextEvaluation | null)[]> => {
+  if (answers.length === 0) return [];
+
+  if (settings.provider === 'fixture') {
+    return answers.map(({ userAnswer, correctAnswer, keywords }) =>
+      toEvaluation(fixtureEvaluation(userAnswer, correctAnswer, keywords)));
+  }
+
+  const prompt = `Evaluate these student answers. Each one is numbered with its "index".
 
+${answers.map(({ question, userAnswer, correctAnswer, keywords }, index) => `Answer ${index}:
 Question: "${question}"
 Correct Answer: "${correctAnswer}"
 Student Answer: "${userAnswer}"
-Key Terms: ${keywords.join(', ')}
+Key Terms: ${keywords.join(', ')}`).join('\n\n')}
 
 Evaluation Criteria:
 1. Check if the student answer contains the core concepts
 2. Look for key terms or their synonyms
-3. Consider spelling variations and abbreviations
+3. Consider spelling variations, abbreviations and transliteration between scripts
 4. Evaluate partial correctness
 5. Provide constructive feedback
 
-Respond in JSON format:
-{
-  "isCorrect": boolean (true if answer demonstrates understanding, even with minor errors),
-  "score": number (0-100, percentage of correctness),
-  "feedback": "detailed explanation in ${language}"
-}
+Respond with a JSON array holding one object per answer:
+[
+  {
+    "index": number (the answer's index),
+    "isCorrect": boolean (true if the answer demonstrates understanding, even with minor errors),
+    "score": number (0-100, percentage of correctness),
+    "feedback": "one or two sentences in ${language}"
+  }
+]
 
 Be lenient with:
 - Minor spelling mistakes
@@ -491,83 +542,28 @@ Be strict with:
 - Missing core elements
 - Contradictory information`;
 
-  try {
-    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        prompt,
-        apiKey,
-        temperature: 0.1
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to evaluate answer: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
-    }
+  const responseText = await getProvider(settings).complete({
+    prompt,
+    temperature: 0.1,
+    responseSchema: evaluationSchema,
+    feature: 'evaluation'
+  });
 
-    const responseText = data.candidates[0].content.parts[0].text;
-    
-    // Extract JSON from the response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      // Fallback evaluation
-      const userLower = userAnswer.toLowerCase().trim();
-      const correctLower = correctAnswer.toLowerCase().trim();
-      const hasKeywords = keywords.some(keyword => 
-        userLower.includes(keyword.toLowerCase())
-      );
-      
-      return {
-        isCorrect: userLower === correctLower || hasKeywords,
-        score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-        feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains key concepts but' : 'does not match'} the expected answer "${correctAnswer}".`
-      };
-    }
+  const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('No valid JSON found in the evaluation response');
+  }
+  const verdicts: unknown = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(verdicts)) {
+    throw new Error('Invalid evaluation format - expected an array of verdicts');
+  }
 
-    try {
-      const evaluation = JSON.parse(jsonMatch[0]);
-      return {
-        isCorrect: evaluation.isCorrect || false,
-        score: evaluation.score || 0,
-        feedback: evaluation.feedback || 'No feedback available'
-      };
-    } catch (parseError) {
-      // Fallback evaluation
-      const userLower = userAnswer.toLowerCase().trim();
-      const correctLower = correctAnswer.toLowerCase().trim();
-      const hasKeywords = keywords.some(keyword => 
-        userLower.includes(keyword.toLowerCase())
-      );
-      
-      return {
-        isCorrect: userLower === correctLower || hasKeywords,
-        score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-        feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains key concepts but may need refinement' : 'does not match the expected answer'}. The correct answer is "${correctAnswer}".`
-      };
+  const results: (TextEvaluation | null)[] = answers.map(() => null);
+  verdicts.forEach(verdict => {
+    const { index, isCorrect, score, feedback } = verdict || {};
+    if (Number.isInteger(index) && index >= 0 && index < answers.length && typeof score === 'number') {
+      results[index] = toEvaluation({ isCorrect: isCorrect === true, score, feedback: String(feedback || '') });
     }
-  } catch (error: any) {
-    console.error('Answer evaluation error:', error);
-    // Fallback evaluation
-    const userLower = userAnswer.toLowerCase().trim();
-    const correctLower = correctAnswer.toLowerCase().trim();
-    const hasKeywords = keywords && keywords.some(keyword => 
-      userLower.includes(keyword.toLowerCase())
-    );
-    
-    return {
-      isCorrect: userLower === correctLower || hasKeywords,
-      score: userLower === correctLower ? 100 : hasKeywords ? 75 : 0,
-      feedback: `Your answer "${userAnswer}" ${hasKeywords ? 'contains some correct elements' : 'needs improvement'}. The expected answer is "${correctAnswer}".`
-    };
-  }
-};
\ No newline at end of file
+  });
+  return results;
+};
@@ -0,0 +1,29 @@
+// Math in generated text is delimited LaTeX: \( ... \) inline and \[ ... \] displayed on its own line.
+// Dollar signs are never treated as delimiters, so prices cannot be mistaken for math.
+const MATH_PATTERN = /\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// A run of plain text, or of LaTeX when `display` is set
+export type MathSegment = { text: string; display?: 'inline' | 'block' };
+
+// Split text into plain and LaTeX runs, in order
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push(match[1] !== undefined ? { text: match[1], display: 'inline' } : { text: match[2], display: 'block' });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Text with the delimiters dropped, for places that cannot typeset such as dropdown options
+export const stripMath = (text: string) =>
+  text.replace(MATH_PATTERN, (_, inline: string | undefined, block: string | undefined) => (inline ?? block ?? '').trim());
+
+// Whether every math delimiter in the text is closed
+export const isMathBalanced = (text: string) => {
+  const rest = text.replace(MATH_PATTERN, '');
+  return !/\\[()[\]]/.test(rest);
+};
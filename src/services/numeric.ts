@@ -0,0 +1,247 @@
+import { Question } from '../types';
+
+type NumericQuestion = Extract<Question, { type: 'numeric' }>;
+
+// How a unit converts to its dimension's base unit: base = value * factor + offset
+type UnitDefinition = { dimension: string; factor: number; offset?: number };
+
+// Units answers may be given in. Keys are normalized with normalizeUnit, so "m/s²" and
+// "m/s^2" share an entry. Currencies are listed so they parse, but never convert.
+const units: Record<string, UnitDefinition> = {
+  // Length
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1e3 },
+  cm: { dimension: 'length', factor: 1e-2 },
+  mm: { dimension: 'length', factor: 1e-3 },
+  um: { dimension: 'length', factor: 1e-6 },
+  nm: { dimension: 'length', factor: 1e-9 },
+  in: { dimension: 'length', factor: 0.0254 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  mi: { dimension: 'length', factor: 1609.344 },
+  // Mass
+  kg: { dimension: 'mass', factor: 1 },
+  g: { dimension: 'mass', factor: 1e-3 },
+  mg: { dimension: 'mass', factor: 1e-6 },
+  t: { dimension: 'mass', factor: 1e3 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  // Time
+  s: { dimension: 'time', factor: 1 },
+  ms: { dimension: 'time', factor: 1e-3 },
+  min: { dimension: 'time', factor: 60 },
+  h: { dimension: 'time', factor: 3600 },
+  hr: { dimension: 'time', factor: 3600 },
+  // Speed and acceleration
+  'm/s': { dimension: 'speed', factor: 1 },
+  'km/h': { dimension: 'speed', factor: 1 / 3.6 },
+  'km/hr': { dimension: 'speed', factor: 1 / 3.6 },
+  'm/s^2': { dimension: 'acceleration', factor: 1 },
+  'cm/s^2': { dimension: 'acceleration', factor: 1e-2 },
+  // Force, energy, power
+  N: { dimension: 'force', factor: 1 },
+  kN: { dimension: 'force', factor: 1e3 },
+  J: { dimension: 'energy', factor: 1 },
+  kJ: { dimension: 'energy', factor: 1e3 },
+  cal: { dimension: 'energy', factor: 4.184 },
+  kcal: { dimension: 'energy', factor: 4184 },
+  eV: { dimension: 'energy', factor: 1.602176634e-19 },
+  kWh: { dimension: 'energy', factor: 3.6e6 },
+  W: { dimension: 'power', factor: 1 },
+  kW: { dimension: 'power', factor: 1e3 },
+  // Pressure
+  Pa: { dimension: 'pressure', factor: 1 },
+  kPa: { dimension: 'pressure', factor: 1e3 },
+  bar: { dimension: 'pressure', factor: 1e5 },
+  atm: { dimension: 'pressure', factor: 101325 },
+  mmHg: { dimension: 'pressure', factor: 133.322387415 },
+  // Volume, amount and concentration
+  L: { dimension: 'volume', factor: 1e-3 },
+  mL: { dimension: 'volume', factor: 1e-6 },
+  'm^3': { dimension: 'volume', factor: 1 },
+  'cm^3': { dimension: 'volume', factor: 1e-6 },
+  mol: { dimension: 'amount', factor: 1 },
+  mmol: { dimension: 'amount', factor: 1e-3 },
+  M: { dimension: 'concentration', factor: 1 },
+  mM: { dimension: 'concentration', factor: 1e-3 },
+  'mol/L': { dimension: 'concentration', factor: 1 },
+  // Electricity and frequency
+  A: { dimension: 'current', factor: 1 },
+  mA: { dimension: 'current', factor: 1e-3 },
+  V: { dimension: 'voltage', factor: 1 },
+  mV: { dimension: 'voltage', factor: 1e-3 },
+  kV: { dimension: 'voltage', factor: 1e3 },
+  ohm: { dimension: 'resistance', factor: 1 },
+  kohm: { dimension: 'resistance', factor: 1e3 },
+  C: { dimension: 'charge', factor: 1 },
+  Hz: { dimension: 'frequency', factor: 1 },
+  kHz: { dimension: 'frequency', factor: 1e3 },
+  MHz: { dimension: 'frequency', factor: 1e6 },
+  // Temperature and angle
+  K: { dimension: 'temperature', factor: 1 },
+  '°C': { dimension: 'temperature', factor: 1, offset: 273.15 },
+  '°F': { dimension: 'temperature', factor: 5 / 9, offset: 273.15 - (32 * 5) / 9 },
+  rad: { dimension: 'angle', factor: 1 },
+  '°': { dimension: 'angle', factor: Math.PI / 180 },
+  deg: { dimension: 'angle', factor: Math.PI / 180 },
+  // Currencies
+  '₹': { dimension: 'INR', factor: 1 },
+  Rs: { dimension: 'INR', factor: 1 },
+  INR: { dimension: 'INR', factor: 1 },
+  $: { dimension: 'USD', factor: 1 },
+  USD: { dimension: 'USD', factor: 1 },
+  '€': { dimension: 'EUR', factor: 1 },
+  EUR: { dimension: 'EUR', factor: 1 },
+};
+
+// Spellings that mean the same unit
+const unitAliases: Record<string, string> = {
+  'μm': 'um',
+  'µm': 'um',
+  'Ω': 'ohm',
+  'kΩ': 'kohm',
+  'ms^-2': 'm/s^2',
+  'ms-2': 'm/s^2',
+  'kmph': 'km/h',
+  'l': 'L',
+  'ml': 'mL',
+  'cc': 'cm^3',
+  'degC': '°C',
+  'degF': '°F',
+  'Rs.': 'Rs',
+  'sec': 's',
+  'secs': 's',
+  'mins': 'min',
+  'hrs': 'hr',
+  'degrees': '°',
+};
+
+const normalizeUnit = (unit: string) => {
+  const compact = unit
+    .trim()
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/\s+/g, '');
+  return unitAliases[compact] || compact;
+};
+
+// Convert a value between two units, or return null when they are not interchangeable.
+// Units missing from the table only match themselves.
+export const convertUnit = (value: number, from: string, to: string): number | null => {
+  const fromKey = normalizeUnit(from);
+  const toKey = normalizeUnit(to);
+  if (fromKey === toKey) return value;
+
+  const source = units[fromKey];
+  const target = units[toKey];
+  if (!source || !target || source.dimension !== target.dimension) return null;
+
+  const base = value * source.factor + (source.offset || 0);
+  return (base - (target.offset || 0)) / target.factor;
+};
+
+export const isKnownUnit = (unit: string) => normalizeUnit(unit) in units;
+
+// Whether two spellings name the same unit, such as "₹" and "Rs"
+const isSameUnit = (a: string, b: string) => {
+  const first = units[normalizeUnit(a)];
+  const second = units[normalizeUnit(b)];
+  return normalizeUnit(a) === normalizeUnit(b) || (!!first && !!second &&
+    first.dimension === second.dimension && first.factor === second.factor && first.offset === second.offset);
+};
+
+// A number as typed by the user
+export type ParsedNumber = {
+  value: number;
+  unit: string | null;
+  form: 'decimal' | 'fraction' | 'percent';
+};
+
+const NUMBER_PATTERN = /^([-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?)(?:\s*[x×*·]\s*10\s*\^\s*([-+]?\d+))?/i;
+
+// Parse answers such as "9.8", "-1.2e3", "3 × 10^8 m/s", "1/2", "50%" or "₹1,250.50"
+export const parseNumber = (input: string): ParsedNumber | null => {
+  let text = input
+    .trim()
+    .replace(/[−–]/g, '-')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1'); // Thousands separators
+
+  // Currency symbols are written before the amount
+  let prefixUnit: string | null = null;
+  const prefix = text.match(/^(₹|\$|€|Rs\.?|INR|USD|EUR)\s*/);
+  if (prefix) {
+    prefixUnit = prefix[1];
+    text = text.slice(prefix[0].length);
+  }
+
+  const fraction = text.match(/^([-+]?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)(?![\d.])\s*(.*)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    return { value: Number(fraction[1]) / denominator, unit: prefixUnit || fraction[3] || null, form: 'fraction' };
+  }
+
+  const number = text.match(NUMBER_PATTERN);
+  if (!number) return null;
+
+  let value = Number(number[1]) * (number[2] ? 10 ** Number(number[2]) : 1);
+  let rest = text.slice(number[0].length).trim();
+  let form: ParsedNumber['form'] = 'decimal';
+
+  if (rest.startsWith('%')) {
+    value /= 100;
+    form = 'percent';
+    rest = rest.slice(1).trim();
+  }
+
+  if (!Number.isFinite(value)) return null;
+  return { value, unit: prefixUnit || rest || null, form };
+};
+
+// Default tolerance when a question sets none, which only absorbs floating point error
+const DEFAULT_RELATIVE_TOLERANCE = 1e-9;
+
+// Grade a numeric answer: parse it, convert it to the question's unit and compare within tolerance.
+// Fractions and percentages are only accepted when the question allows them.
+export const isNumericAnswerCorrect = (question: NumericQuestion, input: string): boolean => {
+  const parsed = parseNumber(input);
+  if (!parsed) return false;
+
+  let { value } = parsed;
+  if (parsed.form === 'fraction' && !question.acceptFractions) return false;
+  if (parsed.form === 'percent') {
+    // A question measured in percent takes "50%" as 50 of its own unit
+    if (question.unit === '%') {
+      value *= 100;
+    } else if (!question.acceptPercent) {
+      return false;
+    }
+  }
+
+  if (parsed.unit && question.unit !== '%') {
+    const accepted = [question.unit, ...(question.acceptedUnits || [])].filter((unit): unit is string => !!unit);
+    if (!accepted.some(unit => isSameUnit(unit, parsed.unit!))) return false;
+    if (question.unit) {
+      const converted = convertUnit(value, parsed.unit, question.unit);
+      if (converted === null) return false;
+      value = converted;
+    }
+  }
+
+  const { correctValue, absoluteTolerance = 0, relativeTolerance = 0 } = question;
+  const tolerance = Math.max(
+    absoluteTolerance,
+    relativeTolerance * Math.abs(correctValue),
+    DEFAULT_RELATIVE_TOLERANCE * Math.abs(correctValue)
+  );
+  return Math.abs(value - correctValue) <= tolerance;
+};
+
+// The correct answer with its unit and tolerance, for display
+export const formatNumericAnswer = (question: NumericQuestion) => {
+  const unit = question.unit ? (question.unit === '%' ? '%' : ` ${question.unit}`) : '';
+  const tolerance = question.absoluteTolerance
+    ? ` (±${question.absoluteTolerance}${unit})`
+    : question.relativeTolerance
+      ? ` (±${+(question.relativeTolerance * 100).toPrecision(3)}%)`
+      : '';
+  return `${question.correctValue}${unit}${tolerance}`;
+};
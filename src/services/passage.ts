@@ -0,0 +1,32 @@
+import { PassagePart, Question } from '../types';
+
+type PassageQuestion = Extract<Question, { type: 'passage' }>;
+
+// Read a passage's answer back into one answer per part; parts left blank are ''
+export const parsePartAnswers = (answer: string | undefined, partCount: number): string[] => {
+  let parsed: unknown = [];
+  try {
+    parsed = answer ? JSON.parse(answer) : [];
+  } catch {
+    // Treat an unreadable answer as unanswered
+  }
+  const answers = Array.isArray(parsed) ? parsed : [];
+  return Array.from({ length: partCount }, (_, index) =>
+    typeof answers[index] === 'string' ? answers[index] : ''
+  );
+};
+
+// Store the parts' answers as the passage's single answer, or '' when none is answered
+export const encodePartAnswers = (answers: string[]) =>
+  answers.some(Boolean) ? JSON.stringify(answers) : '';
+
+// Record one part's answer in the passage's answer
+export const answerPart = (question: PassageQuestion, answer: string | undefined, partIndex: number, partAnswer: string) => {
+  const answers = parsePartAnswers(answer, question.parts.length);
+  answers[partIndex] = partAnswer;
+  return encodePartAnswers(answers);
+};
+
+// The part shown at a position, or null for questions without parts
+export const getPart = (question: Question, partIndex: number): PassagePart | null =>
+  question.type === 'passage' ? question.parts[partIndex] ?? null : null;
@@ -0,0 +1,293 @@
+import { AIFeature, AIProvider, ApiKeyData, GeminiKeyStatus, ProviderSettings } from '../types';
+import { SchemaNode } from './questionSchemas';
+import { supabase } from './supabase';
+
+// A single text completion request, independent of the backing model provider.
+// Providers that support structured output constrain the response to responseSchema;
+// the others rely on the prompt and client-side validation.
+export interface CompletionRequest {
+  prompt: string;
+  temperature?: number;
+  responseSchema?: SchemaNode;
+  feature?: AIFeature; // Usage is metered and limited per feature by the gemini and openai proxies
+}
+
+// Raised when the gemini or openai proxy refuses a request because a daily quota is used up.
+// Its message is written for the user and should be shown as-is.
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Common interface implemented by every LLM provider adapter
+export interface LLMProvider {
+  complete: (request: CompletionRequest) => Promise<string>;
+  stream: (request: CompletionRequest, onText: (text: string) => void) => Promise<void>;
+}
+
+// Display information and defaults for each supported provider
+export const providerOptions: Record<AIProvider, {
+  name: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+}> = {
+  gemini: {
+    name: 'Google Gemini',
+    description: 'Hosted Gemini models, proxied through the QuizGenius server',
+    defaultModel: 'gemini-2.0-flash',
+    requiresApiKey: true,
+  },
+  openai: {
+    name: 'OpenAI-compatible',
+    description: 'OpenAI or any https endpoint implementing the chat completions API, proxied through the QuizGenius server',
+    defaultModel: 'gpt-4o-mini',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    requiresApiKey: true,
+  },
+  ollama: {
+    name: 'Ollama (local)',
+    description: 'A model served by Ollama on your own machine, called from your browser and not metered',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: 'http://localhost:11434',
+    requiresApiKey: false,
+  },
+  fixture: {
+    name: 'Offline fixtures',
+    description: 'Deterministic sample questions for development and tests, no network needed',
+    defaultModel: 'fixture',
+    requiresApiKey: false,
+  },
+};
+
+// Resolve the settings for the user's selected provider, or null if it is not configured yet.
+// Setting VITE_LLM_PROVIDER=fixture forces the offline fixtures regardless of saved settings.
+export const resolveProviderSettings = (data: ApiKeyData | null): ProviderSettings | null => {
+  if (import.meta.env.VITE_LLM_PROVIDER === 'fixture') {
+    return { provider: 'fixture', model: providerOptions.fixture.defaultModel };
+  }
+  if (!data) return null;
+
+  const provider = data.provider || 'gemini';
+  const { defaultModel, defaultBaseUrl } = providerOptions[provider];
+  const model = data.model || defaultModel;
+
+  switch (provider) {
+    case 'gemini':
+      // The key stays on the server, so only whether one is stored matters here
+      return data.geminiKeyStatus !== 'missing' ? { provider, model } : null;
+    case 'openai':
+      // The openai function reads the key and endpoint from the saved settings
+      return data.openaiKeyHint ? { provider, model } : null;
+    case 'ollama':
+      return { provider, model, baseUrl: data.ollamaBaseUrl || defaultBaseUrl };
+    case 'fixture':
+      return { provider, model };
+  }
+};
+
+// Build a descriptive error from a failed provider response
+const responseError = async (response: Response, providerName: string) => {
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  try {
+    const errorData = await response.json();
+    if (errorData.code === 'quota_exceeded') {
+      return new QuotaExceededError(errorData.error);
+    }
+    if (typeof errorData.error === 'string') {
+      errorMessage = `${providerName} error: ${errorData.error}`;
+    } else if (errorData.error?.message) {
+      errorMessage = `${providerName} error (${response.status}): ${errorData.error.message}`;
+    } else if (errorData.message) {
+      errorMessage = `API error: ${errorData.message}`;
+    }
+  } catch {
+    // Keep the HTTP status message if the body is not JSON
+  }
+  return new Error(errorMessage);
+};
+
+// Read a streaming response body line by line
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) {
+    throw new Error('Streaming responses are not supported in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => onLine(line.trim()));
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+// Parse a JSON payload from a stream, skipping malformed chunks instead of aborting
+const parseChunk = (payload: string) => {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    console.warn('Skipping malformed stream chunk');
+    return null;
+  }
+};
+
+// The gemini and openai edge functions hold the user's key, so it is identified by their session
+// alone. They also meter usage and enforce quotas.
+const callProxyFunction = async (name: 'gemini' | 'openai', body: Record<string, unknown>, providerName: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw await responseError(response, providerName);
+  }
+  return response;
+};
+
+const callGeminiFunction = (body: Record<string, unknown>) => callProxyFunction('gemini', body, 'Gemini API');
+
+// Check the stored key with Google; the result is also saved as the key's status
+export const verifyGeminiApiKey = async (): Promise<GeminiKeyStatus> => {
+  const { status } = await (await callGeminiFunction({ action: 'verify' })).json();
+  return status;
+};
+
+// Gemini requests go through the gemini edge function so the key never hits Google from the browser
+const createGeminiProvider = (settings: ProviderSettings): LLMProvider => {
+  const request = ({ prompt, temperature = 0.0, responseSchema, feature = 'quiz' }: CompletionRequest, stream: boolean) =>
+    callGeminiFunction({
+      prompt,
+      model: settings.model,
+      temperature,
+      responseSchema,
+      stream,
+      feature
+    });
+
+  return {
+    complete: async (completion) => {
+      const data = await (await request(completion, false)).json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new Error('Invalid response format from Gemini API - no content generated');
+      }
+      return text;
+    },
+    stream: async (completion, onText) => {
+      await readLines(await request(completion, true), (line) => {
+        if (!line.startsWith('data:')) return;
+        const text = parseChunk(line.slice(5).trim())?.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) onText(text);
+      });
+    },
+  };
+};
+
+// Any endpoint implementing the OpenAI chat completions API, called through the openai edge
+// function, which relays the endpoint's responses unchanged
+const createOpenAIProvider = (settings: ProviderSettings): LLMProvider => {
+  const request = ({ prompt, temperature = 0.0, feature = 'quiz' }: CompletionRequest, stream: boolean) =>
+    callProxyFunction('openai', {
+      prompt,
+      model: settings.model,
+      temperature,
+      stream,
+      feature
+    }, 'OpenAI API');
+
+  return {
+    complete: async (completion) => {
+      const data = await (await request(completion, false)).json();
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error('Invalid response format from OpenAI API - no content generated');
+      }
+      return text;
+    },
+    stream: async (completion, onText) => {
+      await readLines(await request(completion, true), (line) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const text = parseChunk(payload)?.choices?.[0]?.delta?.content;
+        if (text) onText(text);
+      });
+    },
+  };
+};
+
+// A local Ollama server, which streams newline-delimited JSON. The server cannot reach it, so its
+// requests are not metered.
+const createOllamaProvider = (settings: ProviderSettings): LLMProvider => {
+  const request = async ({ prompt, temperature = 0.0 }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${settings.baseUrl?.replace(/\/$/, '')}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        prompt,
+        stream,
+        options: { temperature }
+      })
+    });
+
+    if (!response.ok) {
+      throw await responseError(response, 'Ollama');
+    }
+    return response;
+  };
+
+  return {
+    complete: async (completion) => {
+      const data = await (await request(completion, false)).json();
+      if (!data.response) {
+        throw new Error('Invalid response format from Ollama - no content generated');
+      }
+      return data.response;
+    },
+    stream: async (completion, onText) => {
+      await readLines(await request(completion, true), (line) => {
+        if (!line) return;
+        const text = parseChunk(line)?.response;
+        if (text) onText(text);
+      });
+    },
+  };
+};
+
+// Create the adapter for the given provider settings
+export const getProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'ollama':
+      return createOllamaProvider(settings);
+    case 'fixture':
+      // Fixtures are served by the quiz service directly and never see a prompt
+      throw new Error('The fixture provider does not accept free-form prompts');
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
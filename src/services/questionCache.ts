@@ -0,0 +1,137 @@
+import { GenerationProgress, ProviderSettings, Question, QuizPreferences } from '../types';
+import { supabase } from './supabase';
+import { generateQuiz } from './gemini';
+import { contributeToQuestionPool } from './questionPool';
+import { validateQuestion } from './questionSchemas';
+import { bloomLevels } from '../data/bloomLevels';
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const normalize = (value?: string) => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Cache key shared by every quiz with the same subject, difficulty, language and question types,
+// and the same cognitive level mix when one is set (quizzes without one keep their existing key)
+export const getQuizCacheKey = (preferences: QuizPreferences) => {
+  const { course, topic, subtopic, difficulty, language, questionTypes, bloomDistribution } = preferences;
+  return sha256(JSON.stringify([
+    normalize(course),
+    normalize(topic),
+    normalize(subtopic),
+    difficulty,
+    language,
+    [...new Set(questionTypes)].sort(),
+    ...(bloomDistribution ? [bloomLevels.map(({ id }) => bloomDistribution[id] || 0)] : [])
+  ]));
+};
+
+// Questions from private study material and offline fixtures never enter the shared cache
+const isCacheable = (settings: ProviderSettings | null, preferences: QuizPreferences) =>
+  !preferences.studyMaterial?.length && settings?.provider !== 'fixture';
+
+// Draw unseen cached questions for a key; competitions pass trackSeen = false
+const drawCachedQuestions = async (cacheKey: string, limit: number, trackSeen: boolean): Promise<Question[]> => {
+  const { data, error } = await supabase.rpc('draw_cached_questions', {
+    p_cache_key: cacheKey,
+    p_limit: limit,
+    p_track_seen: trackSeen
+  });
+
+  if (error) throw error;
+  // Cached rows are shared between users, so they get the same checks as fresh model output
+  return (data || [])
+    .map((row: { question: Question }) => row.question)
+    .filter((question: Question) => {
+      const errors = validateQuestion(question);
+      if (errors.length > 0) console.warn('Skipping invalid cached question:', errors);
+      return errors.length === 0;
+    });
+};
+
+// Store newly generated questions, skipping ones already cached for the key.
+// The question-pool function only caches questions the gemini or openai function recorded
+// generating for the user, so questions from other providers are never sent.
+const cacheQuestions = async (cacheKey: string, questions: Question[], trackSeen: boolean) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session || questions.length === 0) return;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/question-pool`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action: 'cache', cacheKey, questions, trackSeen })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Question caching failed (HTTP ${response.status})`);
+  }
+};
+
+// Build a quiz from unseen cached questions first and generate only the shortfall.
+// Questions newly generated through the gemini or openai function are added to the cache for everyone
+// with the same preferences, and all new questions are offered to the random-match pool.
+// Without provider settings the quiz is served from the cache alone.
+// askedQuestions are questions the quiz already has, which generation must not repeat.
+export const generateCachedQuiz = async (
+  settings: ProviderSettings | null,
+  preferences: QuizPreferences,
+  callbacks: {
+    onQuestion?: (question: Question) => void;
+    onProgress?: (progress: GenerationProgress) => void;
+  } = {},
+  { trackSeen = true, askedQuestions = [] }: { trackSeen?: boolean; askedQuestions?: Question[] } = {}
+): Promise<Question[]> => {
+  const { questionCount, language } = preferences;
+  const { onQuestion, onProgress } = callbacks;
+
+  if (!isCacheable(settings, preferences)) {
+    if (!settings) throw new Error('AI provider not configured');
+    return generateQuiz(settings, preferences, callbacks, { askedQuestions });
+  }
+
+  const cacheKey = await getQuizCacheKey(preferences);
+  let cached: Question[] = [];
+  try {
+    cached = (await drawCachedQuestions(cacheKey, questionCount, trackSeen))
+      .map((question, index) => ({ ...question, id: index + 1, language }));
+  } catch (error: any) {
+    // The cache only saves quota, so fall back to generating everything
+    console.warn('Question cache unavailable:', error.message);
+  }
+  cached.forEach(question => onQuestion?.(question));
+
+  const remaining = questionCount - cached.length;
+  if (remaining <= 0 || !settings) {
+    if (cached.length === 0) {
+      throw new Error('No cached questions match these preferences and no AI provider is configured');
+    }
+    onProgress?.({ completedChunks: 1, totalChunks: 1, questionsGenerated: cached.length, questionCount });
+    return cached;
+  }
+
+  // Generated questions are numbered after the cached ones
+  const offset = (question: Question): Question => ({ ...question, id: question.id + cached.length });
+  const generated = (await generateQuiz(settings, { ...preferences, questionCount: remaining }, {
+    onQuestion: onQuestion && (question => onQuestion(offset(question))),
+    onProgress: onProgress && (progress => onProgress({
+      ...progress,
+      questionsGenerated: progress.questionsGenerated + cached.length,
+      questionCount
+    }))
+  }, { askedQuestions })).map(offset);
+
+  if (settings.provider === 'gemini' || settings.provider === 'openai') {
+    cacheQuestions(cacheKey, generated, trackSeen).catch(error => {
+      console.warn('Failed to cache generated questions:', error.message);
+    });
+  }
+  contributeToQuestionPool(preferences, generated).catch(error => {
+    console.warn('Failed to contribute questions to the pool:', error.message);
+  });
+
+  return [...cached, ...generated];
+};
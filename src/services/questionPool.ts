@@ -0,0 +1,35 @@
+import { Question, QuizPreferences } from '../types';
+import { supabase } from './supabase';
+
+// Random matches are made of these types, so only they are worth pooling
+export const RANDOM_MATCH_QUESTION_TYPES = ['multiple-choice', 'true-false'];
+
+// Offer freshly generated questions to the random-match pool for the quiz's course.
+// The question-pool function vets them and holds them until the model has answered them the
+// same way, so they can be drawn for a match only once verified.
+export const contributeToQuestionPool = async (preferences: QuizPreferences, questions: Question[]) => {
+  const poolQuestions = questions.filter(question => RANDOM_MATCH_QUESTION_TYPES.includes(question.type));
+  if (!preferences.course?.trim() || poolQuestions.length === 0) return;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/question-pool`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      action: 'contribute',
+      topic: preferences.course,
+      difficulty: preferences.difficulty,
+      language: preferences.language,
+      questions: poolQuestions
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Question pool contribution failed (HTTP ${response.status})`);
+  }
+};
@@ -0,0 +1,842 @@
+import { PassagePartType, QuestionType } from '../types';
+import { convertUnit, isKnownUnit } from './numeric';
+import { codeLanguages } from '../data/codeLanguages';
+import { bloomLevels } from '../data/bloomLevels';
+import { isMathBalanced } from './math';
+import { parseExpression } from './expression';
+import { splitCloze } from './cloze';
+
+// Subset of the OpenAPI schema dialect that Gemini accepts as a responseSchema.
+// minLength is only enforced on the client and is stripped before sending.
+export interface SchemaNode {
+  type: 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN' | 'ARRAY' | 'OBJECT';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: SchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+}
+
+// Cross-field constraints that a structural schema cannot express
+export type QuestionRule =
+  | { kind: 'memberOf'; field: string; of: string }
+  | { kind: 'subsetOf'; field: string; of: string }
+  | { kind: 'sameItems'; field: string; as: string }
+  | { kind: 'sameLength'; field: string; as: string }
+  | { kind: 'convertibleUnits'; field: string; to: string }
+  | { kind: 'differsFrom'; field: string; from: string }
+  | { kind: 'validParts'; field: string }
+  | { kind: 'requiredWith'; field: string; with: string }
+  | { kind: 'deterministicCode'; field: string }
+  | { kind: 'balancedMath'; field: string }
+  | { kind: 'expressionAnswer'; field: string }
+  | { kind: 'numberedBlanks'; field: string; blanks: string }
+  | { kind: 'blankChoices'; field: string }
+  | { kind: 'distinctItems'; field: string }
+  | { kind: 'equals'; field: string; value: unknown }
+  | { kind: 'includesText'; field: string; text: string };
+
+// Everything the app knows about generating and checking one question type
+export interface QuestionSchema {
+  instructions: string; // Prompt block describing the type to the model
+  schema: SchemaNode;
+  rules: QuestionRule[];
+}
+
+const baseRequired = ['type', 'text', 'explanation', 'bloomLevel'];
+
+// Rules every question type follows
+const baseRules: QuestionRule[] = [
+  { kind: 'requiredWith', field: 'codeLanguage', with: 'code' },
+  ...['text', 'question', 'explanation', 'options', 'correctAnswer', 'correctOptions', 'sequence', 'correctSequence',
+    'leftItems', 'rightItems', 'correctMatches', 'assertion', 'reason', 'passage', 'cloze']
+    .map((field): QuestionRule => ({ kind: 'balancedMath', field })),
+];
+
+const answerModeNode: SchemaNode = { type: 'STRING', enum: ['text', 'math-expression'] };
+
+const codeLanguageNode: SchemaNode = { type: 'STRING', enum: codeLanguages.map(language => language.id) };
+
+// Things a predict-the-output snippet must not depend on, since its output would vary from run to run
+const nondeterministicCode: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\binput\s*\(|\bprompt\s*\(|\bScanner\b|\bscanf\s*\(|\bcin\s*>>|\bread(?:line|Line|_line)\s*\(|\bgets\b|\bread\s+-/, reason: 'user input' },
+  { pattern: /\brandom\b|Math\.random|\brand\s*\(|\bRandom\b|\buuid/i, reason: 'random numbers' },
+  { pattern: /Date\.now|new Date\(\s*\)|datetime\.now|time\.time\s*\(|System\.currentTimeMillis|System\.nanoTime|\btime\s*\(\s*(?:NULL|nullptr|0)?\s*\)|LocalDateTime\.now|\bNOW\s*\(\s*\)|\$\(date/, reason: 'the current time' },
+  { pattern: /\bopen\s*\(|\bfopen\s*\(|\bfetch\s*\(|\brequests\.|\bFile(?:Reader|InputStream)?\b|\bfs\./, reason: 'files or the network' },
+  { pattern: /\bthreading\b|\bThread\b|\bgo\s+func\b|\bsetTimeout\b|\basyncio\b/, reason: 'concurrency' },
+];
+
+// Build a question schema; `optional` properties are checked when present but may be left out
+const questionObject = (
+  type: QuestionType,
+  properties: Record<string, SchemaNode>,
+  optional: Record<string, SchemaNode> = {}
+): SchemaNode => ({
+  type: 'OBJECT',
+  properties: {
+    type: { type: 'STRING', enum: [type] },
+    text: { type: 'STRING', minLength: 1 },
+    explanation: { type: 'STRING', minLength: 1 },
+    difficulty: { type: 'STRING', enum: ['basic', 'intermediate', 'advanced'] },
+    bloomLevel: { type: 'STRING', enum: bloomLevels.map(level => level.id), description: "Cognitive level of Bloom's taxonomy the question targets" },
+    source: { type: 'STRING', minLength: 1, description: 'Verbatim excerpt of the study material supporting the answer' },
+    code: { type: 'STRING', minLength: 1, description: 'Code snippet the question refers to, with its original line breaks and indentation' },
+    codeLanguage: codeLanguageNode,
+    ...properties,
+    ...optional,
+  },
+  required: [...baseRequired, ...Object.keys(properties)],
+});
+
+const stringArray = (minItems: number, maxItems?: number): SchemaNode => ({
+  type: 'ARRAY',
+  items: { type: 'STRING', minLength: 1 },
+  minItems,
+  maxItems,
+});
+
+export const questionSchemas: Record<QuestionType, QuestionSchema> = {
+  'multiple-choice': {
+    instructions: `For multiple-choice:
+- MUST have "text": clear, complete question
+- MUST have "options": array of EXACTLY 4 distinct, complete answers
+- MUST have "correctAnswer": exact match of the correct option
+- MUST have "explanation": detailed explanation of why the answer is correct
+Example:
+{
+  "type": "multiple-choice",
+  "text": "What is the primary function of a CPU in a computer system?",
+  "options": [
+    "Execute instructions and perform calculations",
+    "Store long-term data permanently",
+    "Display graphics on the monitor",
+    "Connect to the internet"
+  ],
+  "correctAnswer": "Execute instructions and perform calculations",
+  "explanation": "The CPU (Central Processing Unit) is the brain of the computer..."
+}`,
+    schema: questionObject('multiple-choice', {
+      options: stringArray(4, 4),
+      correctAnswer: { type: 'STRING', minLength: 1 },
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'options' },
+      { kind: 'memberOf', field: 'correctAnswer', of: 'options' },
+    ],
+  },
+  'true-false': {
+    instructions: `For true-false:
+- MUST have "text": clear, complete statement to evaluate
+- MUST have "options": ["True", "False"]
+- MUST have "correctAnswer": either "True" or "False"
+- MUST have "explanation": detailed explanation of why true or false
+Example:
+{
+  "type": "true-false",
+  "text": "The binary number system uses only 0s and 1s.",
+  "options": ["True", "False"],
+  "correctAnswer": "True",
+  "explanation": "The binary number system is a base-2 system..."
+}`,
+    schema: questionObject('true-false', {
+      options: { type: 'ARRAY', items: { type: 'STRING', enum: ['True', 'False'] }, minItems: 2, maxItems: 2 },
+      correctAnswer: { type: 'STRING', enum: ['True', 'False'] },
+    }),
+    rules: [
+      { kind: 'equals', field: 'options', value: ['True', 'False'] },
+    ],
+  },
+  'multi-select': {
+    instructions: `For multi-select:
+- MUST have "text": clear question specifying "Select all that apply"
+- MUST have "options": array of EXACTLY 6 complete, distinct options
+- MUST have "correctOptions": array of EXACTLY 2 OR 3 correct options (no more, no less)
+- MUST have "explanation": explain why each correct option is right AND why others are wrong
+Example:
+{
+  "type": "multi-select",
+  "text": "Which of the following are object-oriented programming languages? (Select all that apply)",
+  "options": [
+    "Java",
+    "C",
+    "Python",
+    "Assembly",
+    "Ruby",
+    "COBOL"
+  ],
+  "correctOptions": ["Java", "Python", "Ruby"],
+  "explanation": "Java, Python, and Ruby are object-oriented languages because they support encapsulation, inheritance, and polymorphism. C is procedural, Assembly is low-level, and COBOL is primarily procedural."
+}`,
+    schema: questionObject('multi-select', {
+      options: stringArray(6, 6),
+      correctOptions: stringArray(2, 3),
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'options' },
+      { kind: 'distinctItems', field: 'correctOptions' },
+      { kind: 'subsetOf', field: 'correctOptions', of: 'options' },
+    ],
+  },
+  'sequence': {
+    instructions: `For sequence:
+- MUST have "text": clear instruction about what to sequence
+- MUST have "sequence": array of 4-6 complete steps in RANDOM order
+- MUST have "correctSequence": same steps in CORRECT order
+- MUST have "explanation": explain the logic behind EACH step in the sequence
+Example:
+{
+  "type": "sequence",
+  "text": "Arrange the following steps of the TCP three-way handshake in the correct order:",
+  "sequence": [
+    "Client sends ACK",
+    "Server sends SYN-ACK",
+    "Client sends SYN",
+    "Connection established"
+  ],
+  "correctSequence": [
+    "Client sends SYN",
+    "Server sends SYN-ACK",
+    "Client sends ACK",
+    "Connection established"
+  ],
+  "explanation": "1. Client initiates with SYN to request connection\\n2. Server acknowledges and sends its own SYN\\n3. Client acknowledges server's SYN\\n4. Connection is now established and ready for data transfer"
+}`,
+    schema: questionObject('sequence', {
+      sequence: stringArray(4, 6),
+      correctSequence: stringArray(4, 6),
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'sequence' },
+      { kind: 'sameItems', field: 'correctSequence', as: 'sequence' },
+    ],
+  },
+  'matching': {
+    instructions: `For matching:
+- MUST have "text": clear instruction about what to match
+- MUST have "leftItems": array of 4-6 distinct terms
+- MUST have "rightItems": array of the same number of distinct definitions in RANDOM order
+- MUST have "correctMatches": the right item matching each left item, in the same order as "leftItems" (each right item used exactly once)
+- Every left item MUST have exactly one unambiguous match
+- MUST have "explanation": explain each correct pair
+Example:
+{
+  "type": "matching",
+  "text": "Match each OSI layer to its main responsibility:",
+  "leftItems": ["Physical", "Network", "Transport", "Application"],
+  "rightItems": [
+    "End-to-end delivery and flow control",
+    "Interfaces for user programs",
+    "Transmitting raw bits over a medium",
+    "Routing packets between networks"
+  ],
+  "correctMatches": [
+    "Transmitting raw bits over a medium",
+    "Routing packets between networks",
+    "End-to-end delivery and flow control",
+    "Interfaces for user programs"
+  ],
+  "explanation": "Physical moves raw bits; Network routes packets between networks; Transport provides end-to-end delivery; Application exposes network services to programs."
+}`,
+    schema: questionObject('matching', {
+      leftItems: stringArray(4, 6),
+      rightItems: stringArray(4, 6),
+      correctMatches: stringArray(4, 6),
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'leftItems' },
+      { kind: 'distinctItems', field: 'rightItems' },
+      { kind: 'sameItems', field: 'correctMatches', as: 'rightItems' },
+      { kind: 'sameLength', field: 'leftItems', as: 'rightItems' },
+    ],
+  },
+  'numeric': {
+    instructions: `For numeric:
+- MUST have "text": a calculation or quantity question with a single numeric answer
+- MUST have "correctValue": the answer as a JSON number (no units or text)
+- "unit": the unit of correctValue using standard symbols (e.g. "m/s^2", "kJ", "mol/L", "°C", "₹", "%"); omit for pure numbers
+- "acceptedUnits": other standard units a student may reasonably answer in (e.g. ["km/h"] for "m/s"); they must measure the same quantity
+- MUST have "relativeTolerance" (e.g. 0.01 for 1%) or "absoluteTolerance" matching the precision the question asks for
+- "acceptFractions": true if an exact fraction such as "1/2" is a valid way to write the answer
+- "acceptPercent": true if the answer is a ratio that may also be written as a percentage ("50%" for 0.5)
+- MUST have "explanation": show the full working, including any unit conversion
+Example:
+{
+  "type": "numeric",
+  "text": "A ball is dropped from rest. What is its speed after 2 seconds? Take g = 9.8 m/s^2 and ignore air resistance.",
+  "correctValue": 19.6,
+  "unit": "m/s",
+  "acceptedUnits": ["km/h"],
+  "relativeTolerance": 0.01,
+  "explanation": "v = u + gt = 0 + 9.8 × 2 = 19.6 m/s (70.56 km/h)."
+}`,
+    schema: questionObject('numeric', {
+      correctValue: { type: 'NUMBER' },
+    }, {
+      unit: { type: 'STRING', minLength: 1 },
+      acceptedUnits: stringArray(1),
+      absoluteTolerance: { type: 'NUMBER' },
+      relativeTolerance: { type: 'NUMBER' },
+      acceptFractions: { type: 'BOOLEAN' },
+      acceptPercent: { type: 'BOOLEAN' },
+    }),
+    rules: [
+      { kind: 'convertibleUnits', field: 'acceptedUnits', to: 'unit' },
+    ],
+  },
+  'assertion-reason': {
+    instructions: `For assertion-reason:
+- MUST have "text": the instruction "Read the Assertion (A) and Reason (R) and choose the correct option."
+- MUST have "assertion": a single factual statement (A)
+- MUST have "reason": a single statement (R) offered as the explanation of A
+- MUST have "correctOption": exactly one of "a", "b", "c" or "d", using the standard options:
+  (a) Both A and R are true, and R is the correct explanation of A
+  (b) Both A and R are true, but R is not the correct explanation of A
+  (c) A is true, but R is false
+  (d) A is false, but R is true
+- Do NOT include "options": the standard options are added by the app in the quiz language
+- Vary "correctOption" across questions; (b) questions must pair two true statements that are genuinely unrelated as cause and effect
+- MUST have "explanation": state whether A and R are each true and whether R explains A
+Example:
+{
+  "type": "assertion-reason",
+  "text": "Read the Assertion (A) and Reason (R) and choose the correct option.",
+  "assertion": "Ice floats on water.",
+  "reason": "Ice is less dense than liquid water.",
+  "correctOption": "a",
+  "explanation": "Both statements are true, and ice floats precisely because its density is lower than that of liquid water, so R correctly explains A."
+}`,
+    schema: questionObject('assertion-reason', {
+      assertion: { type: 'STRING', minLength: 1 },
+      reason: { type: 'STRING', minLength: 1 },
+      correctOption: { type: 'STRING', enum: ['a', 'b', 'c', 'd'] },
+    }),
+    rules: [
+      { kind: 'differsFrom', field: 'reason', from: 'assertion' },
+    ],
+  },
+  'code-output': {
+    instructions: `For code-output:
+- MUST have "text": the question, e.g. "What is the output of the following code?"
+- MUST have "code": a complete, self-contained program or script that runs as-is with the standard compiler or interpreter for its language: include every import, definition and, where the language needs one, the main function
+- MUST have "codeLanguage": one of ${codeLanguages.map(language => `"${language.id}"`).join(', ')}
+- MUST have "correctAnswer": EXACTLY what the program prints to standard output, character for character, with "\\n" between lines and no trailing newline
+- The output MUST be fully determined by the code: no user input, random numbers, current time, files, network, threads, memory addresses or unordered collection printing
+- Keep the snippet under 25 lines and the output under 10 lines; no compile errors, warnings or exceptions unless the question is about them
+- Format "code" with real line breaks ("\\n") and consistent indentation; never put the code in "text"
+- MUST have "explanation": trace the execution step by step to show how each line of output is produced
+Example:
+{
+  "type": "code-output",
+  "text": "What is the output of the following code?",
+  "code": "def scale(values, factor=2):\\n    return [v * factor for v in values]\\n\\nnums = scale([1, 2, 3])\\nprint(nums)\\nprint(sum(nums))",
+  "codeLanguage": "python",
+  "correctAnswer": "[2, 4, 6]\\n12",
+  "explanation": "scale multiplies each value by the default factor of 2, giving [2, 4, 6], which is printed first. Their sum, 12, is printed on the second line."
+}`,
+    schema: questionObject('code-output', {
+      code: { type: 'STRING', minLength: 1 },
+      codeLanguage: codeLanguageNode,
+      correctAnswer: { type: 'STRING', minLength: 1 },
+    }),
+    rules: [
+      { kind: 'deterministicCode', field: 'code' },
+    ],
+  },
+  'passage': {
+    instructions: `For passage:
+- MUST have "text": a short title for the passage
+- MUST have "passage": an original reading passage of 200-400 words, written in well-formed paragraphs
+- MUST have "parts": 3 to 5 sub-questions about the passage, each a complete question object in the format of its own type (see its rules), mixing types where possible
+- Every part MUST be answerable from the passage alone, and parts must not give away each other's answers
+- Parts MUST NOT be of type "passage", "case-study" or "situation"
+- MUST have "explanation": a one-sentence summary of what the passage tests
+Example:
+{
+  "type": "passage",
+  "text": "The Water Cycle",
+  "passage": "Water on Earth is constantly moving between the oceans, the air and the land. Heat from the Sun evaporates water from seas and lakes, turning it into invisible water vapour...",
+  "parts": [
+    {
+      "type": "multiple-choice",
+      "text": "According to the passage, what supplies the energy for evaporation?",
+      "options": ["Heat from the Sun", "Wind over the oceans", "The rotation of the Earth", "Heat from the Earth's core"],
+      "correctAnswer": "Heat from the Sun",
+      "explanation": "The passage states that heat from the Sun evaporates water from seas and lakes."
+    },
+    {
+      "type": "true-false",
+      "text": "Water vapour can be seen in the air.",
+      "options": ["True", "False"],
+      "correctAnswer": "False",
+      "explanation": "The passage describes water vapour as invisible."
+    }
+  ],
+  "explanation": "Tests understanding of the stages of the water cycle."
+}`,
+    schema: questionObject('passage', {
+      passage: { type: 'STRING', minLength: 600 },
+      parts: {
+        type: 'ARRAY',
+        minItems: 3,
+        maxItems: 5,
+        items: { type: 'OBJECT', description: 'A sub-question in the format of its own type' },
+      },
+    }),
+    rules: [
+      { kind: 'validParts', field: 'parts' },
+    ],
+  },
+  'case-study': {
+    instructions: `For case-study:
+- MUST have "text": brief introduction
+- MUST have "caseStudy": detailed scenario description (minimum 100 words)
+- MUST have "question": specific question about the case
+- MUST have "options": array of EXACTLY 4 possible solutions
+- MUST have "correctAnswer": the best solution (exact match)
+- MUST have "explanation": detailed analysis of ALL options
+Example:
+{
+  "type": "case-study",
+  "text": "Analyze this e-commerce system scaling scenario:",
+  "caseStudy": "An e-commerce platform experiences sudden traffic spikes during flash sales, causing system slowdowns and occasional crashes. The current architecture uses a monolithic application deployed on a single server with a PostgreSQL database. During peak times, the server CPU reaches 100% utilization, database connections are exhausted, and the application becomes unresponsive. The company wants to handle 10x more concurrent users while maintaining response times under 500ms.",
+  "question": "What is the most effective immediate solution to handle the traffic spikes?",
+  "options": [
+    "Implement horizontal scaling with load balancing",
+    "Upgrade to a more powerful server",
+    "Switch to a NoSQL database",
+    "Add application caching"
+  ],
+  "correctAnswer": "Implement horizontal scaling with load balancing",
+  "explanation": "Analysis of each option:\\n1. Horizontal scaling with load balancing: Best immediate solution as it provides linear scalability, high availability, and can handle traffic spikes effectively.\\n2. Upgrading server: Temporary solution that doesn't solve the fundamental scalability issue and has physical limitations.\\n3. Switching to NoSQL: Major architectural change that doesn't address the immediate CPU bottleneck and requires significant development effort.\\n4. Adding caching: Helpful but insufficient alone for handling concurrent user load and CPU bottleneck."
+}`,
+    schema: questionObject('case-study', {
+      caseStudy: { type: 'STRING', minLength: 100 },
+      question: { type: 'STRING', minLength: 1 },
+      options: stringArray(4, 4),
+      correctAnswer: { type: 'STRING', minLength: 1 },
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'options' },
+      { kind: 'memberOf', field: 'correctAnswer', of: 'options' },
+    ],
+  },
+  'situation': {
+    instructions: `For situation:
+- MUST have "text": brief introduction
+- MUST have "situation": detailed scenario description (minimum 100 words)
+- MUST have "question": specific question about the situation
+- MUST have "options": array of EXACTLY 4 possible actions
+- MUST have "correctAnswer": most appropriate action (exact match)
+- MUST have "explanation": detailed analysis of ALL options and their consequences
+Example:
+{
+  "type": "situation",
+  "text": "Handle a critical production incident:",
+  "situation": "You're the lead developer on call when a critical alert triggers at 2 AM. The company's main API is returning 500 errors for 30% of requests, affecting multiple major clients. Initial logs show increased database connection timeouts and memory usage spikes. The last deployment was 6 hours ago, which included both database schema changes and new API endpoints. The backup from 12 hours ago is available, but restoring it would lose 12 hours of customer data. Client impact is estimated at $50,000 per hour of downtime.",
+  "question": "What should be your first action?",
+  "options": [
+    "Immediately roll back the last deployment",
+    "Scale up database resources",
+    "Analyze logs and metrics for root cause",
+    "Restore from the latest backup"
+  ],
+  "correctAnswer": "Analyze logs and metrics for root cause",
+  "explanation": "Analysis of each action and its consequences:\\n1. Rolling back immediately: Risky without understanding the issue, could cause data inconsistencies and might not solve the problem if it's unrelated to the deployment.\\n2. Scaling database resources: Premature solution without understanding if database is the real bottleneck, wastes time and resources if the issue lies elsewhere.\\n3. Analyzing logs and metrics: Best first action as it quickly identifies the root cause, minimizes risk, and ensures the correct solution is implemented. Allows for informed decision-making.\\n4. Restoring backup: Most disruptive option with guaranteed data loss, should only be used as a last resort after other options are exhausted."
+}`,
+    schema: questionObject('situation', {
+      situation: { type: 'STRING', minLength: 100 },
+      question: { type: 'STRING', minLength: 1 },
+      options: stringArray(4, 4),
+      correctAnswer: { type: 'STRING', minLength: 1 },
+    }),
+    rules: [
+      { kind: 'distinctItems', field: 'options' },
+      { kind: 'memberOf', field: 'correctAnswer', of: 'options' },
+    ],
+  },
+  'short-answer': {
+    instructions: `For short-answer:
+- MUST have "text": clear, specific question
+- MUST have "correctAnswer": concise, accurate answer (1-3 words typically)
+- MUST have "explanation": detailed explanation of the answer
+- MUST have "keywords": array of key terms that should be present in a correct answer
+- "answerMode": "math-expression" when the answer is an algebraic expression, so any equivalent form is accepted; "correctAnswer" is then written in plain calculator notation such as "2*x^2 + 2*x" or "sqrt(x)/2"
+Example:
+{
+  "type": "short-answer",
+  "text": "What is the time complexity of binary search algorithm?",
+  "correctAnswer": "O(log n)",
+  "explanation": "Binary search has O(log n) time complexity because it eliminates half of the remaining elements in each iteration, resulting in a logarithmic number of comparisons.",
+  "keywords": ["O(log n)", "logarithmic", "log n"]
+}`,
+    schema: questionObject('short-answer', {
+      correctAnswer: { type: 'STRING', minLength: 1 },
+      keywords: stringArray(1),
+    }, {
+      answerMode: answerModeNode,
+    }),
+    rules: [
+      { kind: 'expressionAnswer', field: 'correctAnswer' },
+    ],
+  },
+  'fill-blank': {
+    instructions: `For fill-blank:
+- MUST have "text": sentence with ONE blank marked as _____ 
+- MUST have "correctAnswer": the word/phrase that fills the blank
+- MUST have "explanation": detailed explanation
+- MUST have "keywords": array of acceptable variations of the answer
+- "answerMode": "math-expression" when the blank is an algebraic expression, written in plain calculator notation as for short-answer
+Example:
+{
+  "type": "fill-blank",
+  "text": "The _____ design pattern ensures that a class has only one instance and provides global access to it.",
+  "correctAnswer": "Singleton",
+  "explanation": "The Singleton pattern restricts instantiation of a class to one object and provides a global point of access to that instance.",
+  "keywords": ["Singleton", "singleton"]
+}`,
+    schema: questionObject('fill-blank', {
+      correctAnswer: { type: 'STRING', minLength: 1 },
+      keywords: stringArray(1),
+    }, {
+      answerMode: answerModeNode,
+    }),
+    rules: [
+      { kind: 'includesText', field: 'text', text: '_____' },
+      { kind: 'expressionAnswer', field: 'correctAnswer' },
+    ],
+  },
+  'cloze': {
+    instructions: `For cloze:
+- MUST have "text": instruction such as "Fill in each blank."
+- MUST have "cloze": a passage of 2-6 sentences with 2-6 blanks marked [[1]], [[2]], ... in order, each used once and never inside math
+- MUST have "blanks": one entry per marker, in the same order, each with:
+  - "answers": every acceptable answer for that blank, the preferred one first
+  - "options": 3-5 choices shown in a dropdown, only for blanks that should be chosen rather than typed; the answers must be among them
+- MUST have "explanation": explain the answer to every blank
+Example:
+{
+  "type": "cloze",
+  "text": "Fill in each blank.",
+  "cloze": "Plants make glucose by [[1]], which takes place in the [[2]]. The gas released as a by-product is [[3]].",
+  "blanks": [
+    { "answers": ["photosynthesis"] },
+    { "answers": ["chloroplast", "chloroplasts"] },
+    { "answers": ["oxygen"], "options": ["oxygen", "carbon dioxide", "nitrogen", "hydrogen"] }
+  ],
+  "explanation": "1. Photosynthesis turns light energy into chemical energy stored in glucose.\\n2. It happens in the chloroplasts, which hold chlorophyll.\\n3. Splitting water releases oxygen."
+}`,
+    schema: questionObject('cloze', {
+      cloze: { type: 'STRING', minLength: 1 },
+      blanks: {
+        type: 'ARRAY',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            answers: stringArray(1),
+            options: stringArray(3, 5),
+          },
+          required: ['answers'],
+        },
+        minItems: 2,
+        maxItems: 6,
+      },
+    }),
+    rules: [
+      { kind: 'numberedBlanks', field: 'cloze', blanks: 'blanks' },
+      { kind: 'blankChoices', field: 'blanks' },
+    ],
+  },
+};
+
+const isQuestionType = (type: unknown): type is QuestionType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(questionSchemas, type);
+
+// Types a passage's parts may use
+const passagePartTypes: PassagePartType[] = [
+  'multiple-choice', 'true-false', 'fill-blank', 'short-answer', 'sequence',
+  'multi-select', 'matching', 'numeric', 'assertion-reason', 'code-output',
+];
+
+const isPassagePartType = (type: unknown): type is PassagePartType =>
+  passagePartTypes.includes(type as PassagePartType);
+
+// The types a quiz's passages should mix: those the user selected, or simple
+// types when the quiz has none that can appear in a passage
+export const getPassagePartTypes = (questionTypes: QuestionType[]): PassagePartType[] => {
+  const selected = questionTypes.filter(isPassagePartType);
+  return selected.length > 0 ? selected : ['multiple-choice', 'true-false', 'short-answer'];
+};
+
+const describeType = (value: unknown) =>
+  Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+// Check a value against a schema node, collecting human-readable errors
+const validateNode = (value: unknown, node: SchemaNode, path: string, errors: string[]) => {
+  if (value === undefined || value === null) {
+    if (!node.nullable) errors.push(`"${path}" is missing`);
+    return;
+  }
+
+  switch (node.type) {
+    case 'STRING':
+      if (typeof value !== 'string') {
+        errors.push(`"${path}" must be a string, got ${describeType(value)}`);
+      } else if (node.minLength !== undefined && value.trim().length < node.minLength) {
+        errors.push(node.minLength === 1
+          ? `"${path}" must not be empty`
+          : `"${path}" must be at least ${node.minLength} characters (got ${value.trim().length})`);
+      } else if (node.enum && !node.enum.includes(value)) {
+        errors.push(`"${path}" must be one of ${node.enum.map(v => `"${v}"`).join(', ')}`);
+      }
+      break;
+
+    case 'NUMBER':
+    case 'INTEGER':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`"${path}" must be a number, got ${describeType(value)}`);
+      } else if (node.type === 'INTEGER' && !Number.isInteger(value)) {
+        errors.push(`"${path}" must be an integer`);
+      }
+      break;
+
+    case 'BOOLEAN':
+      if (typeof value !== 'boolean') {
+        errors.push(`"${path}" must be true or false, got ${describeType(value)}`);
+      }
+      break;
+
+    case 'ARRAY':
+      if (!Array.isArray(value)) {
+        errors.push(`"${path}" must be an array, got ${describeType(value)}`);
+        break;
+      }
+      if (node.minItems !== undefined && node.minItems === node.maxItems && value.length !== node.minItems) {
+        errors.push(`"${path}" must have exactly ${node.minItems} items (got ${value.length})`);
+      } else if (node.minItems !== undefined && value.length < node.minItems) {
+        errors.push(`"${path}" must have at least ${node.minItems} items (got ${value.length})`);
+      } else if (node.maxItems !== undefined && value.length > node.maxItems) {
+        errors.push(`"${path}" must have at most ${node.maxItems} items (got ${value.length})`);
+      }
+      if (node.items) {
+        value.forEach((item, index) => validateNode(item, node.items!, `${path}[${index}]`, errors));
+      }
+      break;
+
+    case 'OBJECT': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`"${path || 'question'}" must be an object, got ${describeType(value)}`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      Object.entries(node.properties || {}).forEach(([key, child]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined || record[key] === null) {
+          if (node.required?.includes(key)) errors.push(`"${childPath}" is missing`);
+          return;
+        }
+        validateNode(record[key], child, childPath, errors);
+      });
+      break;
+    }
+  }
+};
+
+// Apply a cross-field rule, returning an error message if it is violated
+const checkRule = (q: Record<string, unknown>, rule: QuestionRule): string | null => {
+  const value = q[rule.field];
+
+  switch (rule.kind) {
+    case 'memberOf': {
+      const options = q[rule.of] as unknown[];
+      return options.includes(value)
+        ? null
+        : `"${rule.field}" must match one of the "${rule.of}" exactly`;
+    }
+    case 'subsetOf': {
+      const options = q[rule.of] as unknown[];
+      return (value as unknown[]).every(item => options.includes(item))
+        ? null
+        : `every entry of "${rule.field}" must match one of the "${rule.of}" exactly`;
+    }
+    case 'sameItems': {
+      const items = value as unknown[];
+      const other = q[rule.as] as unknown[];
+      return items.length === other.length && items.every(item => other.includes(item))
+        ? null
+        : `"${rule.field}" must contain exactly the same items as "${rule.as}"`;
+    }
+    case 'sameLength':
+      return (value as unknown[]).length === (q[rule.as] as unknown[]).length
+        ? null
+        : `"${rule.field}" must have as many items as "${rule.as}"`;
+    case 'convertibleUnits': {
+      if (value === undefined) return null;
+      const target = q[rule.to];
+      const invalid = (value as string[]).filter(unit =>
+        typeof target !== 'string' || !isKnownUnit(unit) || convertUnit(1, unit, target) === null
+      );
+      return invalid.length === 0
+        ? null
+        : `"${rule.field}" must only list standard units convertible to "${rule.to}" (cannot use ${invalid.map(unit => `"${unit}"`).join(', ')})`;
+    }
+    case 'differsFrom':
+      return String(value).trim().toLowerCase() !== String(q[rule.from]).trim().toLowerCase()
+        ? null
+        : `"${rule.field}" must differ from "${rule.from}"`;
+    case 'validParts': {
+      const problems = (value as unknown[]).flatMap((part, index) => {
+        const type = (part as Record<string, unknown>).type;
+        const errors = isPassagePartType(type) ? validateQuestion(part) : [`type "${String(type)}" cannot be used in a passage`];
+        return errors.map(error => `${rule.field}[${index}]: ${error}`);
+      });
+      return problems.length === 0 ? null : problems.join('; ');
+    }
+    case 'requiredWith':
+      return value !== undefined || q[rule.with] === undefined
+        ? null
+        : `"${rule.field}" is required when "${rule.with}" is given`;
+    case 'deterministicCode': {
+      const reasons = nondeterministicCode
+        .filter(({ pattern }) => pattern.test(String(value)))
+        .map(({ reason }) => reason);
+      return reasons.length === 0
+        ? null
+        : `"${rule.field}" must give the same output on every run, but appears to use ${reasons.join(', ')}`;
+    }
+    case 'balancedMath': {
+      if (value === undefined) return null;
+      const texts = (Array.isArray(value) ? value : [value]).map(String);
+      return texts.every(isMathBalanced)
+        ? null
+        : `"${rule.field}" has a math delimiter \\( or \\[ that is not closed with \\) or \\]`;
+    }
+    case 'expressionAnswer':
+      return q.answerMode !== 'math-expression' || parseExpression(String(value))
+        ? null
+        : `"${rule.field}" must be a single expression in calculator notation, such as "2*x^2 + 2*x", when "answerMode" is "math-expression"`;
+    case 'numberedBlanks': {
+      const segments = splitCloze(String(value));
+      const markers = segments.flatMap(segment => 'blank' in segment ? [segment.blank] : []);
+      const count = (q[rule.blanks] as unknown[]).length;
+      if (markers.length !== count || markers.some((blank, index) => blank !== index)) {
+        return `"${rule.field}" must mark its ${count} blanks [[1]] to [[${count}]], once each and in order`;
+      }
+      return segments.every(segment => 'blank' in segment || isMathBalanced(segment.text))
+        ? null
+        : `"${rule.field}" must not put a blank inside math`;
+    }
+    case 'blankChoices': {
+      const invalid = (value as { answers: string[]; options?: string[] }[])
+        .map((blank, index) => ({ blank, index }))
+        .filter(({ blank }) => blank.options &&
+          (new Set(blank.options).size !== blank.options.length || !blank.answers.every(answer => blank.options!.includes(answer))))
+        .map(({ index }) => index + 1);
+      return invalid.length === 0
+        ? null
+        : `"${rule.field}" with "options" must list distinct choices that include every accepted answer (blank ${invalid.join(', ')})`;
+    }
+    case 'distinctItems':
+      return new Set(value as unknown[]).size === (value as unknown[]).length
+        ? null
+        : `"${rule.field}" must not contain duplicates`;
+    case 'equals':
+      return JSON.stringify(value) === JSON.stringify(rule.value)
+        ? null
+        : `"${rule.field}" must be ${JSON.stringify(rule.value)}`;
+    case 'includesText':
+      return typeof value === 'string' && value.includes(rule.text)
+        ? null
+        : `"${rule.field}" must contain ${rule.text}`;
+  }
+};
+
+// Validate a raw generated question against the schema for its type.
+// Returns every problem found, so they can be fed back to the model in a repair request.
+export const validateQuestion = (q: unknown): string[] => {
+  if (!q || typeof q !== 'object' || Array.isArray(q)) {
+    return ['question must be a JSON object'];
+  }
+
+  const record = q as Record<string, unknown>;
+  if (!isQuestionType(record.type)) {
+    return [`unknown question type "${String(record.type)}"`];
+  }
+
+  const definition = questionSchemas[record.type];
+  const errors: string[] = [];
+  validateNode(record, definition.schema, '', errors);
+
+  // Cross-field rules assume the structure is already sound
+  if (errors.length === 0) {
+    [...baseRules, ...definition.rules].forEach(rule => {
+      const error = checkRule(record, rule);
+      if (error) errors.push(error);
+    });
+  }
+
+  return errors;
+};
+
+// Drop client-only keywords so the schema is accepted by Gemini
+const toResponseSchema = (node: SchemaNode): SchemaNode => {
+  const schema: SchemaNode = { ...node };
+  delete schema.minLength;
+  if (node.items) {
+    schema.items = toResponseSchema(node.items);
+  }
+  if (node.properties) {
+    schema.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([key, child]) => [key, toResponseSchema(child)])
+    );
+  }
+  return schema;
+};
+
+// Relax a property shared by several types, whose count and enum limits differ per type
+const relax = (node: SchemaNode): SchemaNode => ({
+  type: node.type,
+  ...(node.items && { items: relax(node.items) }),
+});
+
+// Schema for one question of any of the given types.
+// A single type gets its exact schema; a mix gets the union of their fields, with
+// type-specific limits left to client validation. A passage's parts get the schema
+// for the types they may use.
+const questionItemSchema = (types: QuestionType[], partTypes: PassagePartType[]): SchemaNode => {
+  let item: SchemaNode;
+  if (types.length === 1) {
+    item = { ...questionSchemas[types[0]].schema };
+  } else {
+    const properties: Record<string, SchemaNode> = {};
+    types.forEach(type => {
+      Object.entries(questionSchemas[type].schema.properties || {}).forEach(([key, node]) => {
+        const existing = properties[key];
+        properties[key] = existing && JSON.stringify(existing) !== JSON.stringify(node) ? relax(node) : node;
+      });
+    });
+    properties.type = { type: 'STRING', enum: types };
+    item = { type: 'OBJECT', properties, required: baseRequired };
+  }
+
+  const parts = item.properties?.parts;
+  if (parts) {
+    item.properties = { ...item.properties, parts: { ...parts, items: questionItemSchema(partTypes, partTypes) } };
+  }
+  return item;
+};
+
+// Build the responseSchema for a quiz made of the given question types. Quizzes grounded
+// in study material also require every question to quote its source.
+export const buildResponseSchema = (
+  types: QuestionType[],
+  requireSource = false,
+  partTypes: PassagePartType[] = getPassagePartTypes(types)
+): SchemaNode => {
+  const item = questionItemSchema(types, partTypes);
+  const required = requireSource ? [...(item.required || []), 'source'] : item.required;
+  return { type: 'ARRAY', items: toResponseSchema({ ...item, required }) };
+};
@@ -0,0 +1,328 @@
+import { MarkingRule, MarkingScheme, Question, ScoringRubric } from '../types';
+import { markingSchemes, standardMarkingScheme } from '../data/markingSchemes';
+import { getAssertionReasonText } from '../data/assertionReason';
+import { formatNumericAnswer, isNumericAnswerCorrect } from './numeric';
+import { areExpressionsEquivalent, formatExpression } from './expression';
+import { gradeBlanks } from './cloze';
+import { parsePartAnswers } from './passage';
+import { AMBIGUOUS_MATCH_THRESHOLD, containsTerm, isAcceptedTextAnswer, isExactTextMatch, matchTextAnswer } from './textMatching';
+
+// Grading for solo quizzes and competitions alike. Every question earns a share of its
+// credit (0-1) under the quiz's rubric; isCorrect is kept for answers that are entirely right.
+
+type StandaloneQuestion = Exclude<Question, { type: 'passage' }>;
+
+export type QuestionGrade = {
+  isCorrect: boolean;
+  score: number; // Share of the credit earned (0-1)
+};
+
+// An AI grader's verdict on a typed answer, which replaces the local grade
+export type TextEvaluation = QuestionGrade & { feedback: string };
+
+// Evaluations are keyed by question id, and by "id.part" for a passage's parts (numbered from 1)
+export const getEvaluationKey = (questionId: number, partNumber?: number) =>
+  partNumber === undefined ? String(questionId) : `${questionId}.${partNumber}`;
+
+export const defaultRubric: Required<ScoringRubric> = {
+  multiSelect: 'proportional',
+  multiSelectPenalty: 1,
+  sequence: 'positional',
+  shortAnswer: 'keywords',
+  difficultyWeights: {},
+};
+
+// Fill the options a rubric leaves out with the defaults
+export const resolveRubric = (rubric?: ScoringRubric): Required<ScoringRubric> => ({ ...defaultRubric, ...rubric });
+
+// Marks a question is worth: its own weight, else the rubric's weight for its difficulty, else 1
+export const getQuestionWeight = (question: Question, rubric?: ScoringRubric) =>
+  question.weight ?? resolveRubric(rubric).difficultyWeights[question.difficulty] ?? 1;
+
+// Output as it would be compared by a judge: line endings unified, trailing spaces and blank lines ignored
+const normalizeOutput = (output: string) =>
+  output.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').replace(/\n+$/, '');
+
+// Share of the steps placed where they belong
+const positionalSimilarity = (answer: string[], correct: string[]) =>
+  correct.filter((step, index) => answer[index] === step).length / correct.length;
+
+// Kendall tau between the answer and the correct order over every pair of steps, where a step
+// left out disagrees with every other. Orders no better than random earn nothing.
+const kendallTauSimilarity = (answer: string[], correct: string[]) => {
+  if (correct.length < 2) return positionalSimilarity(answer, correct);
+  let agreeing = 0;
+  let pairs = 0;
+  for (let i = 0; i < correct.length; i++) {
+    for (let j = i + 1; j < correct.length; j++) {
+      const first = answer.indexOf(correct[i]);
+      const second = answer.indexOf(correct[j]);
+      agreeing += first >= 0 && second >= 0 && first < second ? 1 : -1;
+      pairs++;
+    }
+  }
+  return Math.max(0, agreeing / pairs);
+};
+
+// Grade one answer under a rubric
+export const gradeAnswer = (
+  question: StandaloneQuestion,
+  userAnswer: string | undefined,
+  rubric?: ScoringRubric
+): QuestionGrade => {
+  const rules = resolveRubric(rubric);
+  const allOrNothing = (isCorrect: boolean): QuestionGrade => ({ isCorrect, score: isCorrect ? 1 : 0 });
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'case-study':
+    case 'situation':
+      // Matched exactly against the options, since case matters in math: \(x\) and \(X\) are different options
+      return allOrNothing(!!userAnswer && question.options.some(option => option === userAnswer) && userAnswer === question.correctAnswer);
+
+    case 'multi-select': {
+      // Answered with option indexes, so options containing commas are compared whole
+      if (!userAnswer) return allOrNothing(false);
+      const picks = [...new Set(userAnswer.split(',').map(index => question.options[Number(index)]))];
+      const right = picks.filter(option => question.correctOptions.includes(option)).length;
+      const wrong = picks.length - right;
+      const isCorrect = wrong === 0 && right === question.correctOptions.length;
+      if (rules.multiSelect === 'all-or-nothing') return allOrNothing(isCorrect);
+      return {
+        isCorrect,
+        score: Math.max(0, (right - wrong * rules.multiSelectPenalty) / question.correctOptions.length)
+      };
+    }
+
+    case 'sequence': {
+      // Answered with indexes into the shuffled steps
+      if (!userAnswer) return allOrNothing(false);
+      const steps = userAnswer.split(',').map(index => question.sequence[Number(index)]);
+      const isCorrect = steps.length === question.correctSequence.length &&
+        steps.every((step, index) => step === question.correctSequence[index]);
+      if (isCorrect || rules.sequence === 'all-or-nothing') return allOrNothing(isCorrect);
+      return {
+        isCorrect,
+        score: rules.sequence === 'kendall-tau'
+          ? kendallTauSimilarity(steps, question.correctSequence)
+          : positionalSimilarity(steps, question.correctSequence)
+      };
+    }
+
+    case 'matching': {
+      // One share of the credit per correctly matched left item
+      if (!userAnswer) return allOrNothing(false);
+      const picks = userAnswer.split(',');
+      const matched = question.correctMatches.filter((match, index) =>
+        picks[index] && question.rightItems[Number(picks[index])] === match
+      ).length;
+      const score = matched / question.correctMatches.length;
+      return { isCorrect: score === 1, score };
+    }
+
+    case 'cloze': {
+      // Each blank earns its share of the credit on its own
+      const results = gradeBlanks(question, userAnswer);
+      const score = results.filter(Boolean).length / results.length;
+      return { isCorrect: score === 1, score };
+    }
+
+    case 'assertion-reason':
+      return allOrNothing(userAnswer === question.correctOption);
+
+    case 'code-output':
+      return allOrNothing(!!userAnswer && normalizeOutput(userAnswer) === normalizeOutput(question.correctAnswer));
+
+    case 'numeric':
+      // Compared by value, after converting units and within the question's tolerance
+      return allOrNothing(!!userAnswer && isNumericAnswerCorrect(question, userAnswer));
+
+    case 'short-answer':
+    case 'fill-blank': {
+      if (!userAnswer) return allOrNothing(false);
+      if (question.answerMode === 'math-expression') {
+        // Any algebraically equal form counts, so "2x(x+1)" is right for "2x^2+2x"
+        return allOrNothing(areExpressionsEquivalent(userAnswer, question.correctAnswer));
+      }
+      // The answer as written or transliterated, allowing one typo in a long answer
+      if (isAcceptedTextAnswer(userAnswer, [question.correctAnswer])) return allOrNothing(true);
+      if (question.type === 'fill-blank') {
+        // A blank's keywords are other ways of writing the answer
+        return allOrNothing(isAcceptedTextAnswer(userAnswer, question.keywords || []));
+      }
+      // A short answer's keywords are the key terms it should mention, each worth a share
+      const keywords = question.keywords || [];
+      if (rules.shortAnswer === 'exact' || keywords.length === 0) return allOrNothing(false);
+      const score = keywords.filter(keyword => containsTerm(userAnswer, keyword)).length / keywords.length;
+      return { isCorrect: score === 1, score };
+    }
+  }
+};
+
+// Whether a typed answer is worth sending to an AI grader: text answers that are not exactly
+// an accepted answer and not plainly something else. Answers accepted locally for a typo go
+// too, as one letter can change the meaning. Free-form short answers are always worth a look,
+// as their wording can differ a lot from the expected answer.
+export const needsEvaluation = (question: StandaloneQuestion, userAnswer: string | undefined, rubric?: ScoringRubric) => {
+  if (question.type !== 'short-answer' && question.type !== 'fill-blank') return false;
+  if (!userAnswer?.trim() || question.answerMode === 'math-expression') return false;
+  if (question.type === 'short-answer' && resolveRubric(rubric).shortAnswer === 'exact') return false;
+  const accepted = [question.correctAnswer, ...(question.type === 'fill-blank' ? question.keywords || [] : [])];
+  if (isExactTextMatch(userAnswer, accepted)) return false;
+  return question.type === 'short-answer' ||
+    matchTextAnswer(userAnswer, [question.correctAnswer, ...(question.keywords || [])]) >= AMBIGUOUS_MATCH_THRESHOLD;
+};
+
+// Grade one answer, taking an AI grader's verdict over the local grade when there is one
+const gradeWithEvaluation = (
+  question: StandaloneQuestion,
+  userAnswer: string | undefined,
+  rubric: ScoringRubric | undefined,
+  evaluation: TextEvaluation | undefined
+) => evaluation
+  ? { isCorrect: evaluation.isCorrect, score: evaluation.score, feedback: evaluation.feedback }
+  : gradeAnswer(question, userAnswer, rubric);
+
+// Grade a question and record the answer and grade on it. A passage's parts are graded
+// one by one and share the passage's credit equally.
+export const gradeQuestion = (
+  question: Question,
+  userAnswer: string | undefined,
+  rubric?: ScoringRubric,
+  evaluations: Record<string, TextEvaluation> = {}
+): Question => {
+  if (question.type !== 'passage') {
+    return { ...question, userAnswer, ...gradeWithEvaluation(question, userAnswer, rubric, evaluations[getEvaluationKey(question.id)]) };
+  }
+
+  const partAnswers = parsePartAnswers(userAnswer, question.parts.length);
+  const parts = question.parts.map((part, index) => {
+    const partAnswer = partAnswers[index] || undefined;
+    const evaluation = evaluations[getEvaluationKey(question.id, index + 1)];
+    return { ...part, userAnswer: partAnswer, ...gradeWithEvaluation(part, partAnswer, rubric, evaluation) };
+  });
+  return {
+    ...question,
+    userAnswer,
+    isCorrect: parts.every(part => part.isCorrect),
+    score: parts.reduce((sum, part) => sum + part.score, 0) / parts.length,
+    parts
+  };
+};
+
+// The correct answer of a question, formatted for display and for explanation requests.
+// A passage lists its parts' answers by part number.
+export const formatCorrectAnswer = (question: Question): string => {
+  switch (question.type) {
+    case 'passage':
+      return question.parts.map((part, index) => `${index + 1}. ${formatCorrectAnswer(part)}`).join('\n');
+    case 'multi-select':
+      return question.correctOptions.join(', ');
+    case 'sequence':
+      return question.correctSequence.join(' → ');
+    case 'matching':
+      return question.leftItems.map((left, index) => `${left} → ${question.correctMatches[index]}`).join('\n');
+    case 'numeric':
+      return formatNumericAnswer(question);
+    case 'assertion-reason':
+      return `(${question.correctOption}) ${getAssertionReasonText(question.language).options[question.correctOption]}`;
+    case 'cloze':
+      return question.blanks.map((blank, index) => `${index + 1}. ${blank.answers.join(' / ')}`).join('\n');
+    case 'short-answer':
+    case 'fill-blank':
+      return question.answerMode === 'math-expression' ? formatExpression(question.correctAnswer) : question.correctAnswer;
+    default:
+      return question.correctAnswer;
+  }
+};
+
+// A usable copy of a scheme: presets as defined, and custom rules with penalties of zero or
+// below and a last rule that matches every question
+export const resolveMarkingScheme = (scheme?: MarkingScheme): MarkingScheme => {
+  if (!scheme) return standardMarkingScheme;
+  if (scheme.id !== 'custom') return markingSchemes.find(preset => preset.id === scheme.id)?.scheme || standardMarkingScheme;
+  const rules = scheme.rules.map(rule => ({ ...rule, correct: Math.max(0, rule.correct || 0), wrong: Math.min(0, rule.wrong || 0) }));
+  const fallback = rules.pop() || { correct: 1, wrong: 0 };
+  return { ...scheme, rules: [...rules, { correct: fallback.correct, wrong: fallback.wrong }] };
+};
+
+// Marks a question gets for a right and a wrong answer: those of the first rule in the scheme
+// matching its type and difficulty, times its weight
+export const getQuestionMarks = (
+  question: Question,
+  scheme: MarkingScheme = standardMarkingScheme,
+  rubric?: ScoringRubric
+): Pick<MarkingRule, 'correct' | 'wrong'> => {
+  const rule = scheme.rules.find(({ type, difficulty }) =>
+    (!type || type === question.type) && (!difficulty || difficulty === question.difficulty)
+  ) || scheme.rules[scheme.rules.length - 1] || { correct: 1, wrong: 0 };
+  const weight = getQuestionWeight(question, rubric);
+  return { correct: rule.correct * weight, wrong: rule.wrong * weight };
+};
+
+// Marks earned and available for a graded question. A passage's parts are marked one by one
+// under the rules for their own type, each worth its share of the passage.
+const markQuestion = (
+  question: Question,
+  scheme: MarkingScheme | undefined,
+  rubric: ScoringRubric | undefined
+): { earned: number; available: number } => {
+  if (question.type !== 'passage') {
+    const { correct, wrong } = getQuestionMarks(question, scheme, rubric);
+    const earned = question.score ? question.score * correct : question.userAnswer ? wrong : 0;
+    return { earned, available: correct };
+  }
+  const weight = getQuestionWeight(question, rubric);
+  return question.parts.reduce((total, part) => {
+    const { earned, available } = markQuestion({ ...part, weight }, scheme, rubric);
+    return {
+      earned: total.earned + earned / question.parts.length,
+      available: total.available + available / question.parts.length
+    };
+  }, { earned: 0, available: 0 });
+};
+
+export type QuizScore = {
+  questions: Question[]; // Graded, with the answers recorded on them
+  correctAnswers: number;
+  points: number;
+  maxPoints: number;
+  percentage: number;
+};
+
+// Grade and mark a whole quiz under a marking scheme (1 mark a question by default). Answers that
+// were given and earned nothing lose the scheme's penalty; the total only drops below zero where
+// the scheme allows it. Evaluations from an AI grader, keyed by getEvaluationKey, replace the local grade of typed answers.
+export const scoreQuiz = (
+  questions: Question[],
+  answers: Record<number, string>,
+  { rubric, markingScheme = standardMarkingScheme, evaluations }: {
+    rubric?: ScoringRubric;
+    markingScheme?: MarkingScheme;
+    evaluations?: Record<string, TextEvaluation>;
+  } = {}
+): QuizScore => {
+  let correctAnswers = 0;
+  let points = 0;
+  let maxPoints = 0;
+
+  const graded = questions.map(question => {
+    const result = gradeQuestion(question, answers[question.id], rubric, evaluations);
+    const { earned, available } = markQuestion(result, markingScheme, rubric);
+
+    if (result.isCorrect) correctAnswers++;
+    points += earned;
+    maxPoints += available;
+    return result;
+  });
+
+  if (!markingScheme.allowNegativeTotal) points = Math.max(0, points);
+  return {
+    questions: graded,
+    correctAnswers,
+    points,
+    maxPoints,
+    percentage: maxPoints > 0 ? Math.max(0, Math.round((points / maxPoints) * 100)) : 0
+  };
+};
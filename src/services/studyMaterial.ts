@@ -0,0 +1,100 @@
+import { StudyMaterial } from '../types';
+
+// Most characters of study material sent with a request; anything beyond is left out
+export const MAX_STUDY_MATERIAL_CHARS = 60000;
+
+// Longest excerpt a question may quote as its source
+export const MAX_SOURCE_EXCERPT_CHARS = 400;
+
+// File types accepted by the study material picker
+export const STUDY_MATERIAL_ACCEPT = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+// Extract the text of a PDF in the browser. pdf.js is only loaded once a PDF is picked.
+const extractPdfText = async (file: File) => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join(''));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages.join('\n\n');
+};
+
+// Read an uploaded .txt, .md or .pdf file into study material
+export const readStudyMaterial = async (file: File): Promise<StudyMaterial> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  let text: string;
+
+  if (extension === 'pdf' || file.type === 'application/pdf') {
+    text = await extractPdfText(file);
+  } else if (['txt', 'md', 'markdown'].includes(extension) || file.type.startsWith('text/')) {
+    text = await file.text();
+  } else {
+    throw new Error(`"${file.name}" is not supported. Upload a .txt, .md or .pdf file.`);
+  }
+
+  text = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text) {
+    throw new Error(`No text could be extracted from "${file.name}". Scanned PDFs must be converted to text first.`);
+  }
+  return { name: file.name, text };
+};
+
+// The part of the materials the model is sent: MAX_STUDY_MATERIAL_CHARS in all, in order
+export const truncateStudyMaterial = (materials: StudyMaterial[]): StudyMaterial[] => {
+  let remaining = MAX_STUDY_MATERIAL_CHARS;
+  return materials
+    .map(({ name, text }) => {
+      const included = text.slice(0, Math.max(0, remaining));
+      remaining -= included.length;
+      return { name, text: included };
+    })
+    .filter(({ text }) => text);
+};
+
+// Combine the materials into the text sent to the model, cut to MAX_STUDY_MATERIAL_CHARS
+export const formatStudyMaterial = (materials: StudyMaterial[]) =>
+  truncateStudyMaterial(materials)
+    .map(({ name, text }) => `--- ${name} ---\n${text}`)
+    .join('\n\n');
+
+// Whitespace, case and typographic quotes vary between the material and what the model copies
+const normalizeExcerpt = (text: string) => text
+  .toLowerCase()
+  .replace(/[“”]/g, '"')
+  .replace(/[‘’]/g, "'")
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Create a check that a question's source excerpt is quoted from the material rather than invented.
+// Returns an error message for the repair prompt, or null if the excerpt is found.
+export const createSourceChecker = (materialText: string) => {
+  const material = normalizeExcerpt(materialText);
+
+  return (source: unknown): string | null => {
+    if (typeof source !== 'string' || !source.trim()) {
+      return '"source" is missing';
+    }
+    if (source.length > MAX_SOURCE_EXCERPT_CHARS) {
+      return `"source" must be at most ${MAX_SOURCE_EXCERPT_CHARS} characters`;
+    }
+    // Models often wrap quotes in quotation marks or ellipses
+    const excerpt = normalizeExcerpt(source.replace(/^["'“‘.…\s]+|["'”’.…\s]+$/g, ''));
+    return material.includes(excerpt)
+      ? null
+      : '"source" must be copied word for word from the study material';
+  };
+};
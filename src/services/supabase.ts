@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { ApiKeyData, QuizPreferences, UserProfile, QuizResultData, FavoriteQuestion } from '../types';
+import { AbilityEstimate, ApiKeyData, BloomLevelStats, MarkingSchemeId, Question, QuizPreferences, UserProfile, QuizResultData, FavoriteQuestion, AIUsageRecord, AIQuota } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -11,36 +11,67 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // API Key functions
-export const getApiKey = async (userId: string): Promise<string | null> => {
+export const getApiKeyData = async (userId: string): Promise<ApiKeyData | null> => {
   const { data, error } = await supabase
     .from('api_keys')
-    .select('gemini_api_key')
+    .select('gemini_key_hint, gemini_key_status, openai_key_hint, openai_base_url, ollama_base_url, provider, model')
     .eq('user_id', userId)
     .maybeSingle();
 
   if (error) throw error;
-  return data?.gemini_api_key || null;
+
+  if (!data) return null;
+
+  return {
+    userId,
+    geminiKeyHint: data.gemini_key_hint || undefined,
+    geminiKeyStatus: data.gemini_key_status || 'missing',
+    openaiKeyHint: data.openai_key_hint || undefined,
+    openaiBaseUrl: data.openai_base_url || undefined,
+    ollamaBaseUrl: data.ollama_base_url || undefined,
+    provider: data.provider || 'gemini',
+    model: data.model || undefined,
+  };
+};
+
+// Gemini keys are encrypted into Vault by the database and can only be written, never read back.
+// An empty key removes the stored one.
+export const saveApiKey = async (apiKey: string) => {
+  return supabase.rpc('set_gemini_api_key', { p_api_key: apiKey });
+};
+
+// OpenAI-compatible keys are kept in Vault the same way
+export const saveOpenAIApiKey = async (apiKey: string) => {
+  return supabase.rpc('set_openai_api_key', { p_api_key: apiKey });
 };
 
-export const saveApiKey = async (userId: string, apiKey: string) => {
-  // First try to update existing key
+export const saveApiKeyData = async (
+  userId: string,
+  apiKeyData: Omit<ApiKeyData, 'userId' | 'geminiKeyHint' | 'geminiKeyStatus' | 'openaiKeyHint'>
+) => {
   const { data: existingKey } = await supabase
     .from('api_keys')
     .select('id')
     .eq('user_id', userId)
     .maybeSingle();
 
+  const keyData = {
+    user_id: userId,
+    openai_base_url: apiKeyData.openaiBaseUrl || null,
+    ollama_base_url: apiKeyData.ollamaBaseUrl || null,
+    provider: apiKeyData.provider || 'gemini',
+    model: apiKeyData.model || null,
+  };
+
   if (existingKey) {
-    // Update existing key
     return supabase
       .from('api_keys')
-      .update({ gemini_api_key: apiKey })
+      .update(keyData)
       .eq('user_id', userId);
   } else {
-    // Insert new key
     return supabase
       .from('api_keys')
-      .insert({ user_id: userId, gemini_api_key: apiKey });
+      .insert(keyData);
   }
 };
 
@@ -67,10 +98,11 @@ export const getQuizPreferences = async (userId: string): Promise<QuizPreference
     timeLimit: data.time_limit,
     totalTimeLimit: data.total_time_limit,
     timeLimitEnabled: data.time_limit_enabled || false,
-    negativeMarking: data.negative_marking || false,
-    negativeMarks: data.negative_marks || 0,
     mode: data.mode || 'practice',
-    answerMode: data.mode === 'practice' ? 'immediate' : 'end'
+    answerMode: data.mode === 'practice' ? 'immediate' : 'end',
+    bloomDistribution: data.bloom_distribution || undefined,
+    scoringRubric: data.scoring_rubric || undefined,
+    markingScheme: data.marking_scheme || undefined
   };
 };
 
@@ -94,9 +126,10 @@ export const saveQuizPreferences = async (userId: string, preferences: QuizPrefe
     time_limit: preferences.timeLimit,
     total_time_limit: preferences.totalTimeLimit,
     time_limit_enabled: preferences.timeLimitEnabled || false,
-    negative_marking: preferences.negativeMarking || false,
-    negative_marks: preferences.negativeMarks || 0,
-    mode: preferences.mode || 'practice'
+    mode: preferences.mode || 'practice',
+    bloom_distribution: preferences.bloomDistribution || null,
+    scoring_rubric: preferences.scoringRubric || null,
+    marking_scheme: preferences.markingScheme || null
   };
 
   if (existingPrefs) {
@@ -282,7 +315,7 @@ export const updateProfile = async (userId: string, profile: Partial<UserProfile
 };
 
 // Quiz results functions
-export const saveQuizResult = async (userId: string, result: QuizResultData) => {
+export const saveQuizResult = async (userId: string, result: Omit<QuizResultData, 'id'>) => {
   return supabase
     .from('quiz_results')
     .insert({
@@ -292,26 +325,76 @@ export const saveQuizResult = async (userId: string, result: QuizResultData) =>
       score: result.score,
       total_questions: result.totalQuestions,
       time_taken: result.timeTaken,
+      bloom_levels: result.bloomLevels,
+      points: result.points,
+      max_points: result.maxPoints,
+      marking_scheme: result.markingScheme,
+      preferences: result.preferences,
+      questions: result.questions,
+      question_times: result.questionTimes,
+      ability: result.ability,
     });
 };
 
+// A quiz_results row; older rows leave the full record of the attempt null
+type QuizResultRow = {
+  id: string;
+  quiz_date: string;
+  topic: string;
+  score: number;
+  total_questions: number;
+  time_taken: number | null;
+  bloom_levels: BloomLevelStats | null;
+  points: number | null;
+  max_points: number | null;
+  marking_scheme: MarkingSchemeId | null;
+  preferences: QuizPreferences | null;
+  questions?: Question[] | null;
+  question_times?: Record<number, number> | null;
+  ability: AbilityEstimate | null;
+};
+
+const toQuizResultData = (result: QuizResultRow): QuizResultData => ({
+  id: result.id,
+  quizDate: new Date(result.quiz_date),
+  topic: result.topic,
+  score: result.score,
+  totalQuestions: result.total_questions,
+  timeTaken: result.time_taken ?? undefined,
+  bloomLevels: result.bloom_levels || undefined,
+  points: result.points ?? undefined,
+  maxPoints: result.max_points ?? undefined,
+  markingScheme: result.marking_scheme || undefined,
+  preferences: result.preferences || undefined,
+  questions: result.questions || undefined,
+  questionTimes: result.question_times || undefined,
+  ability: result.ability || undefined,
+});
+
+// Past quizzes, newest first, without their questions, which are loaded one attempt at a time
 export const getQuizResults = async (userId: string) => {
   const { data, error } = await supabase
     .from('quiz_results')
-    .select('*')
+    .select('id, quiz_date, topic, score, total_questions, time_taken, bloom_levels, points, max_points, marking_scheme, preferences, ability')
     .eq('user_id', userId)
     .order('quiz_date', { ascending: false });
 
   if (error) throw error;
 
-  return data.map(result => ({
-    id: result.id,
-    quizDate: new Date(result.quiz_date),
-    topic: result.topic,
-    score: result.score,
-    totalQuestions: result.total_questions,
-    timeTaken: result.time_taken,
-  }));
+  return (data as QuizResultRow[]).map(toQuizResultData);
+};
+
+export const getQuizAttempt = async (userId: string, attemptId: string) => {
+  const { data, error } = await supabase
+    .from('quiz_results')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('id', attemptId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toQuizResultData(data as QuizResultRow) : null;
 };
 
 // Favorite questions functions
@@ -352,4 +435,49 @@ export const removeFavoriteQuestion = async (userId: string, questionId: string)
     .delete()
     .eq('user_id', userId)
     .eq('id', questionId);
-};
\ No newline at end of file
+};
+
+// AI usage functions
+export const getAIUsage = async (userId: string, since: Date): Promise<AIUsageRecord[]> => {
+  const { data, error } = await supabase
+    .from('ai_usage')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data.map(usage => ({
+    feature: usage.feature,
+    model: usage.model,
+    promptTokens: usage.prompt_tokens,
+    responseTokens: usage.response_tokens,
+    totalTokens: usage.total_tokens,
+    createdAt: new Date(usage.created_at),
+  }));
+};
+
+// The user's own quotas override the defaults for the same feature
+export const getAIQuotas = async (userId: string): Promise<AIQuota[]> => {
+  const { data, error } = await supabase
+    .from('ai_quotas')
+    .select('*')
+    .or(`user_id.is.null,user_id.eq.${userId}`);
+
+  if (error) throw error;
+
+  const quotas = new Map<string | null, AIQuota>();
+  data.forEach(quota => {
+    const isPersonal = quota.user_id !== null;
+    if (!isPersonal && quotas.has(quota.feature)) return;
+    quotas.set(quota.feature, {
+      feature: quota.feature,
+      dailyRequests: quota.daily_requests,
+      dailyTokens: quota.daily_tokens,
+      isPersonal,
+    });
+  });
+
+  return [...quotas.values()];
+};
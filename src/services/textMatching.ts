@@ -0,0 +1,159 @@
+// Local matching of typed answers against the accepted wording, forgiving case, spacing,
+// punctuation, accents and Indic answers typed in Latin letters (or the reverse). Similar
+// spellings often mean opposite things ("exothermic" and "endothermic", "Hindi" and "Bindi"),
+// so only the same normalized text, or a single typo in a long answer, is accepted locally.
+
+// Answers less similar than this to every accepted answer are plainly something else
+export const AMBIGUOUS_MATCH_THRESHOLD = 0.5;
+
+// Answers at least this long (once normalized) may differ from an accepted answer by one typo
+const MIN_TYPO_LENGTH = 8;
+
+// Latin sound of each letter in the Indic scripts, which share one layout: a letter sits at the
+// same offset from the start of its script's block in Devanagari, Bengali, Gurmukhi, Gujarati,
+// Oriya, Tamil, Telugu, Kannada and Malayalam
+const INDIC_BLOCK_START = 0x0900;
+const INDIC_BLOCK_END = 0x0d7f;
+const INDIC_BLOCK_SIZE = 0x80;
+
+const indicVowels: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri', 0x0c: 'li',
+  0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x12: 'o', 0x13: 'o', 0x14: 'au',
+};
+
+const indicConsonants: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'ng',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'ny',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  0x58: 'q', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'r', 0x5d: 'rh', 0x5e: 'f', 0x5f: 'y',
+};
+
+// Vowel signs replace a consonant's inherent "a"; the virama removes it
+const indicVowelSigns: Record<number, string> = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri', 0x44: 'rri',
+  0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au', 0x4d: '',
+};
+
+// Anusvara, candrabindu and visarga, and Malayalam's chillu letters, which carry no vowel
+const indicOthers: Record<number, string> = {
+  0x01: 'n', 0x02: 'n', 0x03: 'h',
+  0x7a: 'n', 0x7b: 'n', 0x7c: 'r', 0x7d: 'l', 0x7e: 'l', 0x7f: 'k',
+};
+
+const indicOffset = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code >= INDIC_BLOCK_START && code <= INDIC_BLOCK_END ? (code - INDIC_BLOCK_START) % INDIC_BLOCK_SIZE : null;
+};
+
+// Write Indic script in Latin letters; other text passes through unchanged
+export const transliterate = (text: string) => {
+  let result = '';
+  const chars = [...text];
+  chars.forEach((char, index) => {
+    const offset = indicOffset(char);
+    if (offset === null) {
+      result += char;
+    } else if (offset in indicConsonants) {
+      const next = index + 1 < chars.length ? indicOffset(chars[index + 1]) : null;
+      // A nukta changes the sound only slightly, so look past it for the vowel sign
+      const sign = next === 0x3c && index + 2 < chars.length ? indicOffset(chars[index + 2]) : next;
+      result += indicConsonants[offset] + (sign !== null && sign in indicVowelSigns ? '' : 'a');
+    } else if (offset in indicVowelSigns) {
+      result += indicVowelSigns[offset];
+    } else if (offset in indicVowels) {
+      result += indicVowels[offset];
+    } else if (offset in indicOthers) {
+      result += indicOthers[offset];
+    } else if (offset >= 0x66 && offset <= 0x6f) {
+      result += String(offset - 0x66);
+    }
+  });
+  return result;
+};
+
+// Lower-case Latin letters and digits, without accents or punctuation
+const toComparable = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+
+// Romanised spellings of Indic words differ on long vowels and a word's closing "a", so both are
+// folded away. Only words written in Indic script are folded: in other words they tell answers
+// apart ("good" and "god", "China" and "Chin").
+const foldRomanised = (text: string) =>
+  text
+    .replace(/([aeiou])\1+/g, '$1')
+    .replace(/(\p{L}{2,})a(?=\s|$)/gu, '$1');
+
+const isIndicWord = (word: string) => [...word].some(char => indicOffset(char) !== null);
+
+// Comparable form of an answer, with Indic words written in Latin letters
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize('NFKC')
+    .split(/\s+/)
+    .map(word => isIndicWord(word) ? foldRomanised(toComparable(transliterate(word))) : toComparable(word))
+    .filter(Boolean)
+    .join(' ');
+
+// Fewest single-character insertions, deletions and substitutions turning one text into the other
+export const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for the same normalized text, falling towards 0 as more characters differ
+const similarity = (a: string, b: string) => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+// Whether two normalized texts are the same, allowing one typo when both are long
+const isSameOrTypo = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= MIN_TYPO_LENGTH && editDistance(a, b) <= 1);
+
+// How close an answer is to the closest of the accepted answers (0-1)
+export const matchTextAnswer = (answer: string, accepted: string[]) => {
+  const normalized = normalizeAnswer(answer);
+  return Math.max(0, ...accepted.map(option => similarity(normalized, normalizeAnswer(option))));
+};
+
+// Whether an answer is one of the accepted answers once normalized
+export const isExactTextMatch = (answer: string, accepted: string[]) => {
+  const normalized = normalizeAnswer(answer);
+  return !!normalized && accepted.some(option => normalizeAnswer(option) === normalized);
+};
+
+// Whether an answer counts as one of the accepted answers: the same text, or one typo in a long answer
+export const isAcceptedTextAnswer = (answer: string, accepted: string[]) => {
+  const normalized = normalizeAnswer(answer);
+  return !!normalized && accepted.some(option => isSameOrTypo(normalized, normalizeAnswer(option)));
+};
+
+// Whether an answer mentions a term: some run of its words is the term, allowing one typo in a long term
+export const containsTerm = (answer: string, term: string) => {
+  const words = normalizeAnswer(answer).split(' ');
+  const target = normalizeAnswer(term);
+  const termLength = target.split(' ').length;
+  if (!target) return false;
+  for (let start = 0; start + termLength <= words.length; start++) {
+    if (isSameOrTypo(words.slice(start, start + termLength).join(' '), target)) {
+      return true;
+    }
+  }
+  return false;
+};
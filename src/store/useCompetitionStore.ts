@@ -1,7 +1,8 @@
 // src/store/useCompetitionStore.ts
 import { create } from 'zustand';
 import { supabase } from '../services/supabase';
-import { generateQuiz } from '../services/gemini';
+import { generateCachedQuiz } from '../services/questionCache';
+import { resolveMarkingScheme, scoreQuiz } from '../services/scoring';
 import { 
   Competition, 
   CompetitionParticipant, 
@@ -11,6 +12,7 @@ import {
   CompetitionInvite,
   LiveCompetitionData
 } from '../types/competition';
+import { ProviderSettings, QuizPreferences } from '../types';
 
 interface CompetitionState {
   // State
@@ -41,6 +43,7 @@ interface CompetitionState {
   loadCompetition: (id: string) => Promise<void>;
   loadParticipants: (competitionId: string) => Promise<void>;
   updateParticipantProgress: (competitionId: string, answers: any, score: number, correctAnswers: number, timeTaken: number, currentQuestion?: number) => Promise<void>;
+  submitAnswers: (competitionId: string, answers: Record<number, string>, timeTaken: number, currentQuestion?: number) => Promise<void>;
   markParticipantReady: (competitionId: string) => Promise<void>;
   completeCompetition: (competitionId: string) => Promise<void>;
   loadUserStats: (userId: string) => Promise<void>;
@@ -50,7 +53,7 @@ interface CompetitionState {
   sendChatMessage: (competitionId: string, message: string) => Promise<void>;
   loadPendingInvites: (userId: string) => Promise<void>;
   respondToInvite: (competitionId: string, accept: boolean) => Promise<void>;
-  startCompetition: (competitionId: string, apiKey?: string) => Promise<void>;
+  startCompetition: (competitionId: string, providerSettings?: ProviderSettings) => Promise<void>;
   
   // Real-time subscriptions
   subscribeToCompetition: (competitionId: string) => () => void;
@@ -769,6 +772,24 @@ loadParticipants: async (competitionId: string) => {
     }
   },
 
+  // Score answers to the current competition's questions the same way as a solo quiz, under the
+  // competition's rubric and marking scheme, and record the progress
+  submitAnswers: async (competitionId, answers, timeTaken, currentQuestion) => {
+    const { currentCompetition, updateParticipantProgress } = get();
+    if (!currentCompetition?.questions) {
+      set({ error: 'Competition questions are not loaded' });
+      return;
+    }
+
+    const preferences: Partial<QuizPreferences> = currentCompetition.quiz_preferences || {};
+    const { points, correctAnswers } = scoreQuiz(currentCompetition.questions, answers, {
+      rubric: preferences.scoringRubric,
+      markingScheme: resolveMarkingScheme(preferences.markingScheme)
+    });
+    // Partial credit can leave long fractions, which the leaderboard has no use for
+    await updateParticipantProgress(competitionId, answers, Math.round(points * 100) / 100, correctAnswers, timeTaken, currentQuestion);
+  },
+
   completeCompetition: async (competitionId) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -907,72 +928,22 @@ loadParticipants: async (competitionId: string) => {
 
   checkForMatches: async (topic, difficulty, language) => {
     try {
-      const { data: waitingUsers } = await supabase
-        .from('random_queue')
-        .select('*')
-        .eq('topic', topic)
-        .eq('difficulty', difficulty)
-        .eq('language', language)
-        .eq('status', 'waiting')
-        .limit(8); // Max 8 players for random match
-
-      if (waitingUsers && waitingUsers.length >= 2) {
-        // Create random competition
-        const competitionData = {
-          creator_id: waitingUsers[0].user_id,
-          title: `Random ${topic} Challenge`,
-          description: `${difficulty} difficulty ${topic} competition`,
-          competition_code: Math.random().toString(36).substring(2, 8).toUpperCase(),
-          type: 'random',
-          max_participants: waitingUsers.length,
-          quiz_preferences: {
-            course: topic,
-            difficulty,
-            language,
-            questionCount: 10,
-            questionTypes: ['multiple-choice', 'true-false'],
-            mode: 'exam',
-            timeLimitEnabled: true,
-            timeLimit: '30',
-            totalTimeLimit: '600'
-          }
-        };
-
-        const { data: competition } = await supabase
-          .from('competitions')
-          .insert(competitionData)
-          .select()
-          .single();
-
-        if (competition) {
-          // Add all waiting users as participants
-          const participants = waitingUsers.map(user => ({
-            competition_id: competition.id,
-            user_id: user.user_id,
-            status: 'joined',
-            joined_at: new Date().toISOString(),
-            is_online: true,
-            last_activity: new Date().toISOString(),
-            current_question: 0,
-            questions_answered: 0,
-            is_ready: false
-          }));
-
-          await supabase
-            .from('competition_participants')
-            .insert(participants);
-
-          // Update queue status
-          await supabase
-            .from('random_queue')
-            .update({ status: 'matched' })
-            .in('id', waitingUsers.map(u => u.id));
-
-          // Start competition after 30 seconds
-          setTimeout(() => {
-            get().startCompetition(competition.id);
-          }, 30000);
-        }
+      // Players are matched and given a vetted question set from the pool in one transaction,
+      // so a match never starts without questions. No match yet returns null.
+      const { data: competitionId, error } = await supabase.rpc('create_random_match', {
+        p_topic: topic,
+        p_difficulty: difficulty,
+        p_language: language
+      });
+
+      if (error) throw error;
+
+      if (competitionId) {
+        // Start competition after 30 seconds
+        setTimeout(() => {
+          get().startCompetition(competitionId)
+            .catch(error => console.error('Failed to start random match:', error));
+        }, 30000);
       }
     } catch (error: any) {
       console.error('Error checking for matches:', error);
@@ -995,7 +966,7 @@ loadParticipants: async (competitionId: string) => {
     }
   },
 
-  startCompetition: async (competitionId, apiKey) => {
+  startCompetition: async (competitionId, providerSettings) => {
     try {
       console.log('Starting competition:', competitionId);
       
@@ -1016,13 +987,15 @@ loadParticipants: async (competitionId: string) => {
         throw new Error('Only the competition creator can start the competition');
       }
 
-      // Generate questions if not already generated and API key is provided
+      // Generate questions if not already generated, drawing from the question cache first.
+      // Without an AI provider the cache is the only source.
       let questionsToStore = competition.questions;
       
-      if (!questionsToStore && apiKey && competition.quiz_preferences) {
+      if (!questionsToStore && competition.quiz_preferences) {
         console.log('Generating questions for competition...');
         try {
-          const generatedQuestions = await generateQuiz(apiKey, competition.quiz_preferences);
+          // Every participant sees the same set, so no single user's seen history applies
+          const generatedQuestions = await generateCachedQuiz(providerSettings || null, competition.quiz_preferences, {}, { trackSeen: false });
           questionsToStore = generatedQuestions;
           console.log('Questions generated successfully:', generatedQuestions.length);
         } catch (error: any) {
@@ -1,38 +1,86 @@
-import { create } from 'zustand';
-import { ApiKeyData, Question, QuizPreferences, QuizResult } from '../types';
-import { getApiKey, getQuizPreferences, saveApiKey, saveQuizPreferences } from '../services/supabase';
-import { generateQuiz, getAnswerExplanation } from '../services/gemini';
+import { create, StoreApi } from 'zustand';
+import { AIQuota, AIUsageRecord, ApiKeyData, GenerationProgress, ProviderSettings, Question, QuizCheckpoint, QuizPreferences, QuizResult, QuizResultData } from '../types';
+import { getAIQuotas, getAIUsage, getApiKeyData, getQuizAttempt, getQuizPreferences, getQuizResults, saveApiKey, saveApiKeyData, saveOpenAIApiKey, saveQuizPreferences, saveQuizResult } from '../services/supabase';
+import { evaluateTextAnswer, getAnswerExplanation, TextAnswerToEvaluate } from '../services/gemini';
+import { generateCachedQuiz } from '../services/questionCache';
+import { resolveProviderSettings, verifyGeminiApiKey } from '../services/providers';
+import { getBloomTotal, tallyBloomLevels } from '../services/bloom';
+import { formatCorrectAnswer, getEvaluationKey, gradeQuestion, needsEvaluation, resolveMarkingScheme, scoreQuiz, TextEvaluation } from '../services/scoring';
+import { parsePartAnswers } from '../services/passage';
+import { truncateStudyMaterial } from '../services/studyMaterial';
+import { chooseNextDifficulty, estimateAbility, getAdaptiveQuestionPreferences } from '../services/adaptive';
+import { clearQuizCheckpoint, getCheckpointTimeRemaining, getQuizCheckpoint, saveQuizCheckpoint } from '../services/checkpoint';
 
 interface QuizState {
   preferences: QuizPreferences | null;
-  apiKey: string | null;
+  apiKeyData: ApiKeyData | null;
+  providerSettings: ProviderSettings | null;
   questions: Question[];
   currentQuestionIndex: number;
+  currentPartIndex: number; // Part of the current passage being shown; 0 for other questions
   answers: Record<number, string>;
+  questionTimes: Record<number, number>; // Seconds spent on each question so far, by id
+  // Practice answers checked with "Check Answer", by question id: the revealed part indices,
+  // or [0] for questions without parts. Revealed answers are locked.
+  revealedAnswers: Record<number, number[]>;
+  questionShownAt: number | null; // When the current question, or passage part, was shown; null while none is
   result: QuizResult | null;
   isLoading: boolean;
+  isGenerating: boolean;
+  isGrading: boolean; // Typed answers are with the AI grader
+  generationProgress: GenerationProgress | null;
   error: string | null;
   explanation: string | null;
+  aiUsage: AIUsageRecord[];
+  aiQuotas: AIQuota[];
+  quizResults: QuizResultData[]; // Past quizzes, newest first
+  quizAttempt: QuizResultData | null; // A past quiz with its questions, for replay
+  checkpoint: QuizCheckpoint | null; // An unfinished quiz found on loading, offered for resuming
+  resumedTimeRemaining: number | null; // Seconds left on the total timer of a resumed quiz
   
   // Preference actions
   loadApiKey: (userId: string) => Promise<void>;
   saveApiKey: (userId: string, apiKey: string) => Promise<void>;
+  saveProviderSettings: (
+    userId: string,
+    apiKeyData: Omit<ApiKeyData, 'userId' | 'geminiKeyHint' | 'geminiKeyStatus' | 'openaiKeyHint'>,
+    geminiApiKey?: string,
+    openaiApiKey?: string
+  ) => Promise<void>;
   loadPreferences: (userId: string) => Promise<void>;
   savePreferences: (userId: string, preferences: QuizPreferences) => Promise<void>;
   
   // Quiz actions
   generateQuiz: (userId: string) => Promise<void>;
   answerQuestion: (questionId: number, answer: string) => void;
+  revealAnswer: (questionId: number, partIndex: number) => void;
   nextQuestion: () => void;
   prevQuestion: () => void;
-  finishQuiz: () => void;
+  selectPart: (partIndex: number) => void;
+  finishQuiz: (userId?: string) => Promise<void>;
   resetQuiz: () => void;
   
+  // Resuming
+  loadCheckpoint: (userId: string) => Promise<void>;
+  saveCheckpoint: (userId: string, timeRemaining: number | null) => void;
+  resumeQuiz: () => void;
+  discardCheckpoint: (userId: string) => Promise<void>;
+  
   // Explanation
   getExplanation: (questionId: number) => Promise<void>;
   resetExplanation: () => void;
+
+  // Usage
+  loadUsage: (userId: string) => Promise<void>;
+
+  // Progress
+  loadQuizResults: (userId: string) => Promise<void>;
+  loadQuizAttempt: (userId: string, attemptId: string) => Promise<void>;
 }
 
+// Days of usage history shown on the API settings page
+const USAGE_HISTORY_DAYS = 14;
+
 export const defaultPreferences: QuizPreferences = {
   course: '',
   topic: '',
@@ -44,28 +92,152 @@ export const defaultPreferences: QuizPreferences = {
   timeLimit: null,
   totalTimeLimit: null,
   timeLimitEnabled: false,
-  negativeMarking: false,
-  negativeMarks: 0,
   mode: 'practice',
   answerMode: 'immediate'
 };
 
+// Save a Gemini key to Vault and check it with Google right away. A failed check leaves the
+// key unverified; the gemini function updates its status on the next request.
+const storeGeminiApiKey = async (apiKey: string) => {
+  const { error } = await saveApiKey(apiKey);
+  if (error) throw error;
+  try {
+    await verifyGeminiApiKey();
+  } catch (error: any) {
+    console.warn('Could not verify the Gemini API key:', error.message);
+  }
+};
+
+// Ability shown by an adaptive quiz's answers so far; unanswered questions count as wrong
+const estimateQuizAbility = (
+  questions: Question[],
+  answers: Record<number, string>,
+  preferences: QuizPreferences,
+  evaluations?: Record<string, TextEvaluation>
+) =>
+  estimateAbility(questions.map(question => ({
+    difficulty: question.difficulty,
+    score: gradeQuestion(question, answers[question.id], preferences.scoringRubric, evaluations).score || 0
+  })));
+
+// Have the AI grader settle the typed answers local matching could not, in one batched call.
+// Any failure leaves the local grades in place.
+const evaluateTypedAnswers = async (
+  settings: ProviderSettings | null,
+  questions: Question[],
+  answers: Record<number, string>,
+  preferences: QuizPreferences | null
+): Promise<Record<string, TextEvaluation>> => {
+  const pending: { key: string; answer: TextAnswerToEvaluate }[] = [];
+  const collect = (question: Exclude<Question, { type: 'passage' }>, userAnswer: string | undefined, key: string) => {
+    if (userAnswer && (question.type === 'short-answer' || question.type === 'fill-blank') &&
+        needsEvaluation(question, userAnswer, preferences?.scoringRubric)) {
+      pending.push({
+        key,
+        answer: { question: question.text, userAnswer, correctAnswer: question.correctAnswer, keywords: question.keywords || [] }
+      });
+    }
+  };
+  questions.forEach(question => {
+    if (question.type === 'passage') {
+      const partAnswers = parsePartAnswers(answers[question.id], question.parts.length);
+      question.parts.forEach((part, index) => collect(part, partAnswers[index], getEvaluationKey(question.id, index + 1)));
+    } else {
+      collect(question, answers[question.id], getEvaluationKey(question.id));
+    }
+  });
+  if (!settings || pending.length === 0) return {};
+
+  try {
+    const verdicts = await evaluateTextAnswer(settings, pending.map(({ answer }) => answer), preferences?.language || 'English');
+    return Object.fromEntries(pending.flatMap(({ key }, index) => verdicts[index] ? [[key, verdicts[index]!]] : []));
+  } catch (error: any) {
+    console.warn('AI grading unavailable, keeping the local grades:', error.message);
+    return {};
+  }
+};
+
+// Add the time since the current question was shown to its total, when one is being timed
+const recordQuestionTime = (state: QuizState): Partial<QuizState> => {
+  const question = state.questions[state.currentQuestionIndex];
+  if (!question || state.questionShownAt === null) return {};
+  const now = Date.now();
+  return {
+    questionTimes: { ...state.questionTimes, [question.id]: (state.questionTimes[question.id] || 0) + (now - state.questionShownAt) / 1000 },
+    questionShownAt: now
+  };
+};
+
+// Incremented whenever a quiz is generated or reset so that questions still
+// streaming in from an abandoned generation are not appended to the new quiz
+let activeGeneration = 0;
+
+// Generate, or draw from the cache, the next question of an adaptive quiz at the difficulty
+// closest to the ability estimated so far, and move on to it once it arrives
+const loadAdaptiveQuestion = async (get: () => QuizState, set: StoreApi<QuizState>['setState']) => {
+  const { preferences, providerSettings, questions, answers } = get();
+  if (!preferences || !providerSettings) return;
+
+  const generation = ++activeGeneration;
+  const difficulty = questions.length > 0 ? chooseNextDifficulty(estimateQuizAbility(questions, answers, preferences)) : 'intermediate';
+  set({ isGenerating: true, generationProgress: null, error: null });
+  try {
+    await generateCachedQuiz(providerSettings, getAdaptiveQuestionPreferences(preferences, questions.length, difficulty), {
+      onQuestion: (question) => {
+        if (generation !== activeGeneration) return;
+        set((state) => ({
+          questions: [...state.questions, { ...question, id: state.questions.length + 1 }],
+          currentQuestionIndex: state.questions.length,
+          currentPartIndex: 0,
+          questionShownAt: Date.now(),
+          isLoading: false
+        }));
+      }
+    }, { askedQuestions: questions });
+  } catch (error: any) {
+    if (generation === activeGeneration) {
+      set({ error: error.message || 'Failed to generate the next question' });
+    }
+  } finally {
+    if (generation === activeGeneration) {
+      set({ isLoading: false, isGenerating: false });
+    }
+  }
+};
+
 export const useQuizStore = create<QuizState>((set, get) => ({
   preferences: defaultPreferences,
-  apiKey: null,
+  apiKeyData: null,
+  providerSettings: resolveProviderSettings(null),
   questions: [],
   currentQuestionIndex: 0,
+  currentPartIndex: 0,
   answers: {},
+  questionTimes: {},
+  revealedAnswers: {},
+  questionShownAt: null,
   result: null,
   isLoading: false,
+  isGenerating: false,
+  isGrading: false,
+  generationProgress: null,
   error: null,
   explanation: null,
+  aiUsage: [],
+  aiQuotas: [],
+  quizResults: [],
+  quizAttempt: null,
+  checkpoint: null,
+  resumedTimeRemaining: null,
   
   loadApiKey: async (userId) => {
     set({ isLoading: true, error: null });
     try {
-      const apiKey = await getApiKey(userId);
-      set({ apiKey });
+      const apiKeyData = await getApiKeyData(userId);
+      set({
+        apiKeyData,
+        providerSettings: resolveProviderSettings(apiKeyData)
+      });
     } catch (error: any) {
       set({ error: error.message || 'Failed to load API key' });
     } finally {
@@ -76,8 +248,15 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   saveApiKey: async (userId, apiKey) => {
     set({ isLoading: true, error: null });
     try {
-      await saveApiKey(userId, apiKey);
-      set({ apiKey });
+      await storeGeminiApiKey(apiKey);
+      const apiKeyData = await getApiKeyData(userId);
+      set({
+        apiKeyData,
+        providerSettings: resolveProviderSettings(apiKeyData)
+      });
+      if (apiKeyData?.geminiKeyStatus === 'invalid') {
+        set({ error: 'Google rejected this API key. Please check it and try again.' });
+      }
     } catch (error: any) {
       set({ error: error.message || 'Failed to save API key' });
     } finally {
@@ -85,11 +264,40 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
   },
   
+  saveProviderSettings: async (userId, data, geminiApiKey, openaiApiKey) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { error } = await saveApiKeyData(userId, data);
+      if (error) throw error;
+      if (geminiApiKey) {
+        await storeGeminiApiKey(geminiApiKey);
+      }
+      if (openaiApiKey) {
+        const { error: keyError } = await saveOpenAIApiKey(openaiApiKey);
+        if (keyError) throw keyError;
+      }
+      const apiKeyData = await getApiKeyData(userId);
+      set({
+        apiKeyData,
+        providerSettings: resolveProviderSettings(apiKeyData)
+      });
+      if (geminiApiKey && apiKeyData?.geminiKeyStatus === 'invalid') {
+        throw new Error('Google rejected this API key. Please check it and try again.');
+      }
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to save provider settings' });
+      throw error;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+  
   loadPreferences: async (userId) => {
     set({ isLoading: true, error: null });
     try {
       const preferences = await getQuizPreferences(userId);
-      set({ preferences: preferences || defaultPreferences });
+      // A quiz under way, such as a resumed one, keeps the preferences it was started with
+      set((state) => state.questions.length > 0 && !state.result ? {} : { preferences: preferences || defaultPreferences });
     } catch (error: any) {
       set({ error: error.message || 'Failed to load preferences' });
     } finally {
@@ -117,10 +325,12 @@ export const useQuizStore = create<QuizState>((set, get) => ({
         timeLimitEnabled: preferences.timeLimitEnabled || false,
         timeLimit: preferences.timeLimitEnabled ? preferences.timeLimit : null,
         totalTimeLimit: preferences.timeLimitEnabled ? preferences.totalTimeLimit : null,
-        negativeMarking: preferences.negativeMarking || false,
-        negativeMarks: preferences.negativeMarking ? (preferences.negativeMarks || -0.25) : 0,
+        markingScheme: preferences.markingScheme ? resolveMarkingScheme(preferences.markingScheme) : undefined,
         mode: preferences.mode || 'practice',
-        answerMode: preferences.mode === 'practice' ? 'immediate' : 'end'
+        answerMode: preferences.mode === 'practice' ? 'immediate' : 'end',
+        bloomDistribution: preferences.bloomDistribution && getBloomTotal(preferences.bloomDistribution) > 0
+          ? preferences.bloomDistribution
+          : undefined
       };
       
       await saveQuizPreferences(userId, validatedPreferences);
@@ -134,34 +344,76 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   },
   
   generateQuiz: async (userId) => {
-    const { preferences, apiKey } = get();
-    set({ isLoading: true, error: null, questions: [], answers: {}, result: null });
+    const { preferences, providerSettings } = get();
+    const generation = ++activeGeneration;
+    set({
+      isLoading: true, error: null, questions: [], currentQuestionIndex: 0, currentPartIndex: 0,
+      answers: {}, questionTimes: {}, revealedAnswers: {}, questionShownAt: null, result: null, checkpoint: null, resumedTimeRemaining: null
+    });
+    // A new quiz replaces any unfinished one
+    clearQuizCheckpoint(userId);
     
-    if (!preferences || !apiKey) {
+    if (!preferences || !providerSettings) {
       set({ 
         error: !preferences 
           ? 'Quiz preferences not set' 
-          : 'Gemini API key not set',
+          : 'AI provider not configured',
         isLoading: false 
       });
       return;
     }
     
+    // Adaptive quizzes are generated one question at a time, as the learner answers
+    if (preferences.mode === 'adaptive') {
+      await loadAdaptiveQuestion(get, set);
+      return;
+    }
+    
+    set({ isGenerating: true, generationProgress: null });
     try {
-      const questions = await generateQuiz(apiKey, preferences);
-      set({ 
-        questions, 
-        currentQuestionIndex: 0,
-        answers: {},
+      // Questions are appended as they stream in so the quiz can start before generation finishes.
+      // Unseen cached questions for the same preferences are served first.
+      await generateCachedQuiz(providerSettings, preferences, {
+        onQuestion: (question) => {
+          if (generation !== activeGeneration) return;
+          // The first question is shown as soon as it arrives
+          set((state) => ({
+            questions: [...state.questions, question],
+            questionShownAt: state.questions.length === 0 ? Date.now() : state.questionShownAt,
+            isLoading: false
+          }));
+        },
+        onProgress: (generationProgress) => {
+          if (generation !== activeGeneration) return;
+          set({ generationProgress });
+        }
       });
     } catch (error: any) {
-      set({ error: error.message || 'Failed to generate quiz' });
+      if (generation === activeGeneration) {
+        set({ error: error.message || 'Failed to generate quiz' });
+      }
     } finally {
-      set({ isLoading: false });
+      if (generation === activeGeneration) {
+        set({ isLoading: false, isGenerating: false });
+      }
     }
   },
   
   answerQuestion: (questionId, answer) => {
+    // An adaptive quiz has already chosen questions based on earlier answers, so only the newest can change
+    const { preferences, questions, isGenerating, answers, revealedAnswers } = get();
+    if (preferences?.mode === 'adaptive' && (isGenerating || questions[questions.length - 1]?.id !== questionId)) {
+      return;
+    }
+    // Once the solution has been shown, the answer it was checked against cannot change
+    const revealedParts = revealedAnswers[questionId] || [];
+    const question = questions.find(q => q.id === questionId);
+    if (revealedParts.length > 0) {
+      if (question?.type !== 'passage') return;
+      const before = parsePartAnswers(answers[questionId], question.parts.length);
+      const after = parsePartAnswers(answer, question.parts.length);
+      if (revealedParts.some(index => before[index] !== after[index])) return;
+    }
     set((state) => ({
       answers: {
         ...state.answers,
@@ -169,11 +421,36 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       }
     }));
   },
+
+  revealAnswer: (questionId, partIndex) => {
+    set((state) => {
+      const revealedParts = state.revealedAnswers[questionId] || [];
+      if (revealedParts.includes(partIndex)) return state;
+      return { revealedAnswers: { ...state.revealedAnswers, [questionId]: [...revealedParts, partIndex] } };
+    });
+  },
   
   nextQuestion: () => {
+    const { preferences, questions, currentQuestionIndex, currentPartIndex, isGenerating } = get();
+    const current = questions[currentQuestionIndex];
+    const isLastPart = current?.type !== 'passage' || currentPartIndex === current.parts.length - 1;
+    if (preferences?.mode === 'adaptive' && isLastPart && currentQuestionIndex === questions.length - 1) {
+      if (!isGenerating && questions.length < preferences.questionCount) {
+        // Waiting for the next question does not count towards this one
+        set((state) => ({ ...recordQuestionTime(state), questionShownAt: null }));
+        loadAdaptiveQuestion(get, set);
+      }
+      return;
+    }
+    
     set((state) => {
+      // Step through a passage's parts before moving on
+      const question = state.questions[state.currentQuestionIndex];
+      if (question?.type === 'passage' && state.currentPartIndex < question.parts.length - 1) {
+        return { ...recordQuestionTime(state), currentPartIndex: state.currentPartIndex + 1 };
+      }
       if (state.currentQuestionIndex < state.questions.length - 1) {
-        return { currentQuestionIndex: state.currentQuestionIndex + 1 };
+        return { ...recordQuestionTime(state), currentQuestionIndex: state.currentQuestionIndex + 1, currentPartIndex: 0 };
       }
       return state;
     });
@@ -181,121 +458,186 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   
   prevQuestion: () => {
     set((state) => {
-      if (state.currentQuestionIndex > 0) {
-        return { currentQuestionIndex: state.currentQuestionIndex - 1 };
+      if (state.currentPartIndex > 0) {
+        return { ...recordQuestionTime(state), currentPartIndex: state.currentPartIndex - 1 };
+      }
+      // Answered questions of an adaptive quiz are final
+      if (state.currentQuestionIndex > 0 && state.preferences?.mode !== 'adaptive') {
+        // Going back into a passage lands on its last part
+        const previous = state.questions[state.currentQuestionIndex - 1];
+        return {
+          ...recordQuestionTime(state),
+          currentQuestionIndex: state.currentQuestionIndex - 1,
+          currentPartIndex: previous.type === 'passage' ? previous.parts.length - 1 : 0
+        };
       }
       return state;
     });
   },
   
-  finishQuiz: () => {
-    const { questions, answers, preferences } = get();
-    
-    let correctAnswers = 0;
-    let finalScore = 0;
-    
-    const questionsWithAnswers = questions.map(question => {
-      const userAnswer = answers[question.id];
-      let isCorrect = false;
-      
-      // Handle different question types correctly
-      switch (question.type) {
-        case 'multiple-choice':
-        case 'true-false':
-        case 'case-study':
-        case 'situation':
-          isCorrect = userAnswer && question.correctAnswer && 
-                     userAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
-          break;
-          
-        case 'multi-select':
-          if (userAnswer && question.correctOptions) {
-            const userOptions = userAnswer.split(',').sort();
-            const correctOptions = question.correctOptions.sort();
-            isCorrect = userOptions.length === correctOptions.length &&
-                       userOptions.every((opt, index) => opt === correctOptions[index]);
-          }
-          break;
-          
-        case 'sequence':
-          if (userAnswer && question.correctSequence) {
-            const userSequence = userAnswer.split(',');
-            isCorrect = userSequence.length === question.correctSequence.length &&
-                       userSequence.every((step, index) => step === question.correctSequence![index]);
-          }
-          break;
-          
-        case 'short-answer':
-        case 'fill-blank':
-          if (userAnswer && question.correctAnswer) {
-            // Check exact match or keyword match
-            const userLower = userAnswer.toLowerCase().trim();
-            const correctLower = question.correctAnswer.toLowerCase().trim();
-            isCorrect = userLower === correctLower;
-            
-            // If not exact match, check keywords
-            if (!isCorrect && question.keywords) {
-              isCorrect = question.keywords.some(keyword => 
-                userLower.includes(keyword.toLowerCase())
-              );
-            }
-          }
-          break;
-          
-        default:
-          isCorrect = false;
-      }
-      
-      if (isCorrect) {
-        correctAnswers++;
-        finalScore += 1; // Each correct answer is worth 1 point
-      } else if (userAnswer && preferences?.negativeMarking) {
-        // Apply negative marking only if an answer was given
-        finalScore += preferences.negativeMarks || 0;
+  selectPart: (partIndex) => {
+    set((state) => {
+      const question = state.questions[state.currentQuestionIndex];
+      if (question?.type === 'passage' && partIndex >= 0 && partIndex < question.parts.length) {
+        return { ...recordQuestionTime(state), currentPartIndex: partIndex };
       }
-      
-      return {
-        ...question,
-        userAnswer,
-        isCorrect
-      };
+      return state;
     });
+  },
+  
+  finishQuiz: async (userId) => {
+    if (userId) clearQuizCheckpoint(userId);
+    set((state) => ({ ...recordQuestionTime(state), questionShownAt: null, resumedTimeRemaining: null, checkpoint: null }));
+    const { questions, answers, questionTimes, preferences, providerSettings } = get();
+    const isAdaptive = preferences?.mode === 'adaptive';
+    if (isAdaptive) {
+      // A question still on its way would arrive after the quiz is over
+      activeGeneration++;
+      set({ isGenerating: false });
+    }
     
-    // Ensure final score is not negative
-    finalScore = Math.max(0, finalScore);
+    // Resetting while the grader works abandons this result
+    const generation = activeGeneration;
+    set({ isGrading: true });
+    const evaluations = await evaluateTypedAnswers(providerSettings, questions, answers, preferences);
+    if (generation !== activeGeneration) return;
     
+    // Partial credit follows the quiz's rubric, and marks and penalties its marking scheme
+    const markingScheme = resolveMarkingScheme(preferences?.markingScheme);
+    const { questions: questionsWithAnswers, correctAnswers, points, maxPoints, percentage } = scoreQuiz(questions, answers, {
+      rubric: preferences?.scoringRubric,
+      markingScheme,
+      evaluations
+    });
+    
+    const roundedTimes = Object.fromEntries(
+      Object.entries(questionTimes).map(([id, seconds]) => [id, Math.round(seconds)])
+    );
     const result: QuizResult = {
       totalQuestions: questions.length,
       correctAnswers,
-      percentage: questions.length > 0 ? Math.round((finalScore / questions.length) * 100) : 0,
-      questions: questionsWithAnswers
+      points,
+      maxPoints,
+      percentage,
+      markingScheme: markingScheme.id,
+      questions: questionsWithAnswers,
+      ability: isAdaptive && preferences ? estimateQuizAbility(questions, answers, preferences, evaluations) : undefined,
+      questionTimes: roundedTimes,
+      timeTaken: Math.round(Object.values(questionTimes).reduce((sum, seconds) => sum + seconds, 0))
     };
     
-    set({ result });
+    set({ result, isGrading: false });
+    
+    // Saved in the background as a full record of the attempt, for the attempt history and the
+    // progress tracker. Study material is left out of the saved preferences, as it can be long.
+    if (userId) {
+      saveQuizResult(userId, {
+        quizDate: new Date(),
+        topic: [preferences?.course, preferences?.topic].filter(Boolean).join(' - ') ||
+          preferences?.studyMaterial?.map(material => material.name).join(', ') || 'Study material',
+        score: correctAnswers,
+        totalQuestions: questions.length,
+        timeTaken: result.timeTaken,
+        bloomLevels: tallyBloomLevels(questionsWithAnswers),
+        points,
+        maxPoints,
+        markingScheme: markingScheme.id,
+        preferences: preferences ? { ...preferences, studyMaterial: undefined } : undefined,
+        questions: questionsWithAnswers,
+        questionTimes: roundedTimes,
+        ability: result.ability
+      }).then(({ error }) => {
+        if (error) console.warn('Failed to save quiz result:', error.message);
+      });
+    }
   },
   
   resetQuiz: () => {
+    activeGeneration++;
     set({
+      isGenerating: false,
+      isGrading: false,
+      generationProgress: null,
       questions: [],
       currentQuestionIndex: 0,
+      currentPartIndex: 0,
       answers: {},
+      questionTimes: {},
+      revealedAnswers: {},
+      questionShownAt: null,
+      resumedTimeRemaining: null,
+      checkpoint: null,
       result: null,
       error: null
     });
   },
+
+  loadCheckpoint: async (userId) => {
+    set({ checkpoint: await getQuizCheckpoint(userId) });
+  },
+
+  saveCheckpoint: (userId, timeRemaining) => {
+    const state = get();
+    if (!state.preferences || state.questions.length === 0 || state.result) return;
+    const { studyMaterial } = state.preferences;
+    saveQuizCheckpoint(userId, {
+      // Only the material the model is sent is kept, so large uploads do not fill storage
+      preferences: studyMaterial ? { ...state.preferences, studyMaterial: truncateStudyMaterial(studyMaterial) } : state.preferences,
+      questions: state.questions,
+      answers: state.answers,
+      currentQuestionIndex: state.currentQuestionIndex,
+      currentPartIndex: state.currentPartIndex,
+      questionTimes: state.questionTimes,
+      questionElapsed: state.questionShownAt === null ? 0 : (Date.now() - state.questionShownAt) / 1000,
+      revealedAnswers: state.revealedAnswers,
+      timeRemaining,
+      savedAt: Date.now()
+    });
+  },
+
+  // Pick the checkpointed quiz up where it was left. Questions still being generated when the
+  // quiz was interrupted are not resumed.
+  resumeQuiz: () => {
+    const { checkpoint } = get();
+    if (!checkpoint) return;
+    activeGeneration++;
+    set({
+      preferences: checkpoint.preferences,
+      questions: checkpoint.questions,
+      answers: checkpoint.answers,
+      currentQuestionIndex: checkpoint.currentQuestionIndex,
+      currentPartIndex: checkpoint.currentPartIndex,
+      questionTimes: checkpoint.questionTimes,
+      revealedAnswers: checkpoint.revealedAnswers || {},
+      // The current question carries on timing from where it was saved
+      questionShownAt: Date.now() - (checkpoint.questionElapsed || 0) * 1000,
+      resumedTimeRemaining: getCheckpointTimeRemaining(checkpoint),
+      result: null,
+      error: null,
+      isGenerating: false,
+      isGrading: false,
+      generationProgress: null,
+      checkpoint: null
+    });
+  },
+
+  discardCheckpoint: async (userId) => {
+    set({ checkpoint: null });
+    await clearQuizCheckpoint(userId);
+  },
   
   getExplanation: async (questionId) => {
-    const { questions, apiKey, preferences } = get();
+    const { questions, providerSettings, preferences } = get();
     set({ isLoading: true, error: null, explanation: null });
     
     const question = questions.find(q => q.id === questionId);
     
-    if (!question || !apiKey || !preferences) {
+    if (!question || !providerSettings || !preferences) {
       set({ 
         error: !question 
           ? 'Question not found' 
-          : !apiKey 
-            ? 'API key not set'
+          : !providerSettings 
+            ? 'AI provider not configured'
             : 'Preferences not set',
         isLoading: false 
       });
@@ -303,10 +645,14 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     }
     
     try {
+      // A passage's answers are listed by part, so its parts are asked by number as well
+      const prompt = question.type === 'passage'
+        ? [question.text, ...question.parts.map((part, index) => `${index + 1}. ${part.text}`)].join('\n')
+        : question.text;
       const explanation = await getAnswerExplanation(
-        apiKey,
-        question.text,
-        question.correctAnswer || 'N/A',
+        providerSettings,
+        prompt,
+        formatCorrectAnswer(question),
         preferences.topic || preferences.course,
         preferences.language
       );
@@ -321,5 +667,43 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   
   resetExplanation: () => {
     set({ explanation: null });
+  },
+
+  loadUsage: async (userId) => {
+    // Quotas reset at midnight UTC, so history is bucketed by UTC day
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (USAGE_HISTORY_DAYS - 1));
+
+    try {
+      const [aiUsage, aiQuotas] = await Promise.all([getAIUsage(userId, since), getAIQuotas(userId)]);
+      set({ aiUsage, aiQuotas });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to load AI usage' });
+    }
+  },
+
+  loadQuizResults: async (userId) => {
+    set({ isLoading: true, error: null });
+    try {
+      set({ quizResults: await getQuizResults(userId) });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to load quiz results' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  loadQuizAttempt: async (userId, attemptId) => {
+    set({ isLoading: true, error: null, quizAttempt: null });
+    try {
+      const quizAttempt = await getQuizAttempt(userId, attemptId);
+      if (!quizAttempt) throw new Error('Quiz attempt not found');
+      set({ quizAttempt });
+    } catch (error: any) {
+      set({ error: error.message || 'Failed to load quiz attempt' });
+    } finally {
+      set({ isLoading: false });
+    }
   }
 }));
\ No newline at end of file
@@ -18,9 +18,49 @@ export type UserProfile = {
   updatedAt: Date;
 };
 
+// Supported LLM providers for quiz generation and evaluation
+export type AIProvider = 'gemini' | 'openai' | 'ollama' | 'fixture';
+
+// Whether Google has accepted the stored Gemini key
+export type GeminiKeyStatus = 'missing' | 'unverified' | 'valid' | 'invalid';
+
 export type ApiKeyData = {
   userId: string;
-  geminiApiKey: string;
+  geminiKeyHint?: string; // Last four characters; the key itself never leaves the server
+  geminiKeyStatus: GeminiKeyStatus;
+  openaiKeyHint?: string; // Last four characters; like the Gemini key, it stays on the server
+  openaiBaseUrl?: string;
+  ollamaBaseUrl?: string;
+  provider: AIProvider;
+  model?: string;
+};
+
+// Features that make AI requests, used to meter usage and apply quotas
+export type AIFeature = 'quiz' | 'explanation' | 'evaluation' | 'notes';
+
+// One metered AI request
+export type AIUsageRecord = {
+  feature: AIFeature;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  createdAt: Date;
+};
+
+// A daily limit; a null feature limits all features together
+export type AIQuota = {
+  feature: AIFeature | null;
+  dailyRequests: number | null;
+  dailyTokens: number | null;
+  isPersonal: boolean; // Set for the user specifically rather than the default for everyone
+};
+
+// Resolved connection settings for the provider a request should use
+export type ProviderSettings = {
+  provider: AIProvider;
+  model: string;
+  baseUrl?: string; // Only for Ollama, which the browser calls directly
 };
 
 // Supported languages for quiz generation
@@ -33,6 +73,12 @@ export type LanguageInfo = {
   nativeName: string;
 };
 
+// Study material a quiz is generated from, with its text already extracted
+export type StudyMaterial = {
+  name: string;
+  text: string;
+};
+
 export type QuizPreferences = {
   course?: string;
   topic?: string;
@@ -44,21 +90,69 @@ export type QuizPreferences = {
   timeLimitEnabled: boolean;
   timeLimit?: string | null;
   totalTimeLimit?: string | null;
-  negativeMarking?: boolean;
-  negativeMarks?: number;
-  mode: 'practice' | 'exam';
+  markingScheme?: MarkingScheme; // Marks and penalties per question; 1 mark per question when unset
+  mode: 'practice' | 'exam' | 'adaptive'; // Adaptive quizzes pick each question's difficulty from the answers so far
   answerMode: 'immediate' | 'end';
+  studyMaterial?: StudyMaterial[]; // When present, questions come only from this material
+  bloomDistribution?: BloomDistribution; // Share of questions to target at each cognitive level
+  scoringRubric?: ScoringRubric; // How partly right answers are credited; defaults apply when unset
 };
 
+// Marking schemes modelled on real exams, or set up by the user
+export type MarkingSchemeId = 'standard' | 'jee-main' | 'neet' | 'upsc-prelims' | 'custom';
+
+// Marks for questions of a type and/or difficulty; a rule without either matches every question
+export type MarkingRule = {
+  type?: QuestionType;
+  difficulty?: Question['difficulty'];
+  correct: number; // Awarded for a right answer, and in proportion for partial credit
+  wrong: number;   // Zero or below, added for an answer that earns nothing
+};
+
+export type MarkingScheme = {
+  id: MarkingSchemeId;
+  rules: MarkingRule[];        // The first rule matching a question sets its marks; the last matches every question
+  allowNegativeTotal: boolean; // Whether penalties can take the total below zero, as in real exams
+};
+
+// How partly right answers earn credit. Every option is optional and falls back to the default rubric.
+export type ScoringRubric = {
+  multiSelect?: 'all-or-nothing' | 'proportional'; // Proportional: a share per correct pick, less a penalty per wrong pick
+  multiSelectPenalty?: number;  // Correct picks each wrong pick cancels out, e.g. 0.5
+  sequence?: 'all-or-nothing' | 'positional' | 'kendall-tau'; // Positional: steps in their place; Kendall tau: pairs in the right order
+  shortAnswer?: 'exact' | 'keywords'; // Keywords: a share per expected key term the answer contains
+  difficultyWeights?: Partial<Record<Question['difficulty'], number>>; // Weight of questions without their own
+};
+
+// Cognitive levels of Bloom's taxonomy, from recalling facts to creating something new
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// Percentage of a quiz's questions per level, adding up to 100; levels left out get none
+export type BloomDistribution = Partial<Record<BloomLevel, number>>;
+
+// Questions answered and answered correctly at each level
+export type BloomLevelStats = Partial<Record<BloomLevel, { correct: number; total: number }>>;
+
 export type QuestionType = 
   | 'multiple-choice'  // Single correct answer from options
   | 'true-false'      // True/False questions
   | 'fill-blank'      // Fill in the blank
+  | 'cloze'           // Passage with several numbered blanks, each graded on its own
   | 'short-answer'    // 1-2 word answers
   | 'sequence'        // Arrange items in correct order
   | 'case-study'      // Analyze real-world scenarios
   | 'situation'       // Choose best action in a scenario
-  | 'multi-select';   // Multiple correct options
+  | 'multi-select'    // Multiple correct options
+  | 'matching'        // Match each left item to a right item
+  | 'numeric'         // Number graded within a tolerance, optionally with units
+  | 'assertion-reason' // Judge an assertion and its reason using the four standard options
+  | 'code-output'     // Predict what a code snippet prints
+  | 'passage';        // Several sub-questions about one shared reading passage
+
+// Programming languages code snippets can be written in
+export type CodeLanguage =
+  | 'python' | 'javascript' | 'typescript' | 'java' | 'c' | 'cpp' | 'csharp'
+  | 'go' | 'rust' | 'kotlin' | 'php' | 'ruby' | 'sql' | 'bash';
 
 // Base question interface with common fields
 interface BaseQuestion {
@@ -68,8 +162,16 @@ interface BaseQuestion {
   explanation?: string;
   difficulty: 'basic' | 'intermediate' | 'advanced';
   userAnswer?: string;
+  isCorrect?: boolean;
+  score?: number; // Share of the credit earned (0-1) for types with partial credit
+  feedback?: string; // An AI grader's comments on a typed answer
   language?: QuizLanguage;
   keywords?: string[]; // For flexible answer matching
+  source?: string; // Excerpt of the study material the question is based on
+  code?: string; // Code snippet the question refers to, shown with its whitespace intact
+  codeLanguage?: CodeLanguage; // Set whenever code is
+  bloomLevel?: BloomLevel; // Cognitive level the question targets
+  weight?: number; // Marks the question is worth; defaults to the rubric's weight for its difficulty, or 1
 }
 
 // Multiple choice question
@@ -87,10 +189,27 @@ interface TrueFalseQuestion extends BaseQuestion {
 }
 
 // Fill in the blank question
+// How a typed answer is graded: by its wording, or as an algebraic expression equal to correctAnswer
+export type TextAnswerMode = 'text' | 'math-expression';
+
 interface FillBlankQuestion extends BaseQuestion {
   type: 'fill-blank';
   correctAnswer: string;
   keywords: string[]; // Alternative acceptable answers
+  answerMode?: TextAnswerMode; // Defaults to 'text'
+}
+
+// One blank of a cloze question
+export interface ClozeBlank {
+  answers: string[];  // Accepted answers, the preferred one first
+  options?: string[]; // Choices offered in a dropdown instead of a text box
+}
+
+// Cloze question, whose text marks blank n as [[n]]. Answered as a JSON array with one answer per blank.
+interface ClozeQuestion extends BaseQuestion {
+  type: 'cloze';
+  cloze: string;       // The passage, with the blanks marked [[1]], [[2]], ...
+  blanks: ClozeBlank[]; // In marker order
 }
 
 // Short answer question
@@ -98,9 +217,10 @@ interface ShortAnswerQuestion extends BaseQuestion {
   type: 'short-answer';
   correctAnswer: string;
   keywords: string[]; // Key terms that should be present
+  answerMode?: TextAnswerMode; // Defaults to 'text'
 }
 
-// Sequence question
+// Sequence question, answered as comma-separated indexes into sequence, in the chosen order
 interface SequenceQuestion extends BaseQuestion {
   type: 'sequence';
   sequence: string[];        // Steps in random order
@@ -125,29 +245,127 @@ interface SituationQuestion extends BaseQuestion {
   correctAnswer: string; // Most appropriate action
 }
 
-// Multi-select question
+// Multi-select question, answered as comma-separated indexes of the chosen options
 interface MultiSelectQuestion extends BaseQuestion {
   type: 'multi-select';
   options: string[];        // All possible options
   correctOptions: string[]; // Array of correct options (2-3)
 }
 
-// Union type of all question types
-export type Question = 
+// Matching question, answered as comma-separated indexes into rightItems, one per left item
+// ("2,0,,1" leaves the third left item unmatched)
+interface MatchingQuestion extends BaseQuestion {
+  type: 'matching';
+  leftItems: string[];      // Terms, in display order
+  rightItems: string[];     // Definitions, in random order
+  correctMatches: string[]; // The right item matching each left item, in leftItems order
+}
+
+// Numeric question, graded by value rather than by text
+interface NumericQuestion extends BaseQuestion {
+  type: 'numeric';
+  correctValue: number;
+  unit?: string;               // Unit of correctValue, e.g. "m/s^2"; "%" for percentages
+  acceptedUnits?: string[];    // Other units the answer may use, converted before comparing
+  absoluteTolerance?: number;  // Largest accepted difference, in the question's unit
+  relativeTolerance?: number;  // Largest accepted difference as a share of correctValue (0.01 = 1%)
+  acceptFractions?: boolean;   // Accept answers such as "1/2"
+  acceptPercent?: boolean;     // Accept answers such as "50%" for 0.5
+}
+
+// The four standard assertion-reason options, whose wording is fixed per language:
+// (a) both true and R explains A, (b) both true but R does not explain A, (c) A true, R false, (d) A false, R true
+export type AssertionReasonOption = 'a' | 'b' | 'c' | 'd';
+
+// Assertion-reason question, answered with the option key
+interface AssertionReasonQuestion extends BaseQuestion {
+  type: 'assertion-reason';
+  assertion: string;
+  reason: string;
+  correctOption: AssertionReasonOption;
+}
+
+// Predict-the-output question, answered with the exact text the snippet prints
+interface CodeOutputQuestion extends BaseQuestion {
+  type: 'code-output';
+  code: string;
+  codeLanguage: CodeLanguage;
+  correctAnswer: string; // Everything the snippet prints, with its line breaks
+}
+
+// Question types that stand on their own
+type StandaloneQuestion =
   | MultipleChoiceQuestion 
   | TrueFalseQuestion 
   | FillBlankQuestion 
   | ShortAnswerQuestion
+  | ClozeQuestion
   | SequenceQuestion 
   | CaseStudyQuestion 
   | SituationQuestion
-  | MultiSelectQuestion;
+  | MultiSelectQuestion
+  | MatchingQuestion
+  | NumericQuestion
+  | AssertionReasonQuestion
+  | CodeOutputQuestion;
+
+// Types a passage's sub-questions may use; scenario and cloze types already bring their own text
+export type PassagePartType = Exclude<QuestionType, 'passage' | 'case-study' | 'situation' | 'cloze'>;
+
+export type PassagePart = Extract<StandaloneQuestion, { type: PassagePartType }>;
+
+// Reading-comprehension group: one passage shared by several sub-questions of mixed types.
+// The group is a single question everywhere outside the quiz screen: it takes one answer,
+// a JSON array of the parts' answers in part order, and one share of the score.
+interface PassageQuestion extends BaseQuestion {
+  type: 'passage';
+  passage: string;
+  parts: PassagePart[]; // Numbered from 1 within the passage
+}
+
+// Union type of all question types
+export type Question = StandaloneQuestion | PassageQuestion;
+
+// Progress of a quiz that is still being generated
+export type GenerationProgress = {
+  completedChunks: number;
+  totalChunks: number;
+  questionsGenerated: number;
+  questionCount: number;
+};
+
+// Ability on the logit scale of a Rasch model, where 0 matches an intermediate question
+export type AbilityEstimate = {
+  ability: number;
+  standardError: number;
+  questionCount: number; // Answered questions the estimate is based on
+};
 
 export type QuizResult = {
   totalQuestions: number;
   correctAnswers: number;
+  points: number;    // Raw marks earned, after penalties
+  maxPoints: number; // Most marks the quiz can give
+  markingScheme?: MarkingSchemeId;
   percentage: number;
   questions: Question[];
+  ability?: AbilityEstimate; // Set for adaptive quizzes
+  questionTimes?: Record<number, number>; // Seconds spent on each question, by id
+  timeTaken?: number; // Seconds spent on the whole quiz
+};
+
+// An unfinished solo quiz, saved as it is answered so it can be resumed after a refresh or elsewhere
+export type QuizCheckpoint = {
+  preferences: QuizPreferences;
+  questions: Question[];
+  answers: Record<number, string>;
+  currentQuestionIndex: number;
+  currentPartIndex: number;
+  questionTimes: Record<number, number>; // Not counting the current question's time since it was shown
+  questionElapsed?: number; // Seconds the current question, or passage part, had been shown for when saved
+  revealedAnswers?: Record<number, number[]>; // Parts whose answer was checked, by question id
+  timeRemaining: number | null; // Seconds left on the total timer when saved
+  savedAt: number; // Milliseconds since the epoch
 };
 
 export type QuizResultData = {
@@ -157,6 +375,16 @@ export type QuizResultData = {
   score: number;
   totalQuestions: number;
   timeTaken?: number;
+  bloomLevels?: BloomLevelStats;
+  // The full record of the attempt, kept so it can be replayed. Attempts saved before
+  // full records were kept have only the summary above.
+  points?: number;
+  maxPoints?: number;
+  markingScheme?: MarkingSchemeId;
+  preferences?: QuizPreferences;
+  questions?: Question[]; // Graded, with the answers recorded on them; only loaded for a single attempt
+  questionTimes?: Record<number, number>;
+  ability?: AbilityEstimate;
 };
 
 export type FavoriteQuestion = {
@@ -1,21 +1,102 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models'
+const DEFAULT_MODEL = 'gemini-2.0-flash'
+
+// Features usage is metered and limited by
+const FEATURES = ['quiz', 'explanation', 'evaluation', 'notes']
+
+// Google answers a bad key with 400 API_KEY_INVALID, and a key without access with 401/403
+const isKeyRejection = (status: number, errorText: string) =>
+  status === 401 || status === 403 || errorText.includes('API_KEY_INVALID')
+
+type UsageMetadata = {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  totalTokenCount?: number
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { prompt, apiKey, temperature = 0.0 } = await req.json()
+    const { action, prompt, model = DEFAULT_MODEL, temperature = 0.0, responseSchema, stream = false, feature = 'quiz' } = await req.json()
+
+    // Keys and usage belong to the signed-in caller, so every request needs their JWT
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || ''
+    const { data: { user } } = await supabase.auth.getUser(token)
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Please sign in to use AI features' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // The key is decrypted from Vault here and never leaves the server
+    const { data: apiKey, error: keyError } = await supabase.rpc('get_gemini_api_key', { p_user_id: user.id })
+
+    if (keyError) throw keyError
+
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({ error: 'Add your Gemini API key in API Settings', code: 'key_missing' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Remember whether Google accepted the key so the client can show its status
+    const markKeyStatus = async (status: 'valid' | 'invalid') => {
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ gemini_key_status: status, gemini_key_checked_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .neq('gemini_key_status', status)
+      if (error) console.error('Failed to update key status:', error)
+    }
+
+    // Check a newly saved key with a request that costs no tokens
+    if (action === 'verify') {
+      const response = await fetch(`${GEMINI_API_URL}?pageSize=1`, {
+        headers: { 'x-goog-api-key': apiKey },
+      })
+
+      if (!response.ok && !isKeyRejection(response.status, await response.text())) {
+        return new Response(
+          JSON.stringify({ error: `Gemini API error: ${response.status}` }),
+          { 
+            status: 502, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const status = response.ok ? 'valid' : 'invalid'
+      await markKeyStatus(status)
+      return new Response(
+        JSON.stringify({ status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    if (!prompt || !apiKey) {
+    if (!prompt) {
       return new Response(
-        JSON.stringify({ error: 'Missing prompt or API key' }),
+        JSON.stringify({ error: 'Missing prompt' }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -23,8 +104,79 @@ serve(async (req) => {
       )
     }
 
+    // Only plain model identifiers may be interpolated into the upstream URL
+    if (typeof model !== 'string' || !/^[\w.-]+$/.test(model)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid model name' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    if (!FEATURES.includes(feature)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid feature' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Checking the quota also reserves a usage row, so parallel requests cannot all slip under it
+    const { data: quotaRows, error: quotaError } = await supabase.rpc('check_ai_quota', {
+      p_user_id: user.id,
+      p_feature: feature,
+      p_model: model
+    })
+
+    if (quotaError) throw quotaError
+
+    const { usage_id: usageId, message: quotaMessage } = quotaRows[0]
+
+    if (quotaMessage) {
+      return new Response(
+        JSON.stringify({ error: quotaMessage, code: 'quota_exceeded' }),
+        { 
+          status: 429, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Record the tokens Gemini reports for this request on its reserved row, once
+    let usageLogged = false
+    const logUsage = async (usage: UsageMetadata | undefined) => {
+      if (usageLogged) return
+      usageLogged = true
+      const { error } = await supabase
+        .from('ai_usage')
+        .update({
+          prompt_tokens: usage?.promptTokenCount || 0,
+          response_tokens: usage?.candidatesTokenCount || 0,
+          total_tokens: usage?.totalTokenCount || 0,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', usageId)
+      if (error) console.error('Failed to log AI usage:', error)
+    }
+
+    // Keep what a quiz request generated, so only model output can enter the shared question cache
+    const recordGeneration = async (output: string) => {
+      if (feature !== 'quiz' || !output) return
+      const { error } = await supabase.from('quiz_generations').insert({ user_id: user.id, output })
+      if (error) console.error('Failed to record quiz generation:', error)
+    }
+
+    // Streaming requests are answered by Gemini as server-sent events
+    const endpoint = stream
+      ? `${GEMINI_API_URL}/${model}:streamGenerateContent?alt=sse`
+      : `${GEMINI_API_URL}/${model}:generateContent`
+
     const response = await fetch(
-      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
+      endpoint,
       {
         method: 'POST',
         headers: {
@@ -42,6 +194,11 @@ serve(async (req) => {
             topK: 40,
             topP: 0.95,
             maxOutputTokens: 8192,
+            // Constrain the output to the caller's schema when one is given
+            ...(responseSchema && {
+              responseMimeType: 'application/json',
+              responseSchema,
+            }),
           }
         })
       }
@@ -50,16 +207,87 @@ serve(async (req) => {
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Gemini API error:', errorText)
+      // Report every key rejection as 401 so the client can point the user to API Settings
+      const status = isKeyRejection(response.status, errorText) ? 401 : response.status
+      if (status === 401) {
+        await markKeyStatus('invalid')
+      }
+      // Rejected requests use no tokens and were never counted
+      const { error } = await supabase.from('ai_usage').delete().eq('id', usageId)
+      if (error) console.error('Failed to release AI usage:', error)
       return new Response(
-        JSON.stringify({ error: `Gemini API error: ${response.status}` }),
+        JSON.stringify({ error: `Gemini API error: ${status}` }),
         { 
-          status: response.status, 
+          status, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
+    await markKeyStatus('valid')
+
+    if (stream) {
+      // Relay the event stream as-is so the client can parse chunks as they arrive, watching for
+      // the usageMetadata Gemini sends with each chunk. Usage is logged when the stream ends,
+      // fails or is cancelled by the client, so aborted requests are still counted.
+      const decoder = new TextDecoder()
+      const reader = response.body!.getReader()
+      let buffer = ''
+      let output = ''
+      let usage: UsageMetadata | undefined
+
+      const metered = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { done, value } = await reader.read()
+            if (done) {
+              controller.close()
+              await Promise.all([logUsage(usage), recordGeneration(output)])
+              return
+            }
+            controller.enqueue(value)
+            buffer += decoder.decode(value, { stream: true })
+            const lines = buffer.split('\n')
+            buffer = lines.pop() || ''
+            lines.forEach(line => {
+              if (!line.startsWith('data:')) return
+              try {
+                const event = JSON.parse(line.slice(5))
+                usage = event.usageMetadata || usage
+                output += event.candidates?.[0]?.content?.parts?.[0]?.text || ''
+              } catch {
+                // Partial or non-JSON lines carry no usage or text
+              }
+            })
+          } catch (error) {
+            controller.error(error)
+            await logUsage(usage)
+          }
+        },
+        async cancel(reason) {
+          try {
+            await reader.cancel(reason)
+          } finally {
+            await logUsage(usage)
+          }
+        },
+      })
+
+      return new Response(
+        metered,
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+          }
+        }
+      )
+    }
+
     const data = await response.json()
+    await Promise.all([logUsage(data.usageMetadata), recordGeneration(data.candidates?.[0]?.content?.parts?.[0]?.text || '')])
     
     return new Response(
       JSON.stringify(data),
@@ -77,4 +305,4 @@ serve(async (req) => {
       }
     )
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,222 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_MODEL = 'gpt-4o-mini'
+
+// Features usage is metered and limited by
+const FEATURES = ['quiz', 'explanation', 'evaluation', 'notes']
+
+type Usage = {
+  prompt_tokens?: number
+  completion_tokens?: number
+  total_tokens?: number
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// The user's key is sent to their endpoint, so only https URLs are accepted
+const resolveBaseUrl = (baseUrl: string | null) => {
+  try {
+    const url = new URL(baseUrl || DEFAULT_BASE_URL)
+    return url.protocol === 'https:' ? url.href.replace(/\/$/, '') : null
+  } catch {
+    return null
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { prompt, model = DEFAULT_MODEL, temperature = 0.0, stream = false, feature = 'quiz' } = await req.json()
+
+    // Keys and usage belong to the signed-in caller, so every request needs their JWT
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || ''
+    const { data: { user } } = await supabase.auth.getUser(token)
+
+    if (!user) {
+      return jsonResponse({ error: 'Please sign in to use AI features' }, 401)
+    }
+
+    // The key is decrypted from Vault here and never leaves the server
+    const { data: apiKey, error: keyError } = await supabase.rpc('get_openai_api_key', { p_user_id: user.id })
+
+    if (keyError) throw keyError
+
+    if (!apiKey) {
+      return jsonResponse({ error: 'Add your OpenAI API key in API Settings', code: 'key_missing' }, 400)
+    }
+
+    // The endpoint comes from the saved settings, so a request cannot send the key elsewhere
+    const { data: settings, error: settingsError } = await supabase
+      .from('api_keys')
+      .select('openai_base_url')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (settingsError) throw settingsError
+
+    const baseUrl = resolveBaseUrl(settings?.openai_base_url || null)
+
+    if (!baseUrl) {
+      return jsonResponse({ error: 'The API base URL in API Settings must be an https URL' }, 400)
+    }
+
+    if (!prompt) {
+      return jsonResponse({ error: 'Missing prompt' }, 400)
+    }
+
+    if (typeof model !== 'string' || !model.trim()) {
+      return jsonResponse({ error: 'Invalid model name' }, 400)
+    }
+
+    if (!FEATURES.includes(feature)) {
+      return jsonResponse({ error: 'Invalid feature' }, 400)
+    }
+
+    // Checking the quota also reserves a usage row, so parallel requests cannot all slip under it
+    const { data: quotaRows, error: quotaError } = await supabase.rpc('check_ai_quota', {
+      p_user_id: user.id,
+      p_feature: feature,
+      p_model: model
+    })
+
+    if (quotaError) throw quotaError
+
+    const { usage_id: usageId, message: quotaMessage } = quotaRows[0]
+
+    if (quotaMessage) {
+      return jsonResponse({ error: quotaMessage, code: 'quota_exceeded' }, 429)
+    }
+
+    // Record the tokens the endpoint reports for this request on its reserved row, once
+    let usageLogged = false
+    const logUsage = async (usage: Usage | undefined) => {
+      if (usageLogged) return
+      usageLogged = true
+      const { error } = await supabase
+        .from('ai_usage')
+        .update({
+          prompt_tokens: usage?.prompt_tokens || 0,
+          response_tokens: usage?.completion_tokens || 0,
+          total_tokens: usage?.total_tokens || 0,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', usageId)
+      if (error) console.error('Failed to log AI usage:', error)
+    }
+
+    // Keep what a quiz request generated, so only model output can enter the shared question cache
+    const recordGeneration = async (output: string) => {
+      if (feature !== 'quiz' || !output) return
+      const { error } = await supabase.from('quiz_generations').insert({ user_id: user.id, output })
+      if (error) console.error('Failed to record quiz generation:', error)
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        stream,
+        // Streams only report token usage when asked to, in a final chunk
+        ...(stream && { stream_options: { include_usage: true } }),
+      })
+    })
+
+    if (!response.ok) {
+      console.error('OpenAI API error:', await response.text())
+      // Report every key rejection as 401 so the client can point the user to API Settings
+      const status = response.status === 403 ? 401 : response.status
+      // Rejected requests use no tokens and were never counted
+      const { error } = await supabase.from('ai_usage').delete().eq('id', usageId)
+      if (error) console.error('Failed to release AI usage:', error)
+      return jsonResponse({ error: `OpenAI API error: ${status}` }, status)
+    }
+
+    if (stream) {
+      // Relay the event stream as-is, watching for the usage in its last chunk. Usage is logged
+      // when the stream ends, fails or is cancelled by the client, so aborted requests still count.
+      const decoder = new TextDecoder()
+      const reader = response.body!.getReader()
+      let buffer = ''
+      let output = ''
+      let usage: Usage | undefined
+
+      const metered = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { done, value } = await reader.read()
+            if (done) {
+              controller.close()
+              await Promise.all([logUsage(usage), recordGeneration(output)])
+              return
+            }
+            controller.enqueue(value)
+            buffer += decoder.decode(value, { stream: true })
+            const lines = buffer.split('\n')
+            buffer = lines.pop() || ''
+            lines.forEach(line => {
+              if (!line.startsWith('data:')) return
+              try {
+                const event = JSON.parse(line.slice(5))
+                usage = event.usage || usage
+                output += event.choices?.[0]?.delta?.content || ''
+              } catch {
+                // [DONE] and partial lines carry no usage or text
+              }
+            })
+          } catch (error) {
+            controller.error(error)
+            await logUsage(usage)
+          }
+        },
+        async cancel(reason) {
+          try {
+            await reader.cancel(reason)
+          } finally {
+            await logUsage(usage)
+          }
+        },
+      })
+
+      return new Response(
+        metered,
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+          }
+        }
+      )
+    }
+
+    const data = await response.json()
+    await Promise.all([logUsage(data.usage), recordGeneration(data.choices?.[0]?.message?.content || '')])
+
+    return jsonResponse(data)
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,428 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models'
+const DEFAULT_MODEL = 'gemini-2.0-flash'
+
+// Random matches only use these types, so only they are pooled
+const POOL_QUESTION_TYPES = ['multiple-choice', 'true-false']
+
+// Every type a quiz can hold, so only they can be cached
+const CACHE_QUESTION_TYPES = [
+  'multiple-choice', 'true-false', 'fill-blank', 'cloze', 'short-answer', 'sequence', 'case-study',
+  'situation', 'multi-select', 'matching', 'numeric', 'assertion-reason', 'code-output', 'passage',
+]
+
+// Limits on one cache write, which covers a single generated quiz
+const MAX_CACHE_QUESTIONS = 50
+const MAX_CACHED_QUESTION_BYTES = 20000
+
+// How long a proxy function's record of a quiz generation can back a cache write, and how long
+// it is kept
+const GENERATION_WINDOW_MS = 60 * 60 * 1000
+const GENERATION_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Fields the client adds to a generated question for one attempt
+const ATTEMPT_FIELDS = ['id', 'language', 'userAnswer', 'isCorrect', 'score', 'feedback']
+
+// Vetted questions the fill job aims to keep per topic, difficulty and language
+const TARGET_POOL_SIZE = 50
+
+// Questions generated per fill request and demand entries handled per run
+const FILL_BATCH_SIZE = 20
+const MAX_DEMAND_PER_RUN = 5
+
+// Quarantined contributions checked per fill run
+const VERIFY_BATCH_SIZE = 20
+
+type PoolQuestion = {
+  type: string
+  text: string
+  options: string[]
+  correctAnswer: string
+  explanation: string
+  difficulty?: string
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+// Same normalization as normalize_pool_topic in the database
+const normalizeTopic = (topic: string) => topic.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+// Server-side vetting: contributions come from clients and model output, so neither is trusted.
+// Returns the question reduced to the fields a match needs, or null if it is not usable.
+const vetQuestion = (raw: unknown): PoolQuestion | null => {
+  if (!raw || typeof raw !== 'object') return null
+  const q = raw as Record<string, unknown>
+
+  if (!POOL_QUESTION_TYPES.includes(q.type as string) || !isText(q.text) || !isText(q.explanation)) return null
+  if (!Array.isArray(q.options) || !q.options.every(isText) || !isText(q.correctAnswer)) return null
+
+  const options = q.options as string[]
+  if (q.type === 'multiple-choice') {
+    if (options.length !== 4 || new Set(options).size !== 4 || !options.includes(q.correctAnswer)) return null
+  } else if (options.join('|') !== 'True|False' || !options.includes(q.correctAnswer)) {
+    return null
+  }
+
+  return {
+    type: q.type as string,
+    text: q.text.trim(),
+    options,
+    correctAnswer: q.correctAnswer,
+    explanation: q.explanation.trim(),
+    ...(typeof q.difficulty === 'string' && { difficulty: q.difficulty }),
+  }
+}
+
+// Cache keys are SHA-256 hashes of the quiz preferences
+const isCacheKey = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value)
+
+// Server-side vetting for the shared quiz cache, which takes every question type.
+// The client schema checks run again when cached questions are drawn; this keeps out
+// malformed and oversized rows and anything tied to one attempt. Whether the answers are the
+// model's is checked against the recorded generations.
+const vetCachedQuestion = (raw: unknown): Record<string, unknown> | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null
+  const q = { ...(raw as Record<string, unknown>) }
+
+  if (!CACHE_QUESTION_TYPES.includes(q.type as string) || !isText(q.text)) return null
+  if (JSON.stringify(q).length > MAX_CACHED_QUESTION_BYTES) return null
+
+  // Answers and numbering belong to one attempt, not to the cached question
+  delete q.id
+  delete q.userAnswer
+  delete q.isCorrect
+  delete q.score
+  delete q.feedback
+  return q
+}
+
+// Same hash the client used when it wrote cache rows directly
+const normalizeText = (value: unknown) => (typeof value === 'string' ? value : '').toLowerCase().replace(/\s+/g, ' ').trim()
+
+const questionKey = (q: Record<string, unknown>) => [q.type, normalizeText(q.text), normalizeText(q.question)].join('|')
+
+// Whether a question, as the client kept it, is one the model generated: every field but the
+// attempt's own is exactly as generated, including those of a passage's parts
+const matchesGenerated = (question: Record<string, unknown>, generated: Record<string, unknown>): boolean =>
+  Object.entries(question).every(([key, value]) => {
+    if (ATTEMPT_FIELDS.includes(key)) return true
+    if (key === 'parts') {
+      const parts = generated.parts
+      return Array.isArray(value) && Array.isArray(parts) && value.length === parts.length &&
+        value.every((part, index) => !!part && typeof part === 'object' && !!parts[index] && typeof parts[index] === 'object' &&
+          matchesGenerated(part as Record<string, unknown>, parts[index] as Record<string, unknown>))
+    }
+    return JSON.stringify(value) === JSON.stringify(generated[key])
+  })
+
+// Questions in the user's recent quiz generations, by type and text
+const loadGeneratedQuestions = async (supabase: ReturnType<typeof createClient>, userId: string) => {
+  await supabase
+    .from('quiz_generations')
+    .delete()
+    .eq('user_id', userId)
+    .lt('created_at', new Date(Date.now() - GENERATION_RETENTION_MS).toISOString())
+
+  const { data, error } = await supabase
+    .from('quiz_generations')
+    .select('output')
+    .eq('user_id', userId)
+    .gte('created_at', new Date(Date.now() - GENERATION_WINDOW_MS).toISOString())
+
+  if (error) throw error
+
+  const generated = new Map<string, Record<string, unknown>[]>()
+  for (const { output } of data || []) {
+    let questions: unknown
+    try {
+      questions = JSON.parse(output)
+    } catch {
+      continue
+    }
+    if (!Array.isArray(questions)) continue
+    questions.forEach(q => {
+      if (!q || typeof q !== 'object') return
+      const key = questionKey(q as Record<string, unknown>)
+      generated.set(key, [...(generated.get(key) || []), q as Record<string, unknown>])
+    })
+  }
+  return generated
+}
+
+// Add vetted questions the user's own generations produced to a quiz cache key, recording them
+// as seen by the generating user. Anything else the client sends is ignored.
+const addToCache = async (
+  supabase: ReturnType<typeof createClient>,
+  cacheKey: string,
+  questions: unknown[],
+  trackSeen: boolean,
+  createdBy: string
+) => {
+  const generated = await loadGeneratedQuestions(supabase, createdBy)
+  const vetted = questions.slice(0, MAX_CACHE_QUESTIONS).map(vetCachedQuestion)
+    .filter((q): q is Record<string, unknown> => q !== null)
+    .filter(q => (generated.get(questionKey(q)) || []).some(candidate => matchesGenerated(q, candidate)))
+  if (vetted.length === 0) return 0
+
+  const rows = await Promise.all(vetted.map(async (question) => ({
+    cache_key: cacheKey,
+    question_hash: await sha256(questionKey(question)),
+    question_type: question.type,
+    question,
+    created_by: createdBy,
+  })))
+
+  const { data, error } = await supabase
+    .from('question_cache')
+    .upsert(rows, { onConflict: 'cache_key,question_hash', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) throw error
+
+  // The generating user has seen these already
+  if (trackSeen && data && data.length > 0) {
+    await supabase
+      .from('question_cache_views')
+      .upsert(data.map(row => ({ user_id: createdBy, question_id: row.id })), { ignoreDuplicates: true })
+  }
+  return data?.length || 0
+}
+
+// Add vetted questions to the pool, ignoring ones it already holds. Questions the fill job
+// generated are drawn at once; users' contributions wait in quarantine until the model has
+// answered them the same way.
+const addToPool = async (
+  supabase: ReturnType<typeof createClient>,
+  entry: { topic: string; difficulty: string; language: string },
+  questions: unknown[],
+  source: 'user' | 'job',
+  createdBy: string | null
+) => {
+  const topicKey = normalizeTopic(entry.topic)
+  const vetted = questions.map(vetQuestion).filter((q): q is PoolQuestion => q !== null)
+  if (vetted.length === 0) return 0
+
+  const rows = await Promise.all(vetted.map(async (question) => ({
+    topic_key: topicKey,
+    difficulty: entry.difficulty,
+    language: entry.language,
+    question_type: question.type,
+    question_hash: await sha256(`${question.type}|${question.text.toLowerCase().replace(/\s+/g, ' ')}`),
+    question: { ...question, language: entry.language },
+    source,
+    created_by: createdBy,
+    verified_at: source === 'job' ? new Date().toISOString() : null,
+  })))
+
+  const { data, error } = await supabase
+    .from('question_pool')
+    .upsert(rows, { onConflict: 'topic_key,difficulty,language,question_hash', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) throw error
+  return data?.length || 0
+}
+
+// Ask the model for JSON with the project's own Gemini key
+const requestJson = async (prompt: string, temperature: number) => {
+  const apiKey = Deno.env.get('GEMINI_API_KEY')
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set')
+
+  const response = await fetch(`${GEMINI_API_URL}/${DEFAULT_MODEL}:generateContent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+    },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: { temperature, responseMimeType: 'application/json' },
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Gemini API error (${response.status})`)
+  }
+
+  const data = await response.json()
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text
+  return text ? JSON.parse(text) : null
+}
+
+// Generate a batch of pool questions
+const generatePoolQuestions = async (topic: string, difficulty: string, language: string) => {
+  const prompt = `Generate ${FILL_BATCH_SIZE} distinct quiz questions about "${topic}" at ${difficulty} difficulty, written in ${language}.
+Use a mix of "multiple-choice" questions (exactly 4 distinct options, "correctAnswer" copied exactly from the options)
+and "true-false" questions ("options" exactly ["True", "False"]).
+Every question needs "type", "text", "options", "correctAnswer" and a clear "explanation".
+Return ONLY a JSON array.`
+
+  const questions = await requestJson(prompt, 0.7)
+  return Array.isArray(questions) ? questions : []
+}
+
+// Answer quarantined contributions without their answers. Ones the model answers the same way
+// join the pool; the rest are removed, since a contributor could otherwise plant questions whose
+// answers only they know to be wrong.
+const verifyContributions = async (supabase: ReturnType<typeof createClient>) => {
+  const { data: pending, error } = await supabase
+    .from('question_pool')
+    .select('id, question')
+    .is('verified_at', null)
+    .order('created_at', { ascending: true })
+    .limit(VERIFY_BATCH_SIZE)
+
+  if (error) throw error
+  if (!pending || pending.length === 0) return { verified: 0, rejected: 0 }
+
+  const prompt = `Answer each of these quiz questions. For each one, reply with the option that is correct,
+copied exactly from its "options". Return ONLY a JSON array of ${pending.length} strings, in order.
+
+${JSON.stringify(pending.map(({ question }) => ({ text: question.text, options: question.options })))}`
+
+  const answers = await requestJson(prompt, 0.0)
+  if (!Array.isArray(answers) || answers.length !== pending.length) {
+    throw new Error('Verification answers do not match the questions')
+  }
+
+  const verified = pending.filter((row, index) => answers[index] === row.question.correctAnswer).map(row => row.id)
+  const rejected = pending.filter(row => !verified.includes(row.id)).map(row => row.id)
+
+  if (verified.length > 0) {
+    const { error: verifyError } = await supabase
+      .from('question_pool')
+      .update({ verified_at: new Date().toISOString() })
+      .in('id', verified)
+    if (verifyError) throw verifyError
+  }
+  if (rejected.length > 0) {
+    const { error: rejectError } = await supabase.from('question_pool').delete().in('id', rejected)
+    if (rejectError) throw rejectError
+  }
+  return { verified: verified.length, rejected: rejected.length }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || ''
+
+    const { action, topic, difficulty, language, questions, cacheKey, trackSeen } = await req.json()
+
+    // A signed-in user offering questions from their own generation, held until verified
+    if (action === 'contribute') {
+      const { data: { user } } = await supabase.auth.getUser(token)
+      if (!user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401)
+      }
+      if (!isText(topic) || !['easy', 'medium', 'hard'].includes(difficulty) || !isText(language) || !Array.isArray(questions)) {
+        return jsonResponse({ error: 'Missing topic, difficulty, language or questions' }, 400)
+      }
+
+      const added = await addToPool(supabase, { topic, difficulty, language }, questions, 'user', user.id)
+      return jsonResponse({ added })
+    }
+
+    // A signed-in user caching the questions the gemini or openai function just generated for their quiz
+    if (action === 'cache') {
+      const { data: { user } } = await supabase.auth.getUser(token)
+      if (!user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401)
+      }
+      if (!isCacheKey(cacheKey) || !Array.isArray(questions)) {
+        return jsonResponse({ error: 'Missing cache key or questions' }, 400)
+      }
+
+      const added = await addToCache(supabase, cacheKey, questions, trackSeen !== false, user.id)
+      return jsonResponse({ added })
+    }
+
+    // The scheduled background job, authorized with the service role key
+    if (action === 'fill') {
+      if (token !== supabaseServiceKey) {
+        return jsonResponse({ error: 'Not authorized' }, 403)
+      }
+
+      const { data: demand, error } = await supabase
+        .from('question_pool_demand')
+        .select('*')
+        .order('requested_at', { ascending: true })
+        .limit(MAX_DEMAND_PER_RUN)
+
+      if (error) throw error
+
+      const results = []
+      for (const entry of demand || []) {
+        const { count } = await supabase
+          .from('question_pool')
+          .select('id', { count: 'exact', head: true })
+          .eq('topic_key', entry.topic_key)
+          .eq('difficulty', entry.difficulty)
+          .eq('language', entry.language)
+          .not('verified_at', 'is', null)
+
+        let added = 0
+        if ((count || 0) < TARGET_POOL_SIZE) {
+          try {
+            const generated = await generatePoolQuestions(entry.topic_key, entry.difficulty, entry.language)
+            added = await addToPool(supabase, { ...entry, topic: entry.topic_key }, generated, 'job', null)
+          } catch (error) {
+            console.error(`Failed to fill pool for ${entry.topic_key}:`, error)
+          }
+        }
+
+        // Keep the demand until the pool reaches its target
+        if ((count || 0) + added >= TARGET_POOL_SIZE) {
+          await supabase
+            .from('question_pool_demand')
+            .delete()
+            .eq('topic_key', entry.topic_key)
+            .eq('difficulty', entry.difficulty)
+            .eq('language', entry.language)
+        }
+
+        results.push({ topic: entry.topic_key, difficulty: entry.difficulty, language: entry.language, added })
+      }
+
+      let verification = { verified: 0, rejected: 0 }
+      try {
+        verification = await verifyContributions(supabase)
+      } catch (error) {
+        console.error('Failed to verify pool contributions:', error)
+      }
+
+      return jsonResponse({ results, verification })
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
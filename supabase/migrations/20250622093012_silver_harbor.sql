@@ -0,0 +1,67 @@
+/*
+  # Add LLM provider settings to api_keys
+
+  1. New Columns
+    - `provider` (text) - selected provider: gemini, openai or ollama
+    - `model` (text) - model name for the selected provider, null for the provider default
+    - `openai_api_key` (text) - key for an OpenAI-compatible endpoint
+    - `openai_base_url` (text) - base URL of the OpenAI-compatible endpoint
+    - `ollama_base_url` (text) - URL of the user's local Ollama server
+
+  2. Notes
+    - Existing rows keep using Gemini with the default model
+    - `gemini_api_key` becomes nullable so users of other providers can save settings without it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN provider text NOT NULL DEFAULT 'gemini'
+      CHECK (provider IN ('gemini', 'openai', 'ollama'));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'model'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN model text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'openai_api_key'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN openai_api_key text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'openai_base_url'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN openai_base_url text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'ollama_base_url'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN ollama_base_url text;
+  END IF;
+END $$;
+
+ALTER TABLE api_keys ALTER COLUMN gemini_api_key DROP NOT NULL;
@@ -0,0 +1,12 @@
+/*
+  # Allow the offline fixture provider in api_keys
+
+  1. Changes
+    - `provider` accepts `fixture`, which serves deterministic sample questions
+      without calling any model, for development and tests
+*/
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_provider_check;
+
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_provider_check
+  CHECK (provider IN ('gemini', 'openai', 'ollama', 'fixture'));
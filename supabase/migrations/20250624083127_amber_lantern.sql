@@ -0,0 +1,98 @@
+/*
+  # Generated question cache
+
+  1. New Tables
+    - `question_cache` - every generated question, keyed by a hash of the quiz preferences
+      (course, topic, subtopic, difficulty, language and question types) that produced it
+    - `question_cache_views` - which cached questions each user has already been given
+
+  2. Security
+    - Enable RLS on both tables
+    - Any authenticated user can read the cache; users can only add questions as themselves
+    - Users can only see and record their own views
+
+  3. Functions
+    - `draw_cached_questions` picks random cached questions for a key, spread evenly across
+      question types, optionally skipping and recording the ones the caller has already seen
+*/
+
+CREATE TABLE IF NOT EXISTS question_cache (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cache_key text NOT NULL,
+  question_hash text NOT NULL,
+  question_type text NOT NULL,
+  question jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (cache_key, question_hash)
+);
+
+CREATE INDEX IF NOT EXISTS question_cache_cache_key_idx ON question_cache (cache_key);
+
+ALTER TABLE question_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read cached questions"
+ON question_cache
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can cache questions they generated"
+ON question_cache
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE TABLE IF NOT EXISTS question_cache_views (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES question_cache(id) ON DELETE CASCADE,
+  seen_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, question_id)
+);
+
+ALTER TABLE question_cache_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cached question views"
+ON question_cache_views
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record their own cached question views"
+ON question_cache_views
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Draw up to p_limit cached questions, round-robin across question types.
+-- With p_track_seen the caller's seen questions are skipped and the drawn ones recorded,
+-- so repeated quizzes keep serving new questions until the cache runs out.
+CREATE OR REPLACE FUNCTION public.draw_cached_questions(p_cache_key text, p_limit integer, p_track_seen boolean DEFAULT true)
+RETURNS SETOF question_cache
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT qc.*, row_number() OVER (PARTITION BY qc.question_type ORDER BY random()) AS type_rank
+    FROM question_cache qc
+    WHERE qc.cache_key = p_cache_key
+      AND NOT (p_track_seen AND EXISTS (
+        SELECT 1 FROM question_cache_views v
+        WHERE v.question_id = qc.id AND v.user_id = auth.uid()
+      ))
+  ), drawn AS (
+    SELECT c.id, c.cache_key, c.question_hash, c.question_type, c.question, c.created_by, c.created_at
+    FROM candidates c
+    ORDER BY c.type_rank, random()
+    LIMIT p_limit
+  ), seen AS (
+    INSERT INTO question_cache_views (user_id, question_id)
+    SELECT auth.uid(), drawn.id FROM drawn
+    WHERE p_track_seen
+    ON CONFLICT DO NOTHING
+  )
+  SELECT * FROM drawn;
+END;
+$$;
@@ -0,0 +1,175 @@
+/*
+  # Question pool for random matches
+
+  1. New Tables
+    - `question_pool` - vetted questions per topic, difficulty and language, added by the
+      `question-pool` edge function from users' generations or its background fill job
+    - `question_pool_demand` - topic/difficulty/language combinations that random matches
+      could not be served for, which the fill job tops up first
+
+  2. Security
+    - Enable RLS on both tables without client policies: only the edge function (service role)
+      and the functions below touch them, so answers are never readable before a match
+
+  3. Functions
+    - `normalize_pool_topic` - the topic key shared by the pool and the edge function
+    - `create_random_match` - atomically locks waiting players, draws a question set from the
+      pool and creates the competition with its questions, participants and queue updates
+
+  4. Notes
+    - Schedule the fill job with pg_cron and pg_net, for example every 15 minutes:
+        select cron.schedule('fill-question-pool', '*/15 * * * *', $job$
+          select net.http_post(
+            url := '<project-url>/functions/v1/question-pool',
+            headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+            body := '{"action": "fill"}'::jsonb
+          )
+        $job$);
+*/
+
+CREATE OR REPLACE FUNCTION public.normalize_pool_topic(p_topic text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(p_topic), '\s+', ' ', 'g'));
+$$;
+
+CREATE TABLE IF NOT EXISTS question_pool (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic_key text NOT NULL,
+  difficulty text NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  language text NOT NULL,
+  question_type text NOT NULL,
+  question_hash text NOT NULL,
+  question jsonb NOT NULL,
+  source text NOT NULL CHECK (source IN ('user', 'job')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  times_used integer NOT NULL DEFAULT 0,
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (topic_key, difficulty, language, question_hash)
+);
+
+CREATE INDEX IF NOT EXISTS question_pool_lookup_idx ON question_pool (topic_key, difficulty, language);
+
+ALTER TABLE question_pool ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS question_pool_demand (
+  topic_key text NOT NULL,
+  difficulty text NOT NULL,
+  language text NOT NULL,
+  requested_at timestamptz DEFAULT now(),
+  PRIMARY KEY (topic_key, difficulty, language)
+);
+
+ALTER TABLE question_pool_demand ENABLE ROW LEVEL SECURITY;
+
+-- Match the waiting players for a topic and hand them a question set from the pool in one transaction.
+-- Returns the new competition id, or NULL when fewer than two players are waiting, the caller is not
+-- one of them, or the pool cannot supply p_question_count questions yet (which records demand).
+CREATE OR REPLACE FUNCTION public.create_random_match(
+  p_topic text,
+  p_difficulty text,
+  p_language text,
+  p_question_count integer DEFAULT 10
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_topic_key text := normalize_pool_topic(p_topic);
+  v_queue_ids uuid[];
+  v_user_ids uuid[];
+  v_question_ids uuid[];
+  v_questions jsonb;
+  v_competition_id uuid;
+BEGIN
+  -- Lock the waiting players so concurrent checks cannot match them twice
+  SELECT array_agg(id), array_agg(user_id)
+  INTO v_queue_ids, v_user_ids
+  FROM (
+    SELECT id, user_id
+    FROM random_queue
+    WHERE topic = p_topic
+      AND difficulty = p_difficulty
+      AND language = p_language
+      AND status = 'waiting'
+    ORDER BY created_at
+    LIMIT 8
+    FOR UPDATE SKIP LOCKED
+  ) waiting;
+
+  -- Least used questions first, spread evenly across question types. The pool is checked even
+  -- before a second player arrives, so the fill job hears about a topic as soon as it is queued.
+  SELECT array_agg(id ORDER BY position), jsonb_agg(question || jsonb_build_object('id', position) ORDER BY position)
+  INTO v_question_ids, v_questions
+  FROM (
+    SELECT id, question, row_number() OVER (ORDER BY type_rank, times_used, random()) AS position
+    FROM (
+      SELECT id, question, times_used,
+        row_number() OVER (PARTITION BY question_type ORDER BY times_used, random()) AS type_rank
+      FROM question_pool
+      WHERE topic_key = v_topic_key
+        AND difficulty = p_difficulty
+        AND language = p_language
+    ) ranked
+  ) drawn
+  WHERE position <= p_question_count;
+
+  IF coalesce(array_length(v_question_ids, 1), 0) < p_question_count THEN
+    INSERT INTO question_pool_demand (topic_key, difficulty, language)
+    VALUES (v_topic_key, p_difficulty, p_language)
+    ON CONFLICT (topic_key, difficulty, language) DO UPDATE SET requested_at = now();
+    RETURN NULL;
+  END IF;
+
+  IF coalesce(array_length(v_queue_ids, 1), 0) < 2 OR NOT (auth.uid() = ANY(v_user_ids)) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE question_pool
+  SET times_used = times_used + 1, last_used_at = now()
+  WHERE id = ANY(v_question_ids);
+
+  INSERT INTO competitions (
+    creator_id, title, description, competition_code, type, max_participants,
+    quiz_preferences, questions, status
+  )
+  VALUES (
+    v_user_ids[1],
+    'Random ' || p_topic || ' Challenge',
+    p_difficulty || ' difficulty ' || p_topic || ' competition',
+    upper(substr(md5(random()::text), 1, 6)),
+    'random',
+    array_length(v_user_ids, 1),
+    jsonb_build_object(
+      'course', p_topic,
+      'difficulty', p_difficulty,
+      'language', p_language,
+      'questionCount', p_question_count,
+      'questionTypes', jsonb_build_array('multiple-choice', 'true-false'),
+      'mode', 'exam',
+      'timeLimitEnabled', true,
+      'timeLimit', '30',
+      'totalTimeLimit', '600'
+    ),
+    v_questions,
+    'waiting'
+  )
+  RETURNING id INTO v_competition_id;
+
+  INSERT INTO competition_participants (
+    competition_id, user_id, status, joined_at, is_online, last_activity,
+    current_question, questions_answered, is_ready
+  )
+  SELECT v_competition_id, user_id, 'joined', now(), true, now(), 0, 0, false
+  FROM unnest(v_user_ids) AS user_id;
+
+  UPDATE random_queue SET status = 'matched' WHERE id = ANY(v_queue_ids);
+
+  RETURN v_competition_id;
+END;
+$$;
@@ -0,0 +1,103 @@
+/*
+  # AI usage metering and daily quotas
+
+  1. New Tables
+    - `ai_usage` - one row per request proxied by the gemini edge function, with the
+      token counts Gemini reports in `usageMetadata`, tagged by feature
+    - `ai_quotas` - daily request and token limits. A row with no `user_id` is the default for
+      everyone; a row with no `feature` limits all features together. Admins manage rows from
+      the Supabase dashboard; a user's own row overrides the default for the same feature.
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can read their own usage and the quotas that apply to them
+    - Only the edge function (service role) writes usage
+
+  3. Functions
+    - `check_ai_quota` returns a readable message when a user has used up a quota for today
+      (UTC), or NULL when the request may proceed
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text NOT NULL CHECK (feature IN ('quiz', 'explanation', 'evaluation', 'notes')),
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  response_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_created_idx ON ai_usage (user_id, created_at);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+ON ai_usage
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS ai_quotas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text CHECK (feature IN ('quiz', 'explanation', 'evaluation', 'notes')),
+  daily_requests integer CHECK (daily_requests >= 0),
+  daily_tokens integer CHECK (daily_tokens >= 0),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, feature)
+);
+
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quotas that apply to them"
+ON ai_quotas
+FOR SELECT
+TO authenticated
+USING (user_id IS NULL OR user_id = auth.uid());
+
+-- Check every quota that applies to a request: the most specific one for the feature and the most
+-- specific one for all features combined. Usage is counted from midnight UTC.
+CREATE OR REPLACE FUNCTION public.check_ai_quota(p_user_id uuid, p_feature text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quota record;
+  v_requests integer;
+  v_tokens integer;
+  v_scope text;
+BEGIN
+  FOR v_quota IN
+    SELECT DISTINCT ON (q.feature IS NULL) q.*
+    FROM ai_quotas q
+    WHERE (q.user_id = p_user_id OR q.user_id IS NULL)
+      AND (q.feature = p_feature OR q.feature IS NULL)
+    ORDER BY q.feature IS NULL, q.user_id IS NULL
+  LOOP
+    SELECT count(*), coalesce(sum(total_tokens), 0)
+    INTO v_requests, v_tokens
+    FROM ai_usage
+    WHERE user_id = p_user_id
+      AND created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc'
+      AND (v_quota.feature IS NULL OR feature = v_quota.feature);
+
+    v_scope := CASE WHEN v_quota.feature IS NULL THEN 'AI' ELSE v_quota.feature END;
+
+    IF v_quota.daily_requests IS NOT NULL AND v_requests >= v_quota.daily_requests THEN
+      RETURN format('You have used your daily limit of %s %s requests. It resets at midnight UTC.', v_quota.daily_requests, v_scope);
+    END IF;
+
+    IF v_quota.daily_tokens IS NOT NULL AND v_tokens >= v_quota.daily_tokens THEN
+      RETURN format('You have used your daily limit of %s %s tokens. It resets at midnight UTC.', v_quota.daily_tokens, v_scope);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_ai_quota(uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,135 @@
+/*
+  # Store Gemini API keys encrypted in Supabase Vault
+
+  1. New Columns
+    - `gemini_key_hint` (text) - last four characters of the key, shown masked in API Settings
+    - `gemini_key_status` (text) - `missing`, `unverified`, `valid` or `invalid`, updated by the
+      gemini edge function whenever Google accepts or rejects the key
+    - `gemini_key_checked_at` (timestamptz) - when the status was last confirmed
+
+  2. Changes
+    - Existing keys are moved into Vault as secrets named `gemini_api_key:<user id>`
+    - `gemini_api_key` is dropped, so plaintext keys are no longer stored or readable by clients
+
+  3. Functions
+    - `set_gemini_api_key` - saves, replaces or (given an empty key) removes the caller's key
+    - `get_gemini_api_key` - decrypts a user's key; only the edge function (service role) may call it
+
+  4. Notes
+    - Secrets are looked up by name rather than by an id stored in `api_keys`, because users can
+      update their own `api_keys` row and must not be able to point it at another user's secret
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'gemini_key_hint'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN gemini_key_hint text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'gemini_key_status'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN gemini_key_status text NOT NULL DEFAULT 'missing'
+      CHECK (gemini_key_status IN ('missing', 'unverified', 'valid', 'invalid'));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'gemini_key_checked_at'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN gemini_key_checked_at timestamptz;
+  END IF;
+END $$;
+
+-- Move plaintext keys into Vault before the column goes away
+DO $$
+DECLARE
+  v_row record;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'gemini_api_key'
+  ) THEN
+    FOR v_row IN
+      SELECT user_id, trim(gemini_api_key) AS api_key
+      FROM api_keys
+      WHERE coalesce(trim(gemini_api_key), '') <> ''
+    LOOP
+      PERFORM vault.create_secret(v_row.api_key, 'gemini_api_key:' || v_row.user_id, 'Gemini API key');
+      UPDATE api_keys
+      SET gemini_key_hint = right(v_row.api_key, 4), gemini_key_status = 'unverified'
+      WHERE user_id = v_row.user_id;
+    END LOOP;
+
+    ALTER TABLE api_keys DROP COLUMN gemini_api_key;
+  END IF;
+END $$;
+
+-- Save the caller's key, or remove it when p_api_key is empty
+CREATE OR REPLACE FUNCTION public.set_gemini_api_key(p_api_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_api_key text := trim(coalesce(p_api_key, ''));
+  v_secret_name text;
+  v_secret_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_secret_name := 'gemini_api_key:' || v_user_id;
+  SELECT id INTO v_secret_id FROM vault.secrets WHERE name = v_secret_name;
+
+  IF v_api_key = '' THEN
+    DELETE FROM vault.secrets WHERE id = v_secret_id;
+  ELSIF v_secret_id IS NULL THEN
+    PERFORM vault.create_secret(v_api_key, v_secret_name, 'Gemini API key');
+  ELSE
+    PERFORM vault.update_secret(v_secret_id, v_api_key);
+  END IF;
+
+  UPDATE api_keys
+  SET
+    gemini_key_hint = CASE WHEN v_api_key = '' THEN NULL ELSE right(v_api_key, 4) END,
+    gemini_key_status = CASE WHEN v_api_key = '' THEN 'missing' ELSE 'unverified' END,
+    gemini_key_checked_at = NULL
+  WHERE user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO api_keys (user_id, gemini_key_hint, gemini_key_status)
+    VALUES (
+      v_user_id,
+      CASE WHEN v_api_key = '' THEN NULL ELSE right(v_api_key, 4) END,
+      CASE WHEN v_api_key = '' THEN 'missing' ELSE 'unverified' END
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_gemini_api_key(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT decrypted_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'gemini_api_key:' || p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_gemini_api_key(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,32 @@
+/*
+  # Bloom's taxonomy levels for quizzes
+
+  1. New Columns
+    - `quiz_preferences.bloom_distribution` (jsonb) - percentage of questions to target at each
+      cognitive level, e.g. {"remember": 30, "apply": 40, "analyze": 30}; null for no particular mix
+    - `quiz_results.bloom_levels` (jsonb) - questions answered and answered correctly per level,
+      e.g. {"apply": {"correct": 3, "total": 4}}, which the progress tracker adds up
+
+  2. Notes
+    - Results saved before this migration have no per-level counts and are left out of the per-level report
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_preferences' AND column_name = 'bloom_distribution'
+  ) THEN
+    ALTER TABLE quiz_preferences ADD COLUMN bloom_distribution jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'bloom_levels'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN bloom_levels jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,21 @@
+/*
+  # Partial-credit scoring rubrics
+
+  1. New Columns
+    - `quiz_preferences.scoring_rubric` (jsonb) - how partly right answers earn credit, e.g.
+      {"multiSelect": "proportional", "multiSelectPenalty": 0.5, "sequence": "kendall-tau",
+      "shortAnswer": "keywords", "difficultyWeights": {"advanced": 2}}; null for the default rubric
+
+  2. Notes
+    - Competitions keep their rubric inside `competitions.quiz_preferences`, so they need no new column
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_preferences' AND column_name = 'scoring_rubric'
+  ) THEN
+    ALTER TABLE quiz_preferences ADD COLUMN scoring_rubric jsonb;
+  END IF;
+END $$;
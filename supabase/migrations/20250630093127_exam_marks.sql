@@ -0,0 +1,47 @@
+/*
+  # Exam marking schemes
+
+  1. New Columns
+    - `quiz_preferences.marking_scheme` (jsonb) - marks and penalties by question type and difficulty,
+      e.g. {"id": "neet", "rules": [{"correct": 4, "wrong": -1}], "allowNegativeTotal": true};
+      null for 1 mark per question
+
+  2. Data
+    - Preferences with negative marking switched on become a custom scheme with the same penalty,
+      in `quiz_preferences` and in the preferences stored on competitions
+
+  3. Notes
+    - `negative_marking` and `negative_marks` are no longer read or written
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_preferences' AND column_name = 'marking_scheme'
+  ) THEN
+    ALTER TABLE quiz_preferences ADD COLUMN marking_scheme jsonb;
+  END IF;
+END $$;
+
+UPDATE quiz_preferences
+SET marking_scheme = jsonb_build_object(
+  'id', 'custom',
+  'rules', jsonb_build_array(jsonb_build_object('correct', 1, 'wrong', LEAST(COALESCE(negative_marks, 0), 0))),
+  'allowNegativeTotal', false
+)
+WHERE negative_marking = true AND marking_scheme IS NULL;
+
+UPDATE competitions
+SET quiz_preferences = (quiz_preferences - 'negativeMarking' - 'negativeMarks') || jsonb_build_object(
+  'markingScheme', jsonb_build_object(
+    'id', 'custom',
+    'rules', jsonb_build_array(jsonb_build_object(
+      'correct', 1,
+      'wrong', LEAST(COALESCE((quiz_preferences->>'negativeMarks')::numeric, 0), 0)
+    )),
+    'allowNegativeTotal', false
+  )
+)
+WHERE (quiz_preferences->>'negativeMarking')::boolean IS TRUE
+  AND NOT quiz_preferences ? 'markingScheme';
@@ -0,0 +1,66 @@
+/*
+  # Full quiz attempt records
+
+  1. New Columns on `quiz_results`
+    - `points`, `max_points` (numeric) - raw marks earned and available under the quiz's marking scheme
+    - `marking_scheme` (text) - id of the marking scheme, e.g. "neet"
+    - `preferences` (jsonb) - the quiz preferences used, without the study material text
+    - `questions` (jsonb) - the questions as generated, graded, with the answers given recorded on them
+    - `question_times` (jsonb) - seconds spent on each question, keyed by question id
+    - `ability` (jsonb) - the ability estimate of an adaptive quiz
+
+  2. Notes
+    - Results saved before this migration keep only their summary and cannot be replayed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'points'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN points numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'max_points'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN max_points numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'marking_scheme'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN marking_scheme text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'preferences'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN preferences jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'questions'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN questions jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'question_times'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN question_times jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'quiz_results' AND column_name = 'ability'
+  ) THEN
+    ALTER TABLE quiz_results ADD COLUMN ability jsonb;
+  END IF;
+END $$;
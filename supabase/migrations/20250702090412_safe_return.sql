@@ -0,0 +1,47 @@
+/*
+  # Resumable quizzes
+
+  1. New Tables
+    - `quiz_checkpoints` - each user's unfinished solo quiz: its preferences, questions, answers,
+      position, time spent per question and time left, saved as the quiz is answered
+
+  2. Security
+    - Enable RLS
+    - Users can only see, save and delete their own checkpoint
+
+  3. Notes
+    - A user has at most one checkpoint; starting or finishing a quiz replaces or deletes it
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_checkpoints (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  checkpoint jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE quiz_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz checkpoint"
+ON quiz_checkpoints
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save their own quiz checkpoint"
+ON quiz_checkpoints
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own quiz checkpoint"
+ON quiz_checkpoints
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own quiz checkpoint"
+ON quiz_checkpoints
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
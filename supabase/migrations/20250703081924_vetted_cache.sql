@@ -0,0 +1,15 @@
+/*
+  # Vetted question cache writes
+
+  1. Security
+    - Users can no longer insert into `question_cache` directly, since cached questions are
+      served to everyone with the same preferences and to competitions
+    - New questions are cached by the `question-pool` edge function, which vets them and writes
+      with the service role
+
+  2. Notes
+    - Existing rows are left in place; the client validates every cached question it draws and
+      drops the ones that fail
+*/
+
+DROP POLICY IF EXISTS "Users can cache questions they generated" ON question_cache;
@@ -0,0 +1,87 @@
+/*
+  # Atomic AI quota reservations
+
+  1. New Columns
+    - `ai_usage.completed_at` - when the request's token counts were recorded; NULL while the
+      request is still running
+
+  2. Functions
+    - `check_ai_quota` now reserves the request: under a per-user lock it checks every quota
+      that applies and, if the request may proceed, inserts a pending `ai_usage` row and returns
+      its id. Parallel requests are serialized, so each one sees the ones reserved before it.
+    - The gemini edge function fills in the reserved row's token counts when the request ends,
+      including streams the client aborted, and removes it when Gemini rejects the request
+
+  3. Notes
+    - Existing usage rows are marked completed
+    - Requests that never finish stay counted as requests with no tokens
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_usage' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE ai_usage ADD COLUMN completed_at timestamptz;
+    UPDATE ai_usage SET completed_at = created_at;
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS public.check_ai_quota(uuid, text);
+
+-- Check every quota that applies to a request (the most specific one for the feature and the most
+-- specific one for all features combined) and reserve a usage row for it. Usage is counted from
+-- midnight UTC. Returns the reserved row's id, or a readable message when a quota is used up.
+CREATE OR REPLACE FUNCTION public.check_ai_quota(p_user_id uuid, p_feature text, p_model text)
+RETURNS TABLE (usage_id uuid, message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quota record;
+  v_requests integer;
+  v_tokens integer;
+  v_scope text;
+  v_usage_id uuid;
+BEGIN
+  -- Held until the reservation commits, so concurrent requests from one user check in turn
+  PERFORM pg_advisory_xact_lock(hashtext('ai_quota:' || p_user_id::text));
+
+  FOR v_quota IN
+    SELECT DISTINCT ON (q.feature IS NULL) q.*
+    FROM ai_quotas q
+    WHERE (q.user_id = p_user_id OR q.user_id IS NULL)
+      AND (q.feature = p_feature OR q.feature IS NULL)
+    ORDER BY q.feature IS NULL, q.user_id IS NULL
+  LOOP
+    SELECT count(*), coalesce(sum(total_tokens), 0)
+    INTO v_requests, v_tokens
+    FROM ai_usage
+    WHERE user_id = p_user_id
+      AND created_at >= date_trunc('day', now() AT TIME ZONE 'utc') AT TIME ZONE 'utc'
+      AND (v_quota.feature IS NULL OR feature = v_quota.feature);
+
+    v_scope := CASE WHEN v_quota.feature IS NULL THEN 'AI' ELSE v_quota.feature END;
+
+    IF v_quota.daily_requests IS NOT NULL AND v_requests >= v_quota.daily_requests THEN
+      RETURN QUERY SELECT NULL::uuid, format('You have used your daily limit of %s %s requests. It resets at midnight UTC.', v_quota.daily_requests, v_scope);
+      RETURN;
+    END IF;
+
+    IF v_quota.daily_tokens IS NOT NULL AND v_tokens >= v_quota.daily_tokens THEN
+      RETURN QUERY SELECT NULL::uuid, format('You have used your daily limit of %s %s tokens. It resets at midnight UTC.', v_quota.daily_tokens, v_scope);
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO ai_usage (user_id, feature, model)
+  VALUES (p_user_id, p_feature, p_model)
+  RETURNING id INTO v_usage_id;
+
+  RETURN QUERY SELECT v_usage_id, NULL::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_ai_quota(uuid, text, text) FROM PUBLIC, anon, authenticated;
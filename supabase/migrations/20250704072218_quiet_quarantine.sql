@@ -0,0 +1,139 @@
+/*
+  # Quarantined question pool contributions
+
+  1. New Columns
+    - `question_pool.verified_at` - when the question was cleared for matches; NULL while a
+      user's contribution waits in quarantine
+
+  2. Functions
+    - `create_random_match` only draws verified questions
+
+  3. Notes
+    - Questions the fill job generates are verified as they are added. Users choose the answers of
+      the questions they contribute, so the fill job first has the model answer them, keeping the
+      ones it answers the same way and removing the rest.
+    - Existing job questions are marked verified; existing user contributions go into quarantine
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'question_pool' AND column_name = 'verified_at'
+  ) THEN
+    ALTER TABLE question_pool ADD COLUMN verified_at timestamptz;
+    UPDATE question_pool SET verified_at = created_at WHERE source = 'job';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS question_pool_unverified_idx ON question_pool (created_at) WHERE verified_at IS NULL;
+
+-- Match the waiting players for a topic and hand them a question set from the pool in one transaction.
+-- Returns the new competition id, or NULL when fewer than two players are waiting, the caller is not
+-- one of them, or the pool cannot supply p_question_count questions yet (which records demand).
+CREATE OR REPLACE FUNCTION public.create_random_match(
+  p_topic text,
+  p_difficulty text,
+  p_language text,
+  p_question_count integer DEFAULT 10
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_topic_key text := normalize_pool_topic(p_topic);
+  v_queue_ids uuid[];
+  v_user_ids uuid[];
+  v_question_ids uuid[];
+  v_questions jsonb;
+  v_competition_id uuid;
+BEGIN
+  -- Lock the waiting players so concurrent checks cannot match them twice
+  SELECT array_agg(id), array_agg(user_id)
+  INTO v_queue_ids, v_user_ids
+  FROM (
+    SELECT id, user_id
+    FROM random_queue
+    WHERE topic = p_topic
+      AND difficulty = p_difficulty
+      AND language = p_language
+      AND status = 'waiting'
+    ORDER BY created_at
+    LIMIT 8
+    FOR UPDATE SKIP LOCKED
+  ) waiting;
+
+  -- Least used verified questions first, spread evenly across question types. The pool is checked even
+  -- before a second player arrives, so the fill job hears about a topic as soon as it is queued.
+  SELECT array_agg(id ORDER BY position), jsonb_agg(question || jsonb_build_object('id', position) ORDER BY position)
+  INTO v_question_ids, v_questions
+  FROM (
+    SELECT id, question, row_number() OVER (ORDER BY type_rank, times_used, random()) AS position
+    FROM (
+      SELECT id, question, times_used,
+        row_number() OVER (PARTITION BY question_type ORDER BY times_used, random()) AS type_rank
+      FROM question_pool
+      WHERE topic_key = v_topic_key
+        AND difficulty = p_difficulty
+        AND language = p_language
+        AND verified_at IS NOT NULL
+    ) ranked
+  ) drawn
+  WHERE position <= p_question_count;
+
+  IF coalesce(array_length(v_question_ids, 1), 0) < p_question_count THEN
+    INSERT INTO question_pool_demand (topic_key, difficulty, language)
+    VALUES (v_topic_key, p_difficulty, p_language)
+    ON CONFLICT (topic_key, difficulty, language) DO UPDATE SET requested_at = now();
+    RETURN NULL;
+  END IF;
+
+  IF coalesce(array_length(v_queue_ids, 1), 0) < 2 OR NOT (auth.uid() = ANY(v_user_ids)) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE question_pool
+  SET times_used = times_used + 1, last_used_at = now()
+  WHERE id = ANY(v_question_ids);
+
+  INSERT INTO competitions (
+    creator_id, title, description, competition_code, type, max_participants,
+    quiz_preferences, questions, status
+  )
+  VALUES (
+    v_user_ids[1],
+    'Random ' || p_topic || ' Challenge',
+    p_difficulty || ' difficulty ' || p_topic || ' competition',
+    upper(substr(md5(random()::text), 1, 6)),
+    'random',
+    array_length(v_user_ids, 1),
+    jsonb_build_object(
+      'course', p_topic,
+      'difficulty', p_difficulty,
+      'language', p_language,
+      'questionCount', p_question_count,
+      'questionTypes', jsonb_build_array('multiple-choice', 'true-false'),
+      'mode', 'exam',
+      'timeLimitEnabled', true,
+      'timeLimit', '30',
+      'totalTimeLimit', '600'
+    ),
+    v_questions,
+    'waiting'
+  )
+  RETURNING id INTO v_competition_id;
+
+  INSERT INTO competition_participants (
+    competition_id, user_id, status, joined_at, is_online, last_activity,
+    current_question, questions_answered, is_ready
+  )
+  SELECT v_competition_id, user_id, 'joined', now(), true, now(), 0, 0, false
+  FROM unnest(v_user_ids) AS user_id;
+
+  UPDATE random_queue SET status = 'matched' WHERE id = ANY(v_queue_ids);
+
+  RETURN v_competition_id;
+END;
+$$;
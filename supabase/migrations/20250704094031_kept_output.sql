@@ -0,0 +1,24 @@
+/*
+  # Recorded quiz generations
+
+  1. New Tables
+    - `quiz_generations` - the raw output of each quiz request the gemini edge function proxied,
+      kept briefly so the question cache only takes questions the model actually generated
+
+  2. Security
+    - Enable RLS without client policies: only the edge functions (service role) read and write it
+
+  3. Notes
+    - The question-pool function removes a user's generations older than a day when it caches
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_generations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  output text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quiz_generations_user_created_idx ON quiz_generations (user_id, created_at);
+
+ALTER TABLE quiz_generations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,107 @@
+/*
+  # Store OpenAI-compatible API keys encrypted in Supabase Vault
+
+  1. New Columns
+    - `openai_key_hint` (text) - last four characters of the key, shown masked in API Settings
+
+  2. Changes
+    - Existing keys are moved into Vault as secrets named `openai_api_key:<user id>`
+    - `openai_api_key` is dropped, so plaintext keys are no longer stored or readable by clients
+
+  3. Functions
+    - `set_openai_api_key` - saves, replaces or (given an empty key) removes the caller's key
+    - `get_openai_api_key` - decrypts a user's key; only the openai edge function (service role)
+      may call it
+
+  4. Notes
+    - Requests now go through the openai edge function, which meters usage and applies quotas the
+      same way the gemini function does
+    - Secrets are looked up by name for the same reason as Gemini keys: users can update their
+      own `api_keys` row and must not be able to point it at another user's secret
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'openai_key_hint'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN openai_key_hint text;
+  END IF;
+END $$;
+
+-- Move plaintext keys into Vault before the column goes away
+DO $$
+DECLARE
+  v_row record;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'openai_api_key'
+  ) THEN
+    FOR v_row IN
+      SELECT user_id, trim(openai_api_key) AS api_key
+      FROM api_keys
+      WHERE coalesce(trim(openai_api_key), '') <> ''
+    LOOP
+      PERFORM vault.create_secret(v_row.api_key, 'openai_api_key:' || v_row.user_id, 'OpenAI API key');
+      UPDATE api_keys
+      SET openai_key_hint = right(v_row.api_key, 4)
+      WHERE user_id = v_row.user_id;
+    END LOOP;
+
+    ALTER TABLE api_keys DROP COLUMN openai_api_key;
+  END IF;
+END $$;
+
+-- Save the caller's key, or remove it when p_api_key is empty
+CREATE OR REPLACE FUNCTION public.set_openai_api_key(p_api_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_api_key text := trim(coalesce(p_api_key, ''));
+  v_secret_name text;
+  v_secret_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_secret_name := 'openai_api_key:' || v_user_id;
+  SELECT id INTO v_secret_id FROM vault.secrets WHERE name = v_secret_name;
+
+  IF v_api_key = '' THEN
+    DELETE FROM vault.secrets WHERE id = v_secret_id;
+  ELSIF v_secret_id IS NULL THEN
+    PERFORM vault.create_secret(v_api_key, v_secret_name, 'OpenAI API key');
+  ELSE
+    PERFORM vault.update_secret(v_secret_id, v_api_key);
+  END IF;
+
+  UPDATE api_keys
+  SET openai_key_hint = CASE WHEN v_api_key = '' THEN NULL ELSE right(v_api_key, 4) END
+  WHERE user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO api_keys (user_id, openai_key_hint)
+    VALUES (v_user_id, CASE WHEN v_api_key = '' THEN NULL ELSE right(v_api_key, 4) END);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_openai_api_key(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT decrypted_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'openai_api_key:' || p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_openai_api_key(uuid) FROM PUBLIC, anon, authenticated;